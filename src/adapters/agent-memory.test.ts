@@ -0,0 +1,228 @@
+/**
+ * Tests for Agent Memory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createAgentMemory, HashingEmbedder, LLMEmbedder, VectorIndex, cosineSimilarity } from './agent-memory.js';
+import { JsonStorage } from './json-storage.js';
+import type {
+  LLMPort,
+  LLMProviderConfig,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+  Message,
+} from '@ports/llm.js';
+
+/**
+ * Summarizes by listing the first word of each new message. It embeds only
+ * once given an `embed` function.
+ */
+class SummarizingLLM implements LLMPort {
+  requests: CompletionRequest[] = [];
+  embed?: LLMPort['embed'];
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(request);
+    const prompt = request.messages[1].content as string;
+    const previous = prompt.match(/^Summary so far:\n(.*)$/m)?.[1];
+    const words = [...prompt.matchAll(/^\w+: (\S+)/gm)].map((m) => m[1]);
+    return {
+      content: [previous, words.join(' ')].filter(Boolean).join(' '),
+      role: 'assistant',
+      finishReason: 'stop',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: 'summarizer',
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    return this.complete(request);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [];
+  }
+
+  async getModelInfo(): Promise<ModelInfo | null> {
+    return null;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider() {
+    return 'openai' as const;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return { provider: 'openai', defaultModel: 'summarizer' };
+  }
+}
+
+const exchange = (question: string, answer: string): Message[] => [
+  { role: 'user', content: question },
+  { role: 'assistant', content: answer },
+];
+
+describe('Agent Memory', () => {
+  let storage: JsonStorage;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-memory-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep the last messages in buffer memory', async () => {
+    const memory = createAgentMemory({ type: 'buffer', maxMessages: 3 }, { storage, key: 'chat/memory' });
+    await memory.add(exchange('One', 'Two'));
+    await memory.add(exchange('Three', 'Four'));
+
+    expect((await memory.getContext('Five')).map((m) => m.content)).toEqual(['Two', 'Three', 'Four']);
+    expect(memory.getSummary()).toBeNull();
+
+    const reloaded = createAgentMemory({ type: 'buffer', maxMessages: 3 }, { storage, key: 'chat/memory' });
+    await reloaded.load();
+    expect(await reloaded.getContext()).toHaveLength(3);
+
+    await reloaded.clear();
+    expect(await reloaded.getContext()).toEqual([]);
+    expect(await storage.exists('chat/memory')).toBe(false);
+  });
+
+  it('should summarize messages in batches once they leave the window', async () => {
+    const llm = new SummarizingLLM();
+    const config = { type: 'summary' as const, maxMessages: 2, summarizeEvery: 2 };
+    const memory = createAgentMemory(config, { storage, key: 'chat/memory', llm });
+
+    await memory.add(exchange('Alpha question', 'Beta answer'));
+    await memory.add([{ role: 'user', content: 'Gamma question' }]);
+    expect(llm.requests).toHaveLength(0);
+
+    await memory.add([{ role: 'assistant', content: 'Delta answer' }]);
+    expect(llm.requests).toHaveLength(1);
+    expect(memory.getSummary()).toMatchObject({ content: 'Alpha Beta', messageCount: 2 });
+    expect(await memory.getContext()).toEqual([
+      { role: 'system', content: 'Summary of the conversation so far:\nAlpha Beta' },
+      { role: 'user', content: 'Gamma question' },
+      { role: 'assistant', content: 'Delta answer' },
+    ]);
+
+    // The next summary builds on the previous one
+    await memory.add(exchange('Epsilon question', 'Zeta answer'));
+    expect(memory.getSummary()).toMatchObject({ content: 'Alpha Beta Gamma Delta', messageCount: 4 });
+
+    const reloaded = createAgentMemory(config, { storage, key: 'chat/memory', llm });
+    await reloaded.load();
+    expect(reloaded.getSummary()!.updatedAt).toBeInstanceOf(Date);
+    expect(await reloaded.getContext()).toHaveLength(3);
+
+    expect(() => createAgentMemory(config, { storage, key: 'chat/memory' })).toThrow('needs an LLM');
+  });
+
+  it('should start over from a conversation kept elsewhere', async () => {
+    const llm = new SummarizingLLM();
+    const config = { type: 'summary' as const, maxMessages: 2, summarizeEvery: 2 };
+    const memory = createAgentMemory(config, { storage, key: 'chat/memory', llm });
+    await memory.add(exchange('Forgotten question', 'Forgotten answer'));
+
+    const history = [...exchange('Alpha question', 'Beta answer'), ...exchange('Gamma question', 'Delta answer')];
+    await memory.seed(history, { content: 'Alpha Beta', messageCount: 2, updatedAt: new Date() });
+    expect(llm.requests).toHaveLength(0);
+    expect((await memory.getContext()).map((m) => m.content)).toEqual([
+      'Summary of the conversation so far:\nAlpha Beta',
+      'Gamma question',
+      'Delta answer',
+    ]);
+
+    // Buffer memory keeps the last messages whatever the summary
+    const buffer = createAgentMemory({ type: 'buffer', maxMessages: 3 }, { storage, key: 'chat/buffer' });
+    await buffer.seed(history, { content: 'Ignored', messageCount: 2, updatedAt: new Date() });
+    expect((await buffer.getContext()).map((m) => m.content)).toEqual(['Beta answer', 'Gamma question', 'Delta answer']);
+
+    // Without a summary to start from, the older messages are summarized
+    await memory.seed([...history, ...exchange('Epsilon question', 'Zeta answer')]);
+    expect(memory.getSummary()).toMatchObject({ content: 'Alpha Beta Gamma Delta', messageCount: 4 });
+  });
+
+  it('should recall earlier messages similar to the next one', async () => {
+    const config = { type: 'vector' as const, maxMessages: 2, topK: 1 };
+    const options = { storage, key: 'chat/memory', embedder: new HashingEmbedder() };
+    const memory = createAgentMemory(config, options);
+
+    await memory.add(exchange('My cat is called Miso', 'Miso is a lovely name for a cat'));
+    await memory.add(exchange('I live in Bergen', 'Bergen is rainy'));
+    await memory.add(exchange('What should I cook tonight?', 'Try a soup'));
+
+    expect(await memory.getContext('What is the name of my cat?')).toEqual([
+      { role: 'system', content: 'Earlier messages that may be relevant:\nUser: My cat is called Miso' },
+      { role: 'user', content: 'What should I cook tonight?' },
+      { role: 'assistant', content: 'Try a soup' },
+    ]);
+    // Nothing similar enough, or nothing before the window
+    expect(await memory.getContext('Quantum chromodynamics')).toHaveLength(2);
+
+    // The index is stored along with the messages
+    const reloaded = createAgentMemory(config, options);
+    await reloaded.load();
+    expect((await reloaded.getContext('Where do I live?'))[0].content).toContain('I live in Bergen');
+
+    await reloaded.clear();
+    expect(await storage.list('chat/memory')).toEqual([]);
+  });
+});
+
+describe('VectorIndex', () => {
+  it('should rank entries by cosine similarity', async () => {
+    const writes: unknown[] = [];
+    const storage = { write: async (_key: string, data: unknown) => void writes.push(data) };
+    const index = new VectorIndex<string>(storage as never, 'index');
+
+    await index.add([
+      { id: 'x', vector: [1, 0], data: 'east' },
+      { id: 'y', vector: [0, 1], data: 'north' },
+      { id: 'z', vector: [-1, 0], data: 'west' },
+    ]);
+    await index.add([{ id: 'y', vector: [1, 1], data: 'north-east' }]);
+
+    expect(index.size).toBe(3);
+    expect(index.search([1, 0.1], { topK: 2 }).map((e) => e.data)).toEqual(['east', 'north-east']);
+    expect(index.search([1, 0.1], { topK: 5, minScore: 0 }).map((e) => e.data)).toEqual(['east', 'north-east']);
+    expect(index.search([1, 0], { topK: 5, filter: (d) => d !== 'east' })[0].data).toBe('north-east');
+    expect(writes).toHaveLength(2);
+
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  it('should embed deterministically, or through an LLM embedding model', async () => {
+    const embedder = new HashingEmbedder(64);
+    const [a, b, c] = await embedder.embed(['Rainy in Oslo', 'rainy in oslo!', 'Sunny beaches']);
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, c)).toBeLessThan(0.5);
+
+    const llm = new SummarizingLLM();
+    await expect(new LLMEmbedder(llm).embed(['Hi'])).rejects.toThrow('openai does not support embeddings');
+
+    const models: Array<string | undefined> = [];
+    llm.embed = async (request) => {
+      models.push(request.model);
+      return { embeddings: request.input.map(() => [1, 0]), model: 'nomic-embed-text' };
+    };
+    expect(await new LLMEmbedder(llm, 'nomic-embed-text').embed(['Hi', 'There'])).toEqual([[1, 0], [1, 0]]);
+    expect(models).toEqual(['nomic-embed-text']);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * Agent Memory
+ *
+ * Buffer, summary and vector memory for agent conversations, kept through
+ * StoragePort. Summaries are written by an LLMPort; vector memory embeds
+ * messages with an Embedder, either an LLMPort's embedding model or the
+ * HashingEmbedder, which needs no model at all.
+ */
+
+import type { StoragePort } from '@ports/storage.js';
+import type { LLMPort, Message } from '@ports/llm.js';
+import type { AgentMemory, AgentMemoryConfig, Embedder, MemorySummary, MemoryType } from '@ports/memory.js';
+
+const DEFAULT_MAX_MESSAGES = 10;
+const DEFAULT_TOP_K = 4;
+const DEFAULT_MIN_SCORE = 0.2;
+const DEFAULT_SUMMARY_PROMPT =
+  'You keep the memory of a conversation between a user and an assistant. ' +
+  'Update the summary with the new messages. Keep facts, names, preferences, decisions and open questions; ' +
+  'leave out small talk. Reply with the summary only.';
+
+export interface AgentMemoryOptions {
+  storage: StoragePort<any>;
+  key: string; // Where this conversation's memory is stored
+  llm?: LLMPort; // Writes summaries, and embeds messages unless an embedder is given
+  model?: string; // Model writing summaries
+  embedder?: Embedder;
+}
+
+/**
+ * Memory with the strategy picked by the config
+ */
+export function createAgentMemory(config: AgentMemoryConfig, options: AgentMemoryOptions): AgentMemory {
+  const { storage, key, llm } = options;
+
+  switch (config.type) {
+    case 'buffer':
+      return new BufferMemory(config, storage, key);
+    case 'summary':
+      if (!llm) {
+        throw new Error('Summary memory needs an LLM to write summaries');
+      }
+      return new SummaryMemory(config, storage, key, llm, options.model);
+    case 'vector': {
+      const embedder = options.embedder ?? (llm ? new LLMEmbedder(llm, config.embeddingModel) : undefined);
+      if (!embedder) {
+        throw new Error('Vector memory needs an embedder or an LLM with an embedding model');
+      }
+      return new VectorMemory(config, storage, key, embedder);
+    }
+    default:
+      throw new Error(`Unknown memory type: ${(config as AgentMemoryConfig).type}`);
+  }
+}
+
+/**
+ * Memory as persisted through StoragePort
+ */
+interface StoredMemory {
+  messages: Message[];
+  summary?: MemorySummary | null;
+  count?: number;
+}
+
+/**
+ * Keeps the last `maxMessages` messages
+ */
+export class BufferMemory implements AgentMemory {
+  readonly type: MemoryType = 'buffer';
+  protected messages: Message[] = [];
+  protected maxMessages: number;
+
+  constructor(
+    config: AgentMemoryConfig,
+    protected storage: StoragePort<any>,
+    protected key: string,
+  ) {
+    this.maxMessages = config.maxMessages ?? DEFAULT_MAX_MESSAGES;
+  }
+
+  async load(): Promise<void> {
+    const stored: StoredMemory | null = await this.storage.read(this.key);
+    this.restore(stored ?? { messages: [] });
+  }
+
+  async add(messages: Message[]): Promise<void> {
+    const all = [...this.messages, ...messages];
+    this.messages = all.slice(Math.max(0, all.length - this.maxMessages));
+    await this.save();
+  }
+
+  async seed(messages: Message[]): Promise<void> {
+    this.restore({ messages: [] });
+    await this.add(messages);
+  }
+
+  async getContext(): Promise<Message[]> {
+    return [...this.messages];
+  }
+
+  getSummary(): MemorySummary | null {
+    return null;
+  }
+
+  async clear(): Promise<void> {
+    this.restore({ messages: [] });
+    await this.storage.delete(this.key);
+  }
+
+  protected restore(stored: StoredMemory): void {
+    this.messages = stored.messages;
+  }
+
+  protected toStored(): StoredMemory {
+    return { messages: this.messages };
+  }
+
+  protected async save(): Promise<void> {
+    await this.storage.write(this.key, this.toStored());
+  }
+}
+
+/**
+ * Keeps the last `maxMessages` messages and a summary of the ones before.
+ * Messages are summarized in batches of `summarizeEvery`, so the model is not
+ * asked for a summary after every message.
+ */
+export class SummaryMemory extends BufferMemory {
+  readonly type: MemoryType = 'summary';
+  private summary: MemorySummary | null = null;
+  private summaryPrompt: string;
+  private summarizeEvery: number;
+  private summarizing = false;
+
+  constructor(
+    config: AgentMemoryConfig,
+    storage: StoragePort<any>,
+    key: string,
+    private llm: LLMPort,
+    private model?: string,
+  ) {
+    super(config, storage, key);
+    this.summaryPrompt = config.summaryPrompt ?? DEFAULT_SUMMARY_PROMPT;
+    this.summarizeEvery = config.summarizeEvery ?? Math.max(1, Math.floor(this.maxMessages / 2));
+  }
+
+  /**
+   * Remember the messages, summarizing the oldest ones once enough are past
+   * `maxMessages`. Messages can be added while a summary is being written.
+   */
+  async add(messages: Message[]): Promise<void> {
+    this.messages = [...this.messages, ...messages];
+    await this.save();
+
+    if (!this.summarizing && this.messages.length >= this.maxMessages + this.summarizeEvery) {
+      this.summarizing = true;
+      try {
+        await this.summarize(this.messages.slice(0, this.messages.length - this.maxMessages));
+      } finally {
+        this.summarizing = false;
+      }
+    }
+  }
+
+  async seed(messages: Message[], summary?: MemorySummary): Promise<void> {
+    this.restore({ messages: [], summary });
+    await this.add(summary ? messages.slice(summary.messageCount) : messages);
+  }
+
+  async getContext(): Promise<Message[]> {
+    if (!this.summary) return [...this.messages];
+    return [
+      { role: 'system', content: `Summary of the conversation so far:\n${this.summary.content}` },
+      ...this.messages,
+    ];
+  }
+
+  getSummary(): MemorySummary | null {
+    return this.summary;
+  }
+
+  protected restore(stored: StoredMemory): void {
+    super.restore(stored);
+    this.summary = stored.summary ? { ...stored.summary, updatedAt: new Date(stored.summary.updatedAt) } : null;
+  }
+
+  protected toStored(): StoredMemory {
+    return { messages: this.messages, summary: this.summary };
+  }
+
+  private async summarize(messages: Message[]): Promise<void> {
+    const previous = this.summary ? `Summary so far:\n${this.summary.content}\n\n` : '';
+    const response = await this.llm.complete({
+      model: this.model,
+      messages: [
+        { role: 'system', content: this.summaryPrompt },
+        { role: 'user', content: `${previous}New messages:\n${transcript(messages)}` },
+      ],
+      temperature: 0.3,
+    });
+
+    this.summary = {
+      content: response.content.trim(),
+      messageCount: (this.summary?.messageCount ?? 0) + messages.length,
+      updatedAt: new Date(),
+    };
+    // Messages added meanwhile are after the summarized ones
+    this.messages = this.messages.slice(messages.length);
+    await this.save();
+  }
+}
+
+/**
+ * Where a remembered message came in the conversation
+ */
+interface RecalledMessage {
+  role: Message['role'];
+  content: string;
+  position: number;
+}
+
+/**
+ * Keeps the last `maxMessages` messages, and recalls the `topK` earlier
+ * messages most similar to the next one
+ */
+export class VectorMemory extends BufferMemory {
+  readonly type: MemoryType = 'vector';
+  private index: VectorIndex<RecalledMessage>;
+  private count = 0; // Messages remembered, including those only in the index
+  private topK: number;
+  private minScore: number;
+
+  constructor(
+    config: AgentMemoryConfig,
+    storage: StoragePort<any>,
+    key: string,
+    private embedder: Embedder,
+  ) {
+    super(config, storage, key);
+    this.index = new VectorIndex(storage, `${key}/index`);
+    this.topK = config.topK ?? DEFAULT_TOP_K;
+    this.minScore = config.minScore ?? DEFAULT_MIN_SCORE;
+  }
+
+  async load(): Promise<void> {
+    await super.load();
+    await this.index.load();
+  }
+
+  async add(messages: Message[]): Promise<void> {
+    const recalled = messages
+      .map((message, i) => ({ role: message.role, content: textOf(message), position: this.count + i }))
+      .filter((message) => message.content);
+
+    if (recalled.length > 0) {
+      const vectors = await this.embedder.embed(recalled.map((message) => message.content));
+      await this.index.add(
+        recalled.map((message, i) => ({ id: String(message.position), vector: vectors[i], data: message })),
+      );
+    }
+
+    this.count += messages.length;
+    await super.add(messages);
+  }
+
+  async seed(messages: Message[]): Promise<void> {
+    await this.index.clear();
+    await super.seed(messages);
+  }
+
+  async getContext(query?: string): Promise<Message[]> {
+    // Messages still in the buffer are in the prompt anyway
+    const firstBuffered = this.count - this.messages.length;
+    if (!query || firstBuffered === 0) return [...this.messages];
+
+    const [vector] = await this.embedder.embed([query]);
+    const matches = this.index.search(vector, {
+      topK: this.topK,
+      minScore: this.minScore,
+      filter: (message) => message.position < firstBuffered,
+    });
+    if (matches.length === 0) return [...this.messages];
+
+    const recalled = matches.map((match) => match.data).sort((a, b) => a.position - b.position);
+    return [
+      { role: 'system', content: `Earlier messages that may be relevant:\n${transcript(recalled)}` },
+      ...this.messages,
+    ];
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    await this.index.clear();
+  }
+
+  protected restore(stored: StoredMemory): void {
+    super.restore(stored);
+    this.count = stored.count ?? stored.messages.length;
+  }
+
+  protected toStored(): StoredMemory {
+    return { messages: this.messages, count: this.count };
+  }
+}
+
+export interface VectorEntry<T> {
+  id: string;
+  vector: number[];
+  data: T;
+}
+
+/**
+ * Vectors with their data, searched by cosine similarity and kept through
+ * StoragePort under one key
+ */
+export class VectorIndex<T = unknown> {
+  private entries: VectorEntry<T>[] = [];
+
+  constructor(
+    private storage: StoragePort<any>,
+    private key: string,
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async load(): Promise<void> {
+    this.entries = (await this.storage.read(this.key)) ?? [];
+  }
+
+  /**
+   * Add entries, replacing those with the same id
+   */
+  async add(entries: VectorEntry<T>[]): Promise<void> {
+    const ids = new Set(entries.map((entry) => entry.id));
+    this.entries = [...this.entries.filter((entry) => !ids.has(entry.id)), ...entries];
+    await this.storage.write(this.key, this.entries);
+  }
+
+  /**
+   * The entries most similar to the vector, most similar first
+   */
+  search(
+    vector: number[],
+    options: { topK: number; minScore?: number; filter?: (data: T) => boolean },
+  ): Array<VectorEntry<T> & { score: number }> {
+    return this.entries
+      .filter((entry) => !options.filter || options.filter(entry.data))
+      .map((entry) => ({ ...entry, score: cosineSimilarity(vector, entry.vector) }))
+      .filter((entry) => entry.score >= (options.minScore ?? -1))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+    await this.storage.delete(this.key);
+  }
+}
+
+/**
+ * Embeds through an LLMPort's embedding model
+ */
+export class LLMEmbedder implements Embedder {
+  constructor(
+    private llm: LLMPort,
+    private model?: string,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.llm.embed) {
+      throw new Error(`LLM provider ${this.llm.getProvider()} does not support embeddings`);
+    }
+    if (texts.length === 0) return [];
+    return (await this.llm.embed({ input: texts, model: this.model })).embeddings;
+  }
+}
+
+/**
+ * Deterministic embedder hashing each word into one of `dimensions` buckets.
+ * Texts sharing words are similar; synonyms are not, so it suits tests and
+ * setups without an embedding model.
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(private dimensions = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      const hash = fnv1a(word);
+      // The sign spreads collisions out instead of piling them up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.hypot(...vector);
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vectors differ in length: ${a.length} and ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The text of a message, without images and tool calls
+ */
+function textOf(message: Pick<Message, 'content'>): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function transcript(messages: Array<Pick<Message, 'role' | 'content'>>): string {
+  return messages
+    .map((message) => `${message.role[0].toUpperCase()}${message.role.slice(1)}: ${textOf(message)}`)
+    .join('\n');
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
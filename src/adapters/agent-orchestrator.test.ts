@@ -0,0 +1,328 @@
+/**
+ * Tests for the Agent Orchestrator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AgentOrchestrator } from './agent-orchestrator.js';
+import type {
+  Agent,
+  AgentPort,
+  AgentTool,
+  AgentOrchestration,
+  AgentExecutionRequest,
+  AgentExecutionResult,
+  AgentStreamEvent,
+} from '@ports/agent.js';
+
+type Behaviour = (request: AgentExecutionRequest) => string | Promise<string>;
+
+/**
+ * Agents answering through a function each; every run takes one step and
+ * 100 tokens. The set of agents is fixed.
+ */
+class FakeAgents implements AgentPort {
+  requests: AgentExecutionRequest[] = [];
+  running = 0;
+  maxRunning = 0;
+
+  constructor(private behaviours: Record<string, Behaviour>) {}
+
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionResult> {
+    const behaviour = this.behaviours[request.agentId];
+    if (!behaviour) throw new Error(`Agent not found: ${request.agentId}`);
+
+    this.requests.push(request);
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const output = await behaviour(request);
+      return {
+        executionId: `run-${this.requests.length}`,
+        success: true,
+        output,
+        finalState: 'completed',
+        steps: [],
+        metrics: { steps: 1, llmCalls: 1, toolCalls: 0, tokensUsed: 100, cost: 0.01, duration: 5, errors: 0 },
+      };
+    } catch (error) {
+      return {
+        executionId: `run-${this.requests.length}`,
+        success: false,
+        output: '',
+        finalState: request.signal?.aborted ? 'cancelled' : 'failed',
+        steps: [],
+        metrics: { steps: 1, llmCalls: 1, toolCalls: 0, tokensUsed: 100, cost: 0.01, duration: 5, errors: 1 },
+        error: { message: (error as Error).message },
+      };
+    } finally {
+      this.running--;
+    }
+  }
+
+  async *executeStream(request: AgentExecutionRequest): AsyncGenerator<AgentStreamEvent, AgentExecutionResult> {
+    const result = await this.execute(request);
+    yield { type: 'complete', result };
+    return result;
+  }
+
+  async stopExecution(): Promise<void> {}
+
+  async getAgent(id: string): Promise<Agent | null> {
+    if (!this.behaviours[id]) return null;
+    return {
+      id,
+      name: id,
+      description: '',
+      type: 'task',
+      llm: { provider: 'ollama', model: 'fake' },
+      systemPrompt: '',
+      tools: [],
+    };
+  }
+
+  async listAgents(): Promise<Agent[]> {
+    const agents = await Promise.all(Object.keys(this.behaviours).map((id) => this.getAgent(id)));
+    return agents.filter((agent) => agent !== null);
+  }
+
+  async getExecutionHistory(): Promise<AgentExecutionResult[]> {
+    return [];
+  }
+
+  async getTools(): Promise<AgentTool[]> {
+    return [];
+  }
+
+  async createAgent(): Promise<Agent> {
+    throw new Error('FakeAgents cannot create agents');
+  }
+
+  async updateAgent(): Promise<Agent> {
+    throw new Error('FakeAgents cannot update agents');
+  }
+
+  async deleteAgent(): Promise<void> {
+    throw new Error('FakeAgents cannot delete agents');
+  }
+
+  async registerTool(): Promise<void> {
+    throw new Error('FakeAgents cannot register tools');
+  }
+
+  async createAgentFromWorkflow(): Promise<Agent> {
+    throw new Error('FakeAgents cannot create agents');
+  }
+}
+
+function orchestrate(agents: FakeAgents) {
+  return new AgentOrchestrator(agents);
+}
+
+function orchestration(
+  pattern: AgentOrchestration['pattern'],
+  agents: AgentOrchestration['agents'],
+  dataFlow: AgentOrchestration['dataFlow'] = [],
+): AgentOrchestration {
+  return { id: 'o1', name: 'Test', description: '', pattern, agents, dataFlow };
+}
+
+describe('AgentOrchestrator', () => {
+  it('should run agents in order, passing outputs along the data flow', async () => {
+    const agents = new FakeAgents({
+      research: (r) => `\`\`\`json\n{"facts": ["${r.input}"], "topic": "tides"}\n\`\`\``,
+      write: (r) => `Article on ${r.context!.topic} from ${r.input}`,
+    });
+
+    const result = await orchestrate(agents).run(
+      orchestration('sequential', [{ agentId: 'research' }, { agentId: 'write' }], [
+        { fromAgent: 'research', toAgent: 'write', mapping: { topic: 'topic', 'facts.0': 'input' } },
+      ]),
+      { input: 'The moon pulls', context: { tone: 'plain' } },
+    );
+
+    expect(result).toMatchObject({ success: true, output: 'Article on tides from The moon pulls' });
+    expect(agents.requests[1].context).toEqual({ tone: 'plain', topic: 'tides' });
+    expect(result.agents.map((a) => [a.agentId, a.status])).toEqual([
+      ['research', 'completed'],
+      ['write', 'completed'],
+    ]);
+    expect(result.agents[0].output).toEqual({ facts: ['The moon pulls'], topic: 'tides' });
+    expect(result.metrics).toMatchObject({ runs: 2, steps: 2, tokensUsed: 200 });
+    expect(result.metrics.cost).toBeCloseTo(0.02);
+
+    // A failing agent stops the ones after it
+    const failing = new FakeAgents({
+      research: () => {
+        throw new Error('No sources');
+      },
+      write: () => 'never',
+    });
+    const failed = await orchestrate(failing).run(
+      orchestration('sequential', [{ agentId: 'research' }, { agentId: 'write' }]),
+      { input: 'x' },
+    );
+    expect(failed).toMatchObject({
+      success: false,
+      error: { message: 'Agent research failed: No sources', agentId: 'research' },
+    });
+    expect(failed.agents.map((a) => a.status)).toEqual(['failed', 'skipped']);
+    expect(failed.agents[0].metrics.errors).toBe(1);
+  });
+
+  it('should skip agents whose condition is false, and repeat loops while agents run', async () => {
+    const agents = new FakeAgents({
+      classify: () => '{"sentiment": "negative"}',
+      apologise: () => 'Sorry!',
+      thank: () => 'Thanks!',
+    });
+    const result = await orchestrate(agents).run(
+      orchestration('conditional', [
+        { agentId: 'classify' },
+        { agentId: 'apologise', condition: 'last.sentiment === "negative"' },
+        { agentId: 'thank', condition: 'outputs.classify.sentiment === "positive"' },
+      ]),
+      { input: 'Broken on arrival' },
+    );
+    expect(result.agents.map((a) => a.status)).toEqual(['completed', 'completed', 'skipped']);
+    expect(result.output).toBe('Sorry!');
+
+    let drafts = 0;
+    const looping = new FakeAgents({
+      draft: () => `Draft ${++drafts}`,
+      review: (r) => (r.context!.draft === 'Draft 3' ? '{"approved": true}' : '{"approved": false}'),
+    });
+    const loop = await orchestrate(looping).run(
+      orchestration(
+        'loop',
+        [
+          { agentId: 'draft', condition: '!outputs.review?.approved' },
+          { agentId: 'review', condition: '!outputs.review?.approved' },
+        ],
+        [{ fromAgent: 'draft', toAgent: 'review', mapping: { output: 'draft' } }],
+      ),
+      { input: 'Write a haiku' },
+    );
+    expect(loop).toMatchObject({ success: true, iterations: 3, output: '{"approved":true}' });
+    expect(loop.agents.map((a) => a.runs.length)).toEqual([3, 3]);
+    expect(loop.agents[0].metrics.tokensUsed).toBe(300);
+
+    const capped = await orchestrate(new FakeAgents({ draft: () => 'Again' })).run(
+      orchestration('loop', [{ agentId: 'draft' }]),
+      { input: 'x', maxIterations: 2 },
+    );
+    expect(capped).toMatchObject({ success: true, iterations: 2, metrics: { runs: 2 } });
+  });
+
+  it('should run agents in parallel up to the limit, waiting for the agents feeding them', async () => {
+    const agents = new FakeAgents({
+      a: () => 'A',
+      b: () => 'B',
+      c: () => 'C',
+      broken: () => {
+        throw new Error('Down');
+      },
+      join: (r) => `${r.context!.a}+${r.context!.b}`,
+      after: () => 'never',
+    });
+
+    const result = await orchestrate(agents).run(
+      orchestration(
+        'parallel',
+        [{ agentId: 'a' }, { agentId: 'b' }, { agentId: 'c' }, { agentId: 'broken' }, { agentId: 'join' }, { agentId: 'after' }],
+        [
+          { fromAgent: 'a', toAgent: 'join', mapping: { output: 'a' } },
+          { fromAgent: 'b', toAgent: 'join', mapping: { output: 'b' } },
+          { fromAgent: 'broken', toAgent: 'after', mapping: { output: 'input' } },
+        ],
+      ),
+      { input: 'go', maxConcurrency: 2 },
+    );
+
+    expect(agents.maxRunning).toBe(2);
+    expect(result.agents.map((a) => a.status)).toEqual(['completed', 'completed', 'completed', 'failed', 'completed', 'skipped']);
+    expect(result.agents[4].output).toBe('A+B');
+    expect(result.agents[5].error).toBe('Skipped because broken did not complete');
+    expect(result).toMatchObject({ success: false, output: 'A+B', error: { agentId: 'broken' } });
+  
+    // Agents listed before the agents feeding them still wait for them
+    const reordered = await orchestrate(agents).run(
+      orchestration('parallel', [{ agentId: 'join' }, { agentId: 'a' }, { agentId: 'b' }], [
+        { fromAgent: 'a', toAgent: 'join', mapping: { output: 'a' } },
+        { fromAgent: 'b', toAgent: 'join', mapping: { output: 'b' } },
+      ]),
+      { input: 'go' },
+    );
+    expect(reordered.agents[0]).toMatchObject({ status: 'completed', output: 'A+B' });
+
+    const requests = agents.requests.length;
+    await expect(
+      orchestrate(agents).run(
+        orchestration('parallel', [{ agentId: 'a' }, { agentId: 'b' }, { agentId: 'c' }], [
+          { fromAgent: 'a', toAgent: 'b', mapping: { output: 'input' } },
+          { fromAgent: 'b', toAgent: 'c', mapping: { output: 'input' } },
+          { fromAgent: 'c', toAgent: 'b', mapping: { output: 'input' } },
+        ]),
+        { input: 'go' },
+      ),
+    ).rejects.toThrow('Data flow has a cycle between agents: b, c');
+    expect(agents.requests).toHaveLength(requests);
+  });
+
+  it('should map agents over items and report expression errors', async () => {
+    const agents = new FakeAgents({
+      split: () => '["apples", "pears", "plums"]',
+      describe: (r) => `${r.context!.index}:${String(r.input).toUpperCase()}`,
+      combine: (r) => String(r.input),
+    });
+
+    const result = await orchestrate(agents).run(
+      orchestration(
+        'map',
+        [
+          { agentId: 'split' },
+          { agentId: 'describe', iterateOver: 'outputs.split.filter(fruit => fruit.startsWith("p"))' },
+          { agentId: 'combine' },
+        ],
+        [{ fromAgent: 'describe', toAgent: 'combine', mapping: { output: 'input' } }],
+      ),
+      { input: 'Fruit', maxConcurrency: 2 },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.agents[1].output).toEqual(['0:PEARS', '1:PLUMS']);
+    expect(result.agents[1].runs).toHaveLength(2);
+    expect(agents.requests[1].context).toMatchObject({ item: 'pears', index: 0 });
+    expect(result.output).toBe('["0:PEARS","1:PLUMS"]');
+
+    const notArray = await orchestrate(agents).run(
+      orchestration('map', [{ agentId: 'describe', iterateOver: 'input' }]),
+      { input: 'Fruit' },
+    );
+    expect(notArray.error!.message).toBe('Agent describe failed: iterateOver gave string, not an array');
+
+    await expect(
+      orchestrate(agents).run(orchestration('conditional', [{ agentId: 'split', condition: 'last >' }]), { input: '' }),
+    ).rejects.toThrow('Unexpected end');
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const controller = new AbortController();
+    const agents = new FakeAgents({
+      first: () => {
+        controller.abort();
+        return 'done';
+      },
+      second: () => 'never',
+    });
+
+    const result = await orchestrate(agents).run(
+      orchestration('sequential', [{ agentId: 'first' }, { agentId: 'second' }]),
+      { input: 'x', signal: controller.signal },
+    );
+
+    expect(result).toMatchObject({ success: false, error: { message: 'Orchestration was stopped' } });
+    expect(result.agents.map((a) => a.status)).toEqual(['completed', 'skipped']);
+    expect(agents.requests[0].signal).toBe(controller.signal);
+  });
+});
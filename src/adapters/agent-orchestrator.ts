@@ -0,0 +1,395 @@
+/**
+ * Agent Orchestrator
+ *
+ * Runs an AgentOrchestration over an AgentPort:
+ * - sequential: the agents one after another
+ * - parallel: the agents at once, each waiting for the agents that feed it
+ *   through dataFlow
+ * - conditional: the agents one after another, skipping those whose
+ *   `condition` is false
+ * - loop: conditional rounds, repeated until a round runs no agent or
+ *   `maxIterations` is reached
+ * - map: the agents one after another, each once per item of its
+ *   `iterateOver`, with the items run at once
+ *
+ * `condition` and `iterateOver` are workflow expressions reading `input`,
+ * `context`, `outputs` (by agent id), `last` (output of the agent that
+ * completed last) and `iteration`. Outputs that are JSON are parsed, so a
+ * dataFlow mapping can take a path into them, or `output` for all of it.
+ * Mapped values become context variables of the target agent; mapping to
+ * `input` replaces its input.
+ */
+
+import type {
+  AgentPort,
+  AgentOrchestration,
+  AgentExecutionContext,
+  AgentExecutionResult,
+  OrchestrationRequest,
+  OrchestrationResult,
+  OrchestrationAgentResult,
+} from '@ports/agent.js';
+import { evaluateExpression, assertValidExpression } from './workflow-expressions.js';
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_MAX_ITERATIONS = 10;
+
+export interface AgentOrchestratorOptions {
+  expressionTimeout?: number; // milliseconds per condition or iterateOver evaluation
+}
+
+type Metrics = AgentExecutionContext['metrics'];
+
+/**
+ * Runs a task once fewer than the limit are running
+ */
+type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * State of one orchestration run
+ */
+interface OrchestrationRun {
+  orchestration: AgentOrchestration;
+  request: OrchestrationRequest;
+  results: OrchestrationAgentResult[];
+  outputs: Map<string, any>; // Parsed outputs by agent id
+  last?: any;
+  iteration: number;
+  limit: Limiter;
+  failure?: { message: string; agentId?: string };
+}
+
+export class AgentOrchestrator {
+  constructor(
+    private agents: AgentPort,
+    private options: AgentOrchestratorOptions = {},
+  ) {}
+
+  /**
+   * Run the orchestration. Failing agents are reported in the result rather
+   * than thrown; invalid expressions, and cycles in a parallel data flow, are
+   * thrown before any agent runs.
+   */
+  async run(orchestration: AgentOrchestration, request: OrchestrationRequest): Promise<OrchestrationResult> {
+    for (const entry of orchestration.agents) {
+      if (entry.condition) assertValidExpression(entry.condition);
+      if (entry.iterateOver) assertValidExpression(entry.iterateOver);
+    }
+
+    const startTime = Date.now();
+    const run: OrchestrationRun = {
+      orchestration,
+      request,
+      results: orchestration.agents.map((entry) => ({
+        agentId: entry.agentId,
+        status: 'skipped',
+        runs: [],
+        metrics: emptyMetrics(),
+      })),
+      outputs: new Map(),
+      iteration: 0,
+      limit: createLimiter(Math.max(1, request.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY)),
+    };
+
+    switch (orchestration.pattern) {
+      case 'sequential':
+        await this.runInOrder(run, {});
+        break;
+      case 'conditional':
+        await this.runInOrder(run, { conditional: true });
+        break;
+      case 'map':
+        await this.runInOrder(run, { mapped: true });
+        break;
+      case 'loop':
+        await this.runLoop(run, request.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+        break;
+      case 'parallel':
+        await this.runParallel(run);
+        break;
+      default:
+        throw new Error(`Unknown orchestration pattern: ${orchestration.pattern}`);
+    }
+
+    if (request.signal?.aborted && !run.failure) {
+      run.failure = { message: 'Orchestration was stopped' };
+    }
+
+    const metrics = { ...emptyMetrics(), runs: 0 };
+    for (const result of run.results) {
+      addMetrics(metrics, result.metrics);
+      metrics.runs += result.runs.length;
+    }
+    // Agents may have run at once, so the total is the time taken overall
+    metrics.duration = Date.now() - startTime;
+
+    const last = [...run.results].reverse().find((result) => result.status === 'completed');
+    return {
+      orchestrationId: orchestration.id,
+      success: !run.failure && run.results.every((result) => result.status !== 'failed'),
+      output: last ? toText(last.output) : '',
+      agents: run.results,
+      metrics,
+      iterations: orchestration.pattern === 'loop' ? run.iteration : undefined,
+      error: run.failure,
+    };
+  }
+
+  private async runInOrder(run: OrchestrationRun, options: { conditional?: boolean; mapped?: boolean }): Promise<boolean> {
+    let ran = false;
+    for (const index of run.orchestration.agents.keys()) {
+      if (this.stopped(run)) break;
+      ran = (await this.runAgent(run, index, options)) || ran;
+    }
+    return ran;
+  }
+
+  private async runLoop(run: OrchestrationRun, maxIterations: number): Promise<void> {
+    while (run.iteration < maxIterations && !this.stopped(run)) {
+      const ran = await this.runInOrder(run, { conditional: true });
+      if (!ran) break;
+      run.iteration++;
+    }
+  }
+
+  /**
+   * Start every agent once the agents feeding it have finished. A failing
+   * agent doesn't stop the others, but those it feeds are skipped.
+   */
+  private async runParallel(run: OrchestrationRun): Promise<void> {
+    const { agents } = run.orchestration;
+    const feeders = feedersOf(run.orchestration);
+    const finished = new Map<number, Promise<void>>();
+
+    for (const index of dependencyOrder(run.orchestration, feeders)) {
+      const dependencies = feeders[index];
+
+      finished.set(
+        index,
+        Promise.all(dependencies.map((i) => finished.get(i))).then(async () => {
+          const unfinished = dependencies.find((i) => run.results[i].status !== 'completed');
+          if (unfinished !== undefined) {
+            run.results[index].error = `Skipped because ${agents[unfinished].agentId} did not complete`;
+            return;
+          }
+          await run.limit(async () => {
+            if (!run.request.signal?.aborted) await this.runAgent(run, index, {});
+          });
+        }),
+      );
+    }
+
+    await Promise.all(finished.values());
+  }
+
+  /**
+   * Run one agent of the orchestration, once or once per item, and record
+   * the outcome. Returns whether it ran.
+   */
+  private async runAgent(
+    run: OrchestrationRun,
+    index: number,
+    options: { conditional?: boolean; mapped?: boolean },
+  ): Promise<boolean> {
+    const entry = run.orchestration.agents[index];
+    const result = run.results[index];
+
+    let executions: Array<Promise<AgentExecutionResult>>;
+    try {
+      if (options.conditional && entry.condition && !this.evaluate(run, entry.condition, 'condition')) {
+        return false;
+      }
+
+      if (options.mapped && entry.iterateOver) {
+        const items = this.evaluate(run, entry.iterateOver, 'iterateOver');
+        if (!Array.isArray(items)) {
+          throw new Error(`iterateOver gave ${typeof items}, not an array`);
+        }
+        executions = items.map((item, i) => run.limit(() => this.execute(run, index, { value: item, index: i })));
+      } else {
+        executions = [this.execute(run, index)];
+      }
+    } catch (error) {
+      this.fail(run, index, 'failed', (error as Error).message);
+      return true;
+    }
+
+    const settled = await Promise.allSettled(executions);
+    const runs = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+    result.runs.push(...runs);
+    for (const execution of runs) {
+      addMetrics(result.metrics, execution.metrics);
+    }
+
+    const thrown = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    const unsuccessful = runs.find((execution) => !execution.success);
+    if (thrown || unsuccessful) {
+      const cancelled = run.request.signal?.aborted || unsuccessful?.finalState === 'cancelled';
+      const message = thrown ? (thrown.reason as Error).message : (unsuccessful!.error?.message ?? 'Agent did not succeed');
+      this.fail(run, index, cancelled ? 'cancelled' : 'failed', message);
+      return true;
+    }
+
+    const outputs = runs.map((execution) => parseOutput(execution.output));
+    result.status = 'completed';
+    result.output = options.mapped && entry.iterateOver ? outputs : outputs[0];
+    result.error = undefined;
+    run.outputs.set(entry.agentId, result.output);
+    run.last = result.output;
+    return true;
+  }
+
+  private execute(
+    run: OrchestrationRun,
+    index: number,
+    item?: { value: any; index: number },
+  ): Promise<AgentExecutionResult> {
+    const { agentId } = run.orchestration.agents[index];
+    const { input, ...variables } = this.inputsFor(run, agentId);
+
+    return this.agents.execute({
+      agentId,
+      input: input !== undefined ? toText(input) : item ? toText(item.value) : run.request.input,
+      context: { ...run.request.context, ...variables, ...(item && { item: item.value, index: item.index }) },
+      signal: run.request.signal,
+    });
+  }
+
+  /**
+   * Context variables of an agent, from the outputs of the agents feeding it
+   */
+  private inputsFor(run: OrchestrationRun, agentId: string): Record<string, any> {
+    const inputs: Record<string, any> = {};
+    for (const flow of run.orchestration.dataFlow) {
+      if (flow.toAgent !== agentId || !run.outputs.has(flow.fromAgent)) continue;
+      for (const [from, to] of Object.entries(flow.mapping)) {
+        inputs[to] = valueAt(run.outputs.get(flow.fromAgent), from);
+      }
+    }
+    return inputs;
+  }
+
+  private evaluate(run: OrchestrationRun, expression: string, field: 'condition' | 'iterateOver'): any {
+    const scope = {
+      input: run.request.input,
+      context: run.request.context ?? {},
+      outputs: Object.fromEntries(run.outputs),
+      last: run.last,
+      iteration: run.iteration,
+    };
+    try {
+      return evaluateExpression(expression, scope, { timeout: this.options.expressionTimeout });
+    } catch (error) {
+      throw new Error(`Invalid ${field}: ${(error as Error).message}`);
+    }
+  }
+
+  private fail(run: OrchestrationRun, index: number, status: 'failed' | 'cancelled', message: string): void {
+    const result = run.results[index];
+    result.status = status;
+    result.error = message;
+    if (status === 'failed') {
+      run.failure ??= { message: `Agent ${result.agentId} failed: ${message}`, agentId: result.agentId };
+    }
+  }
+
+  /**
+   * Whether agents still to come should not start. Parallel runs only stop
+   * when aborted.
+   */
+  private stopped(run: OrchestrationRun): boolean {
+    return Boolean(run.failure || run.request.signal?.aborted);
+  }
+}
+
+/**
+ * Indices of the agents feeding each agent through dataFlow
+ */
+function feedersOf(orchestration: AgentOrchestration): number[][] {
+  const { agents, dataFlow } = orchestration;
+  return agents.map((entry) => {
+    const from = new Set(dataFlow.filter((flow) => flow.toAgent === entry.agentId).map((flow) => flow.fromAgent));
+    return [...agents.keys()].filter((i) => from.has(agents[i].agentId));
+  });
+}
+
+/**
+ * Agent indices with every agent after those feeding it, otherwise in the
+ * order listed. Throws when the data flow has a cycle.
+ */
+function dependencyOrder(orchestration: AgentOrchestration, feeders: number[][]): number[] {
+  const order: number[] = [];
+  const placed = new Set<number>();
+
+  while (order.length < feeders.length) {
+    const ready = [...feeders.keys()].find((i) => !placed.has(i) && feeders[i].every((f) => placed.has(f)));
+    if (ready === undefined) {
+      const cyclic = [...feeders.keys()].filter((i) => !placed.has(i)).map((i) => orchestration.agents[i].agentId);
+      throw new Error(`Data flow has a cycle between agents: ${cyclic.join(', ')}`);
+    }
+    order.push(ready);
+    placed.add(ready);
+  }
+
+  return order;
+}
+
+function createLimiter(max: number): Limiter {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async (task) => {
+    if (active < max) {
+      active++;
+    } else {
+      // The finishing task hands its slot over
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * The output as JSON when it is JSON, possibly in a code block, otherwise
+ * the text itself
+ */
+function parseOutput(output: string): any {
+  const json = output.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  if (!/^[[{]/.test(json)) return output;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return output;
+  }
+}
+
+/**
+ * Value at a dotted path of an output; `output` is the whole of it
+ */
+function valueAt(output: any, path: string): any {
+  if (path === 'output') return output;
+  return path.split('.').reduce<any>(
+    (value, key) => (value !== null && typeof value === 'object' && Object.hasOwn(value, key) ? value[key] : undefined),
+    output,
+  );
+}
+
+function toText(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function emptyMetrics(): Metrics {
+  return { steps: 0, llmCalls: 0, toolCalls: 0, tokensUsed: 0, cost: 0, duration: 0, errors: 0 };
+}
+
+function addMetrics(total: Metrics, metrics: Metrics): void {
+  for (const key of Object.keys(metrics) as Array<keyof Metrics>) {
+    total[key] += metrics[key];
+  }
+}
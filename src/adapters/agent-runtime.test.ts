@@ -0,0 +1,396 @@
+/**
+ * Tests for the Agent Runtime
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { DefaultAgentRuntime } from './agent-runtime.js';
+import { DefaultLLMRouter } from './llm/router.js';
+import { JsonStorage } from './json-storage.js';
+import { HashingEmbedder } from './agent-memory.js';
+import type { Agent, AgentTool } from '@ports/agent.js';
+import type {
+  LLMPort,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+  ToolCall,
+} from '@ports/llm.js';
+
+/**
+ * Replies from a script, one per call, repeating the last
+ */
+class ScriptedLLM implements LLMPort {
+  requests: CompletionRequest[] = [];
+
+  constructor(private replies: Array<{ content?: string; toolCalls?: ToolCall[] }>) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(structuredClone(request));
+    const reply = this.replies[Math.min(this.requests.length - 1, this.replies.length - 1)];
+    return {
+      content: reply.content ?? '',
+      role: 'assistant',
+      toolCalls: reply.toolCalls,
+      finishReason: reply.toolCalls ? 'tool_calls' : 'stop',
+      usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+      model: 'scripted',
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    const response = await this.complete(request);
+    for (const word of response.content.match(/\S+\s*/g) ?? []) {
+      yield { delta: word };
+    }
+    return response;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [(await this.getModelInfo('scripted'))!];
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo | null> {
+    return {
+      id: modelId,
+      name: modelId,
+      provider: 'custom',
+      contextWindow: 8192,
+      supportsTools: true,
+      supportsVision: false,
+      supportsStreaming: true,
+      costPer1kTokens: { prompt: 0.01, completion: 0.02 },
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider() {
+    return 'custom' as const;
+  }
+
+  getConfig() {
+    return { provider: 'custom' as const, defaultModel: 'scripted', maxRetries: 0 };
+  }
+}
+
+const weather: AgentTool = {
+  name: 'weather',
+  description: 'Forecast for a city',
+  parameters: { type: 'object', properties: { city: { type: 'string' } } },
+  execute: async (args) => {
+    if (args.city === 'Atlantis') throw new Error('No such city');
+    return `Rainy in ${args.city}`;
+  },
+};
+
+const call = (id: string, city: string): ToolCall => ({ id, name: 'weather', arguments: { city } });
+
+describe('DefaultAgentRuntime', () => {
+  let storage: JsonStorage;
+  let testDir: string;
+  let router: DefaultLLMRouter;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-agent-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    router = new DefaultLLMRouter();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function createAgent(llm: LLMPort, overrides: Partial<Agent> = {}) {
+    router.addProvider('custom', llm);
+    const runtime = new DefaultAgentRuntime(storage, { llm: router, embedder: new HashingEmbedder() });
+    const agent = await runtime.createAgent({
+      name: 'Forecaster',
+      description: 'Answers weather questions',
+      type: 'task',
+      llm: { provider: 'custom', model: 'scripted' },
+      systemPrompt: 'You forecast weather for {{user}}.',
+      tools: [weather],
+      ...overrides,
+    });
+    return { runtime, agent };
+  }
+
+  it('should think, act and observe until the model answers', async () => {
+    const llm = new ScriptedLLM([
+      { content: 'I should check both cities.', toolCalls: [call('t1', 'Oslo'), call('t2', 'Atlantis')] },
+      { toolCalls: [{ id: 't3', name: 'tides', arguments: {} }] },
+      { content: 'Oslo is rainy.' },
+    ]);
+    const { runtime, agent } = await createAgent(llm);
+
+    const events: string[] = [];
+    const result = await runtime.execute({
+      agentId: agent.id,
+      input: 'Weather in Oslo and Atlantis?',
+      context: { user: 'Kari' },
+      callbacks: {
+        onStateChange: (state) => events.push(`state:${state}`),
+        onThought: (thought) => events.push(`thought:${thought}`),
+        onAction: (action) => events.push(`action:${action.name}`),
+        onObservation: (observation) => events.push(`observation:${observation}`),
+        onComplete: (r) => events.push(`complete:${r.success}`),
+        onError: () => events.push('error'),
+      },
+    });
+
+    expect(result).toMatchObject({ success: true, output: 'Oslo is rainy.', finalState: 'completed' });
+    expect(result.steps.map((s) => [s.stepNumber, s.thought, s.action?.tool, s.observation])).toEqual([
+      [1, 'I should check both cities.', 'weather', 'Rainy in Oslo'],
+      [2, undefined, 'weather', 'Error: No such city'],
+      [3, undefined, 'tides', 'Error: Unknown tool: tides'],
+      [4, 'Oslo is rainy.', undefined, undefined],
+    ]);
+    expect(result.metrics).toMatchObject({ steps: 4, llmCalls: 3, toolCalls: 3, tokensUsed: 4500, errors: 2 });
+    expect(result.metrics.cost).toBeCloseTo(0.06, 10);
+
+    expect(events).toEqual([
+      'state:thinking',
+      'thought:I should check both cities.',
+      'state:acting',
+      'action:weather',
+      'observation:Rainy in Oslo',
+      'action:weather',
+      'observation:Error: No such city',
+      'state:thinking',
+      'state:acting',
+      'action:tides',
+      'observation:Error: Unknown tool: tides',
+      'state:thinking',
+      'thought:Oslo is rainy.',
+      'state:completed',
+      'complete:true',
+    ]);
+
+    // The model sees its tool calls and their results
+    expect(llm.requests[0].messages[0]).toEqual({ role: 'system', content: 'You forecast weather for Kari.' });
+    expect(llm.requests[0].tools!.map((t) => t.name)).toEqual(['weather']);
+    expect(llm.requests[1].messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'I should check both cities.' },
+          { type: 'tool_use', id: 't1', name: 'weather', input: { city: 'Oslo' } },
+          { type: 'tool_use', id: 't2', name: 'weather', input: { city: 'Atlantis' } },
+        ],
+      },
+      { role: 'tool', content: 'Rainy in Oslo', toolCallId: 't1' },
+      { role: 'tool', content: 'Error: No such city', toolCallId: 't2' },
+    ]);
+  });
+
+  it('should stop at maxSteps and maxCost, keeping the steps taken', async () => {
+    const looping = new ScriptedLLM([{ content: 'Once more.', toolCalls: [call('t', 'Oslo')] }]);
+    const { runtime, agent } = await createAgent(looping, { constraints: { maxSteps: 3 } });
+
+    const errors: string[] = [];
+    const result = await runtime.execute({
+      agentId: agent.id,
+      input: 'Loop',
+      callbacks: { onError: (error) => errors.push(error.message) },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      output: 'Once more.',
+      finalState: 'failed',
+      error: { message: 'Agent did not finish within 3 steps', step: 3, details: 'maxSteps' },
+    });
+    expect(result.steps).toHaveLength(3);
+    expect(errors).toEqual(['Agent did not finish within 3 steps']);
+
+    // Each call costs $0.02
+    const capped = await runtime.updateAgent(agent.id, { constraints: { maxCost: 0.03 } });
+    const costly = await runtime.execute({ agentId: capped.id, input: 'Loop' });
+    expect(costly.error).toMatchObject({ details: 'maxCost', step: 2 });
+    expect(costly.metrics.llmCalls).toBe(2);
+  });
+
+  it('should stream thoughts, actions, observations and steps', async () => {
+    const llm = new ScriptedLLM([
+      { content: 'Checking Oslo.', toolCalls: [call('t1', 'Oslo')] },
+      { content: 'It is rainy.' },
+    ]);
+    const { runtime, agent } = await createAgent(llm);
+
+    const stream = runtime.executeStream({ agentId: agent.id, input: 'Weather in Oslo?', context: { user: 'Kari' } });
+    const events: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      const event = next.value;
+      switch (event.type) {
+        case 'state':
+          events.push(`state:${event.state}`);
+          break;
+        case 'thought':
+        case 'observation':
+          events.push(`${event.type}:${event.content}`);
+          break;
+        case 'action':
+          events.push(`action:${event.action.name}`);
+          break;
+        case 'step':
+          events.push(`step:${event.step.stepNumber}`);
+          break;
+        case 'complete':
+          events.push(`complete:${event.result.output}`);
+          break;
+        case 'error':
+          events.push(`error:${event.error.message}`);
+      }
+      next = await stream.next();
+    }
+
+    expect(events).toEqual([
+      'state:thinking',
+      'thought:Checking',
+      'thought:Checking Oslo.',
+      'state:acting',
+      'action:weather',
+      'observation:Rainy in Oslo',
+      'step:1',
+      'state:thinking',
+      'thought:It',
+      'thought:It is',
+      'thought:It is rainy.',
+      'step:2',
+      'state:completed',
+      'complete:It is rainy.',
+    ]);
+    expect(next.value).toMatchObject({ success: true, output: 'It is rainy.', steps: [{ thought: 'Checking Oslo.' }, {}] });
+    expect(await runtime.getExecutionHistory(agent.id)).toHaveLength(1);
+
+    // Failures end the stream with an error event before the result
+    const failing = runtime.executeStream({ agentId: agent.id, input: 'Hi' });
+    router.removeProvider('custom');
+    const types: string[] = [];
+    for await (const event of failing) types.push(event.type);
+    expect(types).toEqual(['state', 'state', 'error', 'complete']);
+  });
+
+  it('should stop a running execution, keeping the steps completed', async () => {
+    const llm = new ScriptedLLM([{ toolCalls: [call('t1', 'Oslo')] }, { toolCalls: [call('t2', 'Bergen')] }]);
+    const { runtime, agent } = await createAgent(llm);
+
+    // A tool that stops its own execution, then hangs
+    let toolSignal: AbortSignal | undefined;
+    const slow: AgentTool = {
+      ...weather,
+      execute: async (args, context) => {
+        if (args.city === 'Bergen') {
+          toolSignal = context.signal;
+          await runtime.stopExecution(context.executionId);
+          return new Promise(() => {});
+        }
+        return `Rainy in ${args.city}`;
+      },
+    };
+    await runtime.updateAgent(agent.id, { tools: [slow] });
+
+    const errors: string[] = [];
+    const result = await runtime.execute({
+      agentId: agent.id,
+      input: 'Weather?',
+      callbacks: { onError: (error) => errors.push(error.message) },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      finalState: 'cancelled',
+      error: { message: 'Agent execution was stopped', step: 2 },
+    });
+    expect(result.steps.map((s) => s.observation)).toEqual(['Rainy in Oslo']);
+    expect(toolSignal?.aborted).toBe(true);
+    expect(errors).toEqual([]);
+    expect(await runtime.getExecutionHistory(agent.id)).toMatchObject([{ finalState: 'cancelled' }]);
+    await expect(runtime.stopExecution(result.executionId)).rejects.toThrow('Agent execution not running');
+
+    // The request's own signal stops it too, including an LLM call in flight
+    const hanging = new ScriptedLLM([]);
+    hanging.complete = (request) =>
+      new Promise((_, reject) => request.signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+    router.addProvider('custom', hanging);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const stopped = await runtime.execute({ agentId: agent.id, input: 'Weather?', signal: controller.signal });
+    expect(stopped).toMatchObject({ finalState: 'cancelled', steps: [] });
+  });
+
+  it('should remember earlier executions with the configured memory', async () => {
+    const llm = new ScriptedLLM([{ content: 'Noted.' }]);
+    const { runtime, agent } = await createAgent(llm, {
+      tools: [],
+      memory: { type: 'vector', maxMessages: 2, topK: 1 },
+    });
+
+    await runtime.execute({ agentId: agent.id, input: 'My cat is called Miso', context: { user: 'Kari' } });
+    await runtime.execute({ agentId: agent.id, input: 'I live in Bergen', context: { user: 'Kari' } });
+    await runtime.execute({ agentId: agent.id, input: 'What is my cat called?', context: { user: 'Kari' } });
+
+    expect(llm.requests[1].messages.map((m) => m.content)).toEqual([
+      'You forecast weather for Kari.',
+      'My cat is called Miso',
+      'Noted.',
+      'I live in Bergen',
+    ]);
+    expect(llm.requests[2].messages.map((m) => m.content)).toEqual([
+      'You forecast weather for Kari.',
+      'Earlier messages that may be relevant:\nUser: My cat is called Miso',
+      'I live in Bergen',
+      'Noted.',
+      'What is my cat called?',
+    ]);
+
+    await runtime.deleteAgent(agent.id);
+    expect(await storage.list(`agents/${agent.id}/`)).toEqual([]);
+  });
+
+  it('should complete an execution whose memory cannot be saved', async () => {
+    const llm = new ScriptedLLM([{ content: 'Noted.' }]);
+    const { runtime, agent } = await createAgent(llm, { tools: [], memory: { type: 'buffer', maxMessages: 2 } });
+    const write = storage.write.bind(storage);
+    storage.write = async (key, value) => {
+      if (key.endsWith('/memory')) throw new Error('Disk full');
+      return write(key, value);
+    };
+
+    const result = await runtime.execute({ agentId: agent.id, input: 'My cat is called Miso', context: { user: 'Kari' } });
+    expect(result).toMatchObject({ success: true, output: 'Noted.', finalState: 'completed' });
+    expect(await runtime.getExecutionHistory(agent.id)).toMatchObject([{ success: true, output: 'Noted.' }]);
+  });
+
+  it('should keep execution results for the history', async () => {
+    const { runtime, agent } = await createAgent(new ScriptedLLM([{ content: 'Sunny.' }]));
+
+    const first = await runtime.execute({ agentId: agent.id, input: 'Today?' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await runtime.execute({ agentId: agent.id, input: 'Tomorrow?' });
+
+    const history = await runtime.getExecutionHistory(agent.id);
+    expect(history.map((r) => r.executionId)).toEqual([second.executionId, first.executionId]);
+    expect(history[0].steps[0].timestamp).toBeInstanceOf(Date);
+    expect(await runtime.getExecutionHistory(agent.id, 1)).toHaveLength(1);
+
+    // Tools are stored by name and resolved against registered tools
+    const reloaded = new DefaultAgentRuntime(storage, { llm: router });
+    expect((await reloaded.getAgent(agent.id))!.tools[0].description).toBe('Unavailable tool weather');
+    await reloaded.registerTool(weather);
+    expect((await reloaded.listAgents())[0].tools).toEqual([weather]);
+
+    await runtime.deleteAgent(agent.id);
+    expect(await runtime.getAgent(agent.id)).toBeNull();
+    expect(await runtime.getExecutionHistory(agent.id)).toEqual([]);
+  });
+});
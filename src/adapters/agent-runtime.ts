@@ -0,0 +1,646 @@
+/**
+ * Agent Runtime
+ *
+ * Runs agents with a ReAct loop: the model thinks, calls tools, reads their
+ * results and repeats until it answers without calling a tool. Agents, their
+ * memory and their execution results are kept through StoragePort; LLM calls
+ * go through an LLMRouter, picking the provider named by the agent.
+ */
+
+import type { StoragePort } from '@ports/storage.js';
+import type { LLMRouter, Message, ToolCall, CompletionRequest, CompletionResponse, ModelInfo } from '@ports/llm.js';
+import type { WorkflowPort } from '@ports/workflow.js';
+import type { AgentMemory, Embedder } from '@ports/memory.js';
+import type {
+  Agent,
+  AgentPort,
+  AgentTool,
+  AgentState,
+  AgentStep,
+  AgentStreamEvent,
+  AgentExecutionContext,
+  AgentExecutionRequest,
+  AgentExecutionResult,
+} from '@ports/agent.js';
+import { AGENT_TEMPLATES } from '@ports/agent.js';
+import { renderTemplate } from '@ports/template.js';
+import { createAgentMemory } from './agent-memory.js';
+
+const DEFAULT_MAX_STEPS = 10;
+
+export class AgentLimitError extends Error {
+  constructor(
+    message: string,
+    readonly limit: 'maxSteps' | 'maxDuration' | 'maxCost',
+  ) {
+    super(message);
+    this.name = 'AgentLimitError';
+  }
+}
+
+export interface AgentRuntimeOptions {
+  llm: LLMRouter; // Providers by name, as in Agent.llm.provider
+  workflows?: WorkflowPort; // Runs the workflows of workflow agents
+  embedder?: Embedder; // Embeds messages for vector memory, instead of the agent's provider
+}
+
+/**
+ * Agent as persisted through StoragePort: tools are kept by name and
+ * resolved against the registered tools when the agent is loaded
+ */
+interface StoredAgent extends Omit<Agent, 'tools'> {
+  tools: string[];
+}
+
+/**
+ * Execution result as persisted through StoragePort
+ */
+interface StoredExecution extends AgentExecutionResult {
+  agentId: string;
+  startTime: string;
+}
+
+export class DefaultAgentRuntime implements AgentPort {
+  private storage: StoragePort<any>;
+  private llm: LLMRouter;
+  private workflows?: WorkflowPort;
+  private embedder?: Embedder;
+  private tools: Map<string, AgentTool> = new Map();
+  private activeExecutions: Map<string, AbortController> = new Map();
+
+  // Pricing by provider and model, for metrics.cost
+  private modelInfo: Map<string, ModelInfo | null> = new Map();
+
+  constructor(storage: StoragePort<any>, options: AgentRuntimeOptions) {
+    this.storage = storage;
+    this.llm = options.llm;
+    this.workflows = options.workflows;
+    this.embedder = options.embedder;
+  }
+
+  async createAgent(agent: Omit<Agent, 'id'>): Promise<Agent> {
+    const created: Agent = {
+      ...agent,
+      id: this.generateId('agent'),
+      metadata: { ...agent.metadata, created: new Date() },
+    };
+    await this.saveAgent(created);
+    return created;
+  }
+
+  async updateAgent(id: string, updates: Partial<Agent>): Promise<Agent> {
+    const existing = await this.getAgent(id);
+    if (!existing) {
+      throw new Error(`Agent not found: ${id}`);
+    }
+
+    const updated: Agent = { ...existing, ...updates, id };
+    await this.saveAgent(updated);
+    return updated;
+  }
+
+  async deleteAgent(id: string): Promise<void> {
+    await this.storage.delete(`agents/${id}/definition`);
+
+    const keys = await this.storage.list(`agents/${id}/(executions|memory)`);
+    for (const key of keys.filter((k) => k.startsWith(`agents/${id}/`))) {
+      await this.storage.delete(key);
+    }
+  }
+
+  async getAgent(id: string): Promise<Agent | null> {
+    const stored: StoredAgent | null = await this.storage.read(`agents/${id}/definition`);
+    return stored ? this.resolveAgent(stored) : null;
+  }
+
+  async listAgents(): Promise<Agent[]> {
+    const keys = await this.storage.list('agents/*');
+    const agents: Agent[] = [];
+
+    for (const key of keys.filter((k) => k.startsWith('agents/') && k.endsWith('/definition'))) {
+      const stored: StoredAgent | null = await this.storage.read(key);
+      if (stored) {
+        agents.push(this.resolveAgent(stored));
+      }
+    }
+
+    return agents;
+  }
+
+  /**
+   * Run the agent to completion. Failures, including exceeded constraints,
+   * are reported in the result rather than thrown. Set `request.stream` to
+   * have the model's replies streamed rather than completed.
+   */
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionResult> {
+    const events = this.run(request, request.stream ?? false);
+    for (;;) {
+      const next = await events.next();
+      if (next.done) return next.value;
+    }
+  }
+
+  /**
+   * Run the agent, yielding its progress as it happens. Unless
+   * `request.stream` is false, the model's replies are streamed and each
+   * `thought` event carries the reply so far.
+   */
+  executeStream(request: AgentExecutionRequest): AsyncGenerator<AgentStreamEvent, AgentExecutionResult> {
+    return this.run(request, request.stream ?? true);
+  }
+
+  /**
+   * Abort a running execution. LLM calls and tools in progress are abandoned
+   * and the result ends in the 'cancelled' state with the steps completed so
+   * far.
+   */
+  async stopExecution(executionId: string): Promise<void> {
+    const controller = this.activeExecutions.get(executionId);
+    if (!controller) {
+      throw new Error(`Agent execution not running: ${executionId}`);
+    }
+    controller.abort();
+  }
+
+  /**
+   * Past results of an agent, most recent first
+   */
+  async getExecutionHistory(agentId: string, limit?: number): Promise<AgentExecutionResult[]> {
+    const prefix = `agents/${agentId}/executions/`;
+    const keys = await this.storage.list(`${prefix}*`);
+    const executions: StoredExecution[] = [];
+
+    for (const key of keys.filter((k) => k.startsWith(prefix))) {
+      const stored: StoredExecution | null = await this.storage.read(key);
+      if (stored) {
+        executions.push(stored);
+      }
+    }
+
+    return executions
+      .sort((a, b) => b.startTime.localeCompare(a.startTime))
+      .slice(0, limit)
+      .map((stored) => ({
+        ...stored,
+        steps: stored.steps.map((step) => ({ ...step, timestamp: new Date(step.timestamp) })),
+      }));
+  }
+
+  /**
+   * Make a tool available to agents by name. Tools of created agents are
+   * registered too, since only their names are stored.
+   */
+  async registerTool(tool: AgentTool): Promise<void> {
+    this.tools.set(tool.name, tool);
+  }
+
+  async getTools(): Promise<AgentTool[]> {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Create a workflow agent that runs the workflow through a `run_workflow`
+   * tool
+   */
+  async createAgentFromWorkflow(workflowId: string, config: Partial<Agent>): Promise<Agent> {
+    if (!this.workflows) {
+      throw new Error('Creating agents from workflows needs a WorkflowPort');
+    }
+    const workflow = await this.workflows.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    return this.createAgent({
+      name: workflow.name,
+      description: workflow.description ?? '',
+      type: 'workflow',
+      llm: { provider: 'ollama', model: 'llama3.2' },
+      systemPrompt: AGENT_TEMPLATES.workflow_executor.systemPromptTemplate,
+      tools: [],
+      ...config,
+      workflowId,
+    });
+  }
+
+  private async *run(
+    request: AgentExecutionRequest,
+    streaming: boolean,
+  ): AsyncGenerator<AgentStreamEvent, AgentExecutionResult> {
+    const agent = await this.getAgent(request.agentId);
+    if (!agent) {
+      throw new Error(`Agent not found: ${request.agentId}`);
+    }
+
+    // Stopped through stopExecution, the request's signal, or by the
+    // consumer of executeStream no longer reading
+    const controller = new AbortController();
+    const stop = () => controller.abort(request.signal?.reason);
+    if (request.signal?.aborted) stop();
+    request.signal?.addEventListener('abort', stop, { once: true });
+
+    const input: Message[] =
+      typeof request.input === 'string' ? [{ role: 'user', content: request.input }] : request.input;
+    const context = this.createExecutionContext(agent, request, input, controller.signal);
+    const steps: AgentStep[] = [];
+    let result: AgentExecutionResult;
+    this.activeExecutions.set(context.executionId, controller);
+
+    try {
+      try {
+        const memory = await this.recall(agent, context, input);
+        const output = yield* this.runLoop(agent, context, steps, streaming);
+        await memory?.add([...input.filter((m) => m.role !== 'system'), { role: 'assistant', content: output }]).catch(() => {
+          // The answer stands even if the agent cannot remember it
+        });
+        context.metrics.duration = Date.now() - context.startTime.getTime();
+        yield* this.setState(context, 'completed');
+        result = {
+          executionId: context.executionId,
+          success: true,
+          output,
+          finalState: 'completed',
+          steps,
+          metrics: context.metrics,
+        };
+      } catch (error) {
+        context.metrics.duration = Date.now() - context.startTime.getTime();
+        const cancelled = controller.signal.aborted;
+        if (cancelled) {
+          yield* this.setState(context, 'cancelled');
+        } else {
+          context.metrics.errors++;
+          yield* this.setState(context, 'failed');
+          context.callbacks?.onError?.(error as Error, context);
+          yield { type: 'error', error: error as Error };
+        }
+        result = {
+          executionId: context.executionId,
+          success: false,
+          output: context.memory.get('lastThought') ?? '',
+          finalState: context.state,
+          steps,
+          metrics: context.metrics,
+          error: {
+            message: cancelled ? 'Agent execution was stopped' : (error as Error).message,
+            step: context.currentStep,
+            details: error instanceof AgentLimitError ? error.limit : undefined,
+          },
+        };
+      }
+
+      await this.saveExecution(agent.id, context, result);
+      context.callbacks?.onComplete?.(result, context);
+      yield { type: 'complete', result };
+      return result;
+    } finally {
+      request.signal?.removeEventListener('abort', stop);
+      this.activeExecutions.delete(context.executionId);
+      controller.abort();
+    }
+  }
+
+  /**
+   * Load the agent's memory, if it has any, and put what it recalls for the
+   * input between the system prompt and the input
+   */
+  private async recall(agent: Agent, context: AgentExecutionContext, input: Message[]): Promise<AgentMemory | null> {
+    if (!agent.memory) return null;
+
+    const memory = createAgentMemory(agent.memory, {
+      storage: this.storage,
+      key: `agents/${agent.id}/memory`,
+      llm: this.llm.getProvider(agent.llm.provider),
+      model: agent.llm.model,
+      embedder: this.embedder,
+    });
+    await memory.load();
+
+    const query = input[input.length - 1]?.content;
+    const recalled = await memory.getContext(typeof query === 'string' ? query : undefined);
+    context.messages.splice(context.messages.length - input.length, 0, ...recalled);
+    return memory;
+  }
+
+  /**
+   * Thought → action → observation until the model answers without calling
+   * a tool. Returns the answer.
+   */
+  private async *runLoop(
+    agent: Agent,
+    context: AgentExecutionContext,
+    steps: AgentStep[],
+    streaming: boolean,
+  ): AsyncGenerator<AgentStreamEvent, string> {
+    const tools = this.toolsFor(agent);
+
+    for (;;) {
+      context.signal?.throwIfAborted();
+      this.checkConstraints(agent, context);
+      context.currentStep++;
+      yield* this.setState(context, 'thinking');
+
+      const stepStart = Date.now();
+      const request: CompletionRequest = {
+        messages: context.messages,
+        model: agent.llm.model,
+        temperature: agent.llm.temperature,
+        maxTokens: agent.llm.maxTokens,
+        tools: tools.length > 0
+          ? tools.map((t) => ({ name: t.name, description: t.description, parameters: t.parameters }))
+          : undefined,
+        signal: context.signal,
+      };
+      const response = streaming
+        ? yield* this.streamReply(agent.llm.provider, request)
+        : await this.llm.route(agent.llm.provider, request);
+      await this.recordUsage(agent, context, response);
+
+      const thought = response.content.trim();
+      if (thought) {
+        context.memory.set('lastThought', thought);
+        context.callbacks?.onThought?.(thought, context);
+        if (!streaming) {
+          yield { type: 'thought', content: thought };
+        }
+      }
+
+      const toolCalls = response.toolCalls ?? [];
+      if (toolCalls.length === 0) {
+        yield* this.addStep(context, steps, {
+          stepNumber: steps.length + 1,
+          timestamp: new Date(stepStart),
+          thought,
+          duration: Date.now() - stepStart,
+        });
+        return response.content;
+      }
+
+      context.messages.push({
+        role: 'assistant',
+        content: [
+          ...(response.content ? [{ type: 'text' as const, text: response.content }] : []),
+          ...toolCalls.map((call) => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+
+      // Each tool call is a step of its own; the thought belongs to the first
+      yield* this.setState(context, 'acting');
+      for (const [index, call] of toolCalls.entries()) {
+        const actionStart = index === 0 ? stepStart : Date.now();
+        const observation = yield* this.runTool(tools, call, context);
+
+        context.messages.push({ role: 'tool', content: observation, toolCallId: call.id });
+        yield* this.addStep(context, steps, {
+          stepNumber: steps.length + 1,
+          timestamp: new Date(actionStart),
+          thought: index === 0 && thought ? thought : undefined,
+          action: { tool: call.name, arguments: call.arguments },
+          observation,
+          duration: Date.now() - actionStart,
+        });
+      }
+    }
+  }
+
+  /**
+   * Stream a reply through the router, yielding the text so far as it grows.
+   * Tool calls are taken from the complete reply.
+   */
+  private async *streamReply(
+    providerName: string,
+    request: CompletionRequest,
+  ): AsyncGenerator<AgentStreamEvent, CompletionResponse> {
+    const stream = this.llm.routeStream(providerName, request);
+    let content = '';
+    try {
+      for (;;) {
+        const next = await abortable(stream.next(), request.signal);
+        if (next.done) return next.value;
+
+        if (next.value.delta) {
+          content += next.value.delta;
+          yield { type: 'thought', content: content.trim() };
+        }
+      }
+    } finally {
+      if (request.signal?.aborted) {
+        stream.return(undefined as never).catch(() => {
+          // The provider already gave up on the stream
+        });
+      }
+    }
+  }
+
+  private *addStep(context: AgentExecutionContext, steps: AgentStep[], step: AgentStep): Generator<AgentStreamEvent> {
+    steps.push(step);
+    context.metrics.steps = steps.length;
+    yield { type: 'step', step };
+  }
+
+  /**
+   * Run a tool call and return what the model should see. Failing tools
+   * produce an error observation so the model can recover.
+   */
+  private async *runTool(
+    tools: AgentTool[],
+    call: ToolCall,
+    context: AgentExecutionContext,
+  ): AsyncGenerator<AgentStreamEvent, string> {
+    context.callbacks?.onAction?.(call, context);
+    yield { type: 'action', action: call };
+    context.metrics.toolCalls++;
+
+    let observation: string;
+    const tool = tools.find((t) => t.name === call.name);
+    if (!tool) {
+      observation = `Error: Unknown tool: ${call.name}`;
+      context.metrics.errors++;
+    } else {
+      try {
+        observation = await abortable(tool.execute(call.arguments, context), context.signal);
+      } catch (error) {
+        if (context.signal?.aborted) throw error;
+        observation = `Error: ${(error as Error).message}`;
+        context.metrics.errors++;
+      }
+    }
+
+    context.callbacks?.onObservation?.(observation, context);
+    yield { type: 'observation', content: observation };
+    return observation;
+  }
+
+  /**
+   * Throw if the execution may not take another step. Duration and cost are
+   * checked between steps, so a step in progress is allowed to finish.
+   */
+  private checkConstraints(agent: Agent, context: AgentExecutionContext): void {
+    const { maxDuration, maxCost } = agent.constraints ?? {};
+
+    if (context.currentStep >= context.maxSteps) {
+      throw new AgentLimitError(`Agent did not finish within ${context.maxSteps} steps`, 'maxSteps');
+    }
+
+    context.metrics.duration = Date.now() - context.startTime.getTime();
+    if (maxDuration !== undefined && context.metrics.duration >= maxDuration) {
+      throw new AgentLimitError(`Agent did not finish within ${maxDuration}ms`, 'maxDuration');
+    }
+
+    if (maxCost !== undefined && context.metrics.cost >= maxCost) {
+      throw new AgentLimitError(
+        `Agent spent $${context.metrics.cost.toFixed(4)}, reaching its $${maxCost} limit`,
+        'maxCost',
+      );
+    }
+  }
+
+  private async recordUsage(agent: Agent, context: AgentExecutionContext, response: CompletionResponse): Promise<void> {
+    context.metrics.llmCalls++;
+    context.metrics.tokensUsed += response.usage.totalTokens;
+
+    const cost = (await this.getModelInfo(agent.llm.provider, response.model || agent.llm.model))?.costPer1kTokens;
+    if (cost) {
+      context.metrics.cost +=
+        (response.usage.promptTokens * cost.prompt + response.usage.completionTokens * cost.completion) / 1000;
+    }
+  }
+
+  private async getModelInfo(provider: string, model: string): Promise<ModelInfo | null> {
+    const key = `${provider}/${model}`;
+    if (!this.modelInfo.has(key)) {
+      const info = await this.llm.getProvider(provider)?.getModelInfo(model).catch(() => null);
+      this.modelInfo.set(key, info ?? null);
+    }
+    return this.modelInfo.get(key)!;
+  }
+
+  private createExecutionContext(
+    agent: Agent,
+    request: AgentExecutionRequest,
+    input: Message[],
+    signal: AbortSignal,
+  ): AgentExecutionContext {
+    const systemPrompt = renderTemplate(agent.systemPrompt, request.context ?? {});
+
+    return {
+      agentId: agent.id,
+      executionId: this.generateId('agent-execution'),
+      startTime: new Date(),
+      state: 'idle',
+      messages: [...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []), ...input],
+      currentStep: 0,
+      maxSteps: agent.constraints?.maxSteps ?? DEFAULT_MAX_STEPS,
+      memory: new Map(Object.entries(request.context ?? {})),
+      metrics: {
+        steps: 0,
+        llmCalls: 0,
+        toolCalls: 0,
+        tokensUsed: 0,
+        cost: 0,
+        duration: 0,
+        errors: 0,
+      },
+      callbacks: request.callbacks,
+      signal,
+    };
+  }
+
+  private *setState(context: AgentExecutionContext, state: AgentState): Generator<AgentStreamEvent> {
+    if (context.state === state) return;
+    context.state = state;
+    context.callbacks?.onStateChange?.(state, context);
+    yield { type: 'state', state };
+  }
+
+  /**
+   * The agent's tools, plus `run_workflow` for workflow agents
+   */
+  private toolsFor(agent: Agent): AgentTool[] {
+    if (!agent.workflowId || !this.workflows) {
+      return agent.tools;
+    }
+
+    const workflows = this.workflows;
+    const workflowId = agent.workflowId;
+    const runWorkflow: AgentTool = {
+      name: 'run_workflow',
+      description: 'Run the workflow with the given inputs and return its result',
+      parameters: {
+        type: 'object',
+        properties: { inputs: { type: 'object', description: 'Workflow inputs by name' } },
+      },
+      execute: async (args) => {
+        const execution = await workflows.executeWorkflow(workflowId, args.inputs ?? {});
+        if (execution.state !== 'completed') {
+          throw new Error(`Workflow ${execution.state}${execution.error ? `: ${execution.error}` : ''}`);
+        }
+        return JSON.stringify(execution.result ?? null);
+      },
+    };
+    return [...agent.tools.filter((t) => t.name !== runWorkflow.name), runWorkflow];
+  }
+
+  private async saveAgent(agent: Agent): Promise<void> {
+    for (const tool of agent.tools) {
+      this.tools.set(tool.name, tool);
+    }
+
+    const stored: StoredAgent = { ...agent, tools: agent.tools.map((t) => t.name) };
+    await this.storage.write(`agents/${agent.id}/definition`, stored);
+  }
+
+  private resolveAgent(stored: StoredAgent): Agent {
+    return {
+      ...stored,
+      tools: stored.tools.map((name) => this.tools.get(name) ?? missingTool(name)),
+      metadata: stored.metadata && {
+        ...stored.metadata,
+        created: stored.metadata.created && new Date(stored.metadata.created),
+      },
+    };
+  }
+
+  private async saveExecution(
+    agentId: string,
+    context: AgentExecutionContext,
+    result: AgentExecutionResult,
+  ): Promise<void> {
+    const stored: StoredExecution = { ...result, agentId, startTime: context.startTime.toISOString() };
+    await this.storage.write(`agents/${agentId}/executions/${context.executionId}`, stored);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+/**
+ * Settle like the promise, or reject as soon as the signal aborts; for calls
+ * that may not follow the signal themselves
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  let onAbort: () => void = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+}
+
+/**
+ * Stand-in for a stored tool name that has not been registered
+ */
+function missingTool(name: string): AgentTool {
+  return {
+    name,
+    description: `Unavailable tool ${name}`,
+    parameters: { type: 'object', properties: {} },
+    execute: async () => {
+      throw new Error(`Tool not registered: ${name}`);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for Build Diff
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { unifiedDiff, diffArtifacts, colorizeDiff } from './build-diff.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const labels = { oldLabel: 'a/file.js', newLabel: 'b/file.js' };
+
+describe('unifiedDiff', () => {
+  it('should show changes with context and merge nearby hunks', () => {
+    const before = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 4\n', '').replace('line 12\n', 'line 12\nline 13\n');
+
+    expect(unifiedDiff(before, after, labels)).toBe(
+      [
+        '--- a/file.js',
+        '+++ b/file.js',
+        '@@ -1,7 +1,6 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        '-line 4',
+        ' line 5',
+        ' line 6',
+        ' line 7',
+        '@@ -10,3 +9,4 @@',
+        ' line 10',
+        ' line 11',
+        ' line 12',
+        '+line 13',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should be empty for equal texts and start new files at line 0', () => {
+    expect(unifiedDiff('same\n', 'same\n', labels)).toBe('');
+    expect(unifiedDiff('', 'a\nb\n', { ...labels, oldLabel: '/dev/null' })).toBe(
+      '--- /dev/null\n+++ b/file.js\n@@ -0,0 +1,2 @@\n+a\n+b\n',
+    );
+  });
+
+  it('should color removals, additions and hunk headers', () => {
+    expect(colorizeDiff('@@ -1 +1 @@\n-a\n+b\n c')).toBe(
+      '\x1b[36m@@ -1 +1 @@\x1b[0m\n\x1b[31m-a\x1b[0m\n\x1b[32m+b\x1b[0m\n c',
+    );
+  });
+});
+
+describe('diffArtifacts', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-diff-test-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'app'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should compare artifacts with the files on disk', async () => {
+    await fs.writeFile(path.join(testDir, 'app/index.js'), 'const a = 1; // tweaked by hand\n');
+    await fs.writeFile(path.join(testDir, 'app/package.json'), '{}\n');
+
+    const diffs = await diffArtifacts(
+      [
+        { filePath: 'app/index.js', content: 'const a = 1;\n', language: 'javascript' },
+        { filePath: 'app/package.json', content: '{}\n', language: 'javascript' },
+        { filePath: 'app/index.d.ts', content: 'export {};\n', language: 'typescript' },
+      ],
+      testDir,
+    );
+
+    expect(diffs.map((d) => d.status)).toEqual(['modified', 'unchanged', 'added']);
+    expect(diffs[0].diff).toContain('-const a = 1; // tweaked by hand\n+const a = 1;\n');
+    expect(diffs[2].diff.startsWith('--- /dev/null\n')).toBe(true);
+  });
+});
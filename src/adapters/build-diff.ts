@@ -0,0 +1,182 @@
+/**
+ * Build Diff
+ *
+ * Compares generated artifacts with the files an earlier build left on disk,
+ * as unified diffs, so a rebuild can be reviewed before it overwrites them.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { CodeArtifact } from '@ports/build.js';
+
+const DEFAULT_CONTEXT = 3;
+
+export interface ArtifactDiff {
+  filePath: string; // Relative to the output directory, as in the artifact
+  status: 'added' | 'modified' | 'unchanged';
+  diff: string; // Unified diff, empty when unchanged
+}
+
+export interface UnifiedDiffOptions {
+  oldLabel: string;
+  newLabel: string;
+  context?: number; // Unchanged lines shown around each change (default 3)
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Diff each artifact against the file at the same path under `outputDir`
+ */
+export async function diffArtifacts(artifacts: CodeArtifact[], outputDir: string): Promise<ArtifactDiff[]> {
+  const diffs: ArtifactDiff[] = [];
+
+  for (const artifact of artifacts) {
+    const filePath = path.resolve(outputDir, artifact.filePath);
+    const existing = await readIfExists(filePath);
+
+    if (existing === artifact.content) {
+      diffs.push({ filePath: artifact.filePath, status: 'unchanged', diff: '' });
+      continue;
+    }
+
+    diffs.push({
+      filePath: artifact.filePath,
+      status: existing === null ? 'added' : 'modified',
+      diff: unifiedDiff(existing ?? '', artifact.content, {
+        oldLabel: existing === null ? '/dev/null' : filePath,
+        newLabel: `${artifact.filePath} (generated)`,
+      }),
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Line-based unified diff of two texts; empty when they are equal
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions): string {
+  if (oldText === newText) return '';
+
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+
+  // Ranges of lines to show: every change plus its context, merged when they touch
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === ' ') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  for (const [start, end] of ranges) {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldBefore = before.filter((l) => l.type !== '+').length;
+    const newBefore = before.filter((l) => l.type !== '-').length;
+    const oldCount = hunk.filter((l) => l.type !== '+').length;
+    const newCount = hunk.filter((l) => l.type !== '-').length;
+
+    // An empty side starts at the line before it, as in diff -u
+    const oldStart = oldCount > 0 ? oldBefore + 1 : oldBefore;
+    const newStart = newCount > 0 ? newBefore + 1 : newBefore;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`);
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Color a unified diff with ANSI escapes: removals red, additions green,
+ * hunk headers cyan
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('---') || line.startsWith('+++')) return `\x1b[1m${line}\x1b[0m`;
+      if (line.startsWith('@@')) return `\x1b[36m${line}\x1b[0m`;
+      if (line.startsWith('-')) return `\x1b[31m${line}\x1b[0m`;
+      if (line.startsWith('+')) return `\x1b[32m${line}\x1b[0m`;
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Longest-common-subsequence diff. Common leading and trailing lines are
+ * matched first, so the table only covers the region that changed.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > prefix && endB > prefix && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - prefix;
+  const m = endB - prefix;
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[prefix + i] === b[prefix + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      lines.push({ type: ' ', text: a[prefix + i] });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: '-', text: a[prefix + i] });
+      i++;
+    } else {
+      lines.push({ type: '+', text: b[prefix + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) {
+    lines.push({ type: ' ', text });
+  }
+
+  return lines;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
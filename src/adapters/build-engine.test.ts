@@ -0,0 +1,247 @@
+/**
+ * Tests for the Build Engine and TypeScript Code Generator
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JsonStorage } from './json-storage.js';
+import { WorkflowStorageAdapter } from './workflow-storage.js';
+import { BuildEngine } from './build-engine.js';
+import { TypeScriptCodeGenerator } from './code-generator.js';
+import { DefaultAppRegistry } from '../core/app-registry.js';
+import type { BuildConfig } from '@ports/build.js';
+import type { WorkflowDefinition, WorkflowComponent } from '@ports/workflow.js';
+import type { InputPort, InputEvent } from '@ports/input.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Input that never sends events
+ */
+class SilentInput implements InputPort {
+  private handlers = new Set<(event: InputEvent) => void>();
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  on(handler: (event: InputEvent) => void): void {
+    this.handlers.add(handler);
+  }
+
+  off(handler: (event: InputEvent) => void): void {
+    this.handlers.delete(handler);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+function component(
+  id: string,
+  type: WorkflowComponent['type'],
+  name: string,
+  config: Record<string, any>,
+  inputs: string[],
+  outputs: string[],
+): WorkflowComponent {
+  return {
+    id,
+    type,
+    name,
+    config,
+    inputs: inputs.map((port) => ({ id: port, name: port, type: 'any', required: true })),
+    outputs: outputs.map((port) => ({ id: port, name: port, type: 'any', required: true })),
+    position: { x: 0, y: 0 },
+  };
+}
+
+describe('BuildEngine', () => {
+  let storage: JsonStorage;
+  let workflows: WorkflowStorageAdapter;
+  let builder: BuildEngine;
+  let testDir: string;
+  let config: BuildConfig;
+  let workflow: WorkflowDefinition;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-build-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: path.join(testDir, 'data') });
+    await storage.initialize();
+    workflows = new WorkflowStorageAdapter(storage);
+    builder = new BuildEngine({ workflows, storage });
+    config = { target: 'app', language: 'typescript', outputDir: path.join(testDir, 'apps'), options: {} };
+
+    workflow = await workflows.createWorkflow({
+      name: 'Shouter',
+      version: '1.0.0',
+      components: [
+        component('ask', 'trigger', 'User Input', { prompt: "What's up?" }, [], ['userInput']),
+        component('check', 'logic', 'If Condition', { condition: 'value.length > 3' }, ['value'], ['true', 'false']),
+        component('shout', 'logic', 'Transform', { expression: 'data.toUpperCase()' }, ['data'], ['result']),
+        component('show', 'output', 'Display', { format: 'text' }, ['content'], []),
+        component('done', 'output', 'Return', {}, ['result'], []),
+      ],
+      connections: [
+        { id: 'c1', sourceComponentId: 'ask', sourcePortId: 'userInput', targetComponentId: 'check', targetPortId: 'value' },
+        { id: 'c2', sourceComponentId: 'check', sourcePortId: 'true', targetComponentId: 'shout', targetPortId: 'data' },
+        { id: 'c3', sourceComponentId: 'shout', sourcePortId: 'result', targetComponentId: 'show', targetPortId: 'content' },
+        { id: 'c4', sourceComponentId: 'shout', sourcePortId: 'result', targetComponentId: 'done', targetPortId: 'result' },
+      ],
+      appSettings: { id: 'shouter', name: 'Shouter', description: 'Shouts long words', version: '1.0.0' },
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should write an app the registry can load and run', async () => {
+    const result = await builder.buildApp(workflow.id, config);
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.artifacts.map((a) => a.filePath)).toEqual(['shouter/index.js', 'shouter/package.json', 'shouter/index.d.ts']);
+    expect(result.appInfo?.entryPoint).toBe(path.join(config.outputDir, 'shouter', 'index.js'));
+
+    const registry = new DefaultAppRegistry();
+    await registry.loadFromDirectory(config.outputDir);
+    const app = registry.get('shouter')!;
+    expect(app.name).toBe('Shouter');
+    expect(app.commands.map((c) => c.name)).toEqual(['run']);
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const context = { storage, input: new SilentInput(), config: {} };
+    await app.initialize(context);
+    await app.commands[0].execute(['hello'], context);
+    expect(log.mock.calls.map((call) => call[0])).toEqual(['HELLO', 'HELLO']);
+
+    // The false branch skips everything after the condition
+    log.mockClear();
+    await app.commands[0].execute(['hi'], context);
+    expect(log).not.toHaveBeenCalled();
+
+    await expect(app.commands[0].execute([], context)).rejects.toThrow(`User Input: No input provided for "What's up?"`);
+  });
+
+  it('should describe the app in index.d.ts for TypeScript builds', async () => {
+    const [, , types] = await builder.previewBuild(workflow.id, { ...config, options: { useStrictTypes: true } });
+
+    expect(types.content).toContain('export interface ShouterInputs {');
+    expect(types.content).toContain(`  /** What's up? */\n  "User Input": unknown;`);
+    expect(types.content).toContain('export declare const id: "shouter";');
+
+    const javascript = await builder.previewBuild(workflow.id, { ...config, language: 'javascript' });
+    expect(javascript.map((a) => a.filePath)).toEqual(['shouter/index.js', 'shouter/package.json']);
+  });
+
+  it('should generate smoke tests when includeTests is set', async () => {
+    const artifacts = await builder.previewBuild(workflow.id, {
+      ...config,
+      language: 'javascript',
+      options: { includeTests: true },
+    });
+    expect(artifacts.map((a) => a.filePath)).toEqual(['shouter/index.js', 'shouter/package.json', 'shouter/index.test.js']);
+    expect(artifacts[0].content).toContain('export const steps = [');
+
+    const spec = artifacts[2].content;
+    expect(spec).toContain("import app, { commands, steps } from './index.js';");
+    expect(spec).toContain('function createMemoryStorage() {');
+    expect(spec).toContain('function createFakeLLM(');
+    expect(spec).toContain('await expect(run.execute(["sample"], appContext)).resolves.toBeUndefined();');
+    expect(spec).toContain('it("User Input (ask) should ask its prompt", async () => {');
+    expect(spec).toContain(`expect(prompts).toEqual(["What's up?"]);`);
+    expect(spec).toContain(`const inputs = { value: 'sample' };`);
+    expect(spec).toContain('it("Transform (shout) should return only its declared outputs", async () => {');
+  });
+
+  it('should report workflows that cannot be built', async () => {
+    const scheduled = await workflows.createWorkflow({
+      name: 'Nightly',
+      version: '1.0.0',
+      components: [component('tick', 'trigger', 'Schedule', { schedule: '0 9 * * *' }, [], ['timestamp'])],
+      connections: [],
+    });
+
+    const { valid, errors } = await builder.validateBuild(scheduled.id);
+    expect(valid).toBe(false);
+    expect(errors.map((e) => e.message)).toEqual([
+      'Workflow Nightly has no appSettings',
+      'No code template for Schedule (trigger:Schedule)',
+    ]);
+
+    const result = await builder.buildApp(scheduled.id, config);
+    expect(result.success).toBe(false);
+    expect(result.artifacts).toEqual([]);
+    await expect(builder.previewBuild(scheduled.id, config)).rejects.toThrow('Cannot build workflow');
+  });
+
+  it('should evaluate expressions in the sandbox, helpers included', async () => {
+    await workflows.updateWorkflow(workflow.id, {
+      components: workflow.components.map((c) =>
+        c.id === 'shout' ? { ...c, config: { expression: 'upper(data) + "\\n" + \'!\'' } } : c,
+      ),
+      connections: workflow.connections.map((c) =>
+        c.id === 'c3' ? { ...c, transform: { type: 'custom' as const, expression: 'value + len(value)' } } : c,
+      ),
+    });
+
+    const result = await builder.buildApp(workflow.id, config);
+    expect(result.warnings).toEqual([]);
+    const registry = new DefaultAppRegistry();
+    await registry.loadFromDirectory(config.outputDir);
+    const app = registry.get('shouter')!;
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const context = { storage, input: new SilentInput(), config: {} };
+    await app.initialize(context);
+    await app.commands[0].execute(['hello'], context);
+    expect(log.mock.calls[0][0]).toBe('HELLO\n!7');
+  });
+
+  it('should list, rebuild and delete generated apps', async () => {
+    await builder.buildApp(workflow.id, config);
+    expect((await builder.listGeneratedApps()).map((a) => a.id)).toEqual(['shouter']);
+
+    const rebuilt = await builder.rebuildApp('shouter');
+    expect(rebuilt.success).toBe(true);
+    const app = await builder.loadGeneratedApp('shouter');
+    expect(app.id).toBe('shouter');
+
+    await builder.deleteGeneratedApp('shouter');
+    expect(await builder.listGeneratedApps()).toEqual([]);
+    await expect(fs.access(path.join(config.outputDir, 'shouter'))).rejects.toThrow();
+  });
+
+  it('should keep registered templates across instances', async () => {
+    await builder.registerTemplate({
+      name: 'app-module',
+      description: 'With a banner',
+      language: 'javascript',
+      template: '// Built for the team\n{{header}}\n{{imports}}\nconst h = React.createElement;\n{{runtime}}\n{{commands}}\n{{ui}}\n{{app}}\n{{steps}}\n',
+      placeholders: ['header', 'imports', 'runtime', 'commands', 'ui', 'app', 'steps'],
+    });
+    await expect(
+      builder.registerTemplate({ name: 'app-module', description: '', language: 'javascript', template: '{{app}}', placeholders: ['app'] }),
+    ).rejects.toThrow('must keep placeholders: header, imports, runtime, commands, ui, steps');
+
+    const [module] = await new BuildEngine({ workflows, storage }).previewBuild(workflow.id, config);
+    expect(module.content.startsWith('// Built for the team\n')).toBe(true);
+  });
+});
+
+describe('TypeScriptCodeGenerator.formatCode', () => {
+  it('should apply indentation, semicolon and comment options', () => {
+    const generator = new TypeScriptCodeGenerator();
+    const code = '// Say hi\nfunction hi() {\n  const a = 1;\n  (a);\n  return a;\n}\n\n\n\nhi();';
+
+    expect(
+      generator.formatCode(code, 'javascript', {
+        includeComments: false,
+        formatting: { useTabs: true, semicolons: false },
+      }),
+    ).toBe('function hi() {\n\tconst a = 1;\n\t(a)\n\treturn a\n}\n\nhi()\n');
+  });
+});
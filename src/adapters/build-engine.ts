@@ -0,0 +1,293 @@
+/**
+ * Build Engine
+ *
+ * Implementation of BuildPort. Generates App modules from stored workflows,
+ * writes them in the `<outputDir>/<appId>/index.js` layout that
+ * DefaultAppRegistry.loadFromDirectory loads, and keeps a record of each
+ * build in storage so generated apps can be listed, rebuilt and deleted.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { pathToFileURL } from 'url';
+import type { App } from '@ports/app.js';
+import type { StoragePort } from '@ports/storage.js';
+import type { WorkflowPort, WorkflowDefinition } from '@ports/workflow.js';
+import type {
+  BuildPort,
+  BuildConfig,
+  BuildResult,
+  BuildError,
+  CodeArtifact,
+  CodeTemplate,
+} from '@ports/build.js';
+import { TemplateRenderer } from '@ports/build.js';
+import { TypeScriptCodeGenerator } from './code-generator.js';
+import { getTemplateKey } from './workflow-engine.js';
+
+// Where generated apps go unless a build says otherwise
+export const DEFAULT_OUTPUT_DIR = path.join(os.homedir(), '.inkhat', 'apps');
+
+// App IDs become directory names
+const APP_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+export interface BuildEngineOptions {
+  workflows: WorkflowPort;
+  storage: StoragePort<any>;
+  generator?: TypeScriptCodeGenerator;
+}
+
+/**
+ * Stored record of a generated app
+ */
+export interface BuildRecord {
+  appId: string;
+  workflowId: string;
+  path: string; // App directory
+  entryPoint: string; // Absolute path of index.js
+  config: BuildConfig;
+  generated: string; // ISO timestamp
+}
+
+export class BuildEngine implements BuildPort {
+  private workflows: WorkflowPort;
+  private storage: StoragePort<any>;
+  private generator: TypeScriptCodeGenerator;
+  private templatesLoaded = false;
+
+  constructor(options: BuildEngineOptions) {
+    this.workflows = options.workflows;
+    this.storage = options.storage;
+    this.generator = options.generator ?? new TypeScriptCodeGenerator();
+  }
+
+  async buildApp(workflowId: string, config: BuildConfig): Promise<BuildResult> {
+    const buildTime = new Date();
+    const workflow = await this.workflows.getWorkflow(workflowId);
+    const { errors } = await this.validateBuild(workflowId);
+
+    if (config.target !== 'app') {
+      errors.push({
+        type: 'validation',
+        message: `Build target "${config.target}" is not supported; only "app" builds are`,
+      });
+    }
+    if (!workflow || errors.length > 0) {
+      return this.result(workflowId, buildTime, [], errors, []);
+    }
+
+    let artifacts: CodeArtifact[];
+    try {
+      await this.loadTemplates();
+      artifacts = await this.generator.generate(workflow, config);
+    } catch (error) {
+      errors.push({ type: 'generation', message: (error as Error).message });
+      return this.result(workflowId, buildTime, [], errors, []);
+    }
+
+    const appId = workflow.appSettings!.id;
+    const appPath = path.resolve(config.outputDir, appId);
+    const entryPoint = path.join(appPath, 'index.js');
+
+    try {
+      for (const artifact of artifacts) {
+        const filePath = path.resolve(config.outputDir, artifact.filePath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, artifact.content, 'utf-8');
+      }
+    } catch (error) {
+      errors.push({ type: 'filesystem', message: (error as Error).message, details: appPath });
+      return this.result(workflowId, buildTime, artifacts, errors, []);
+    }
+
+    const record: BuildRecord = {
+      appId,
+      workflowId,
+      path: appPath,
+      entryPoint,
+      config,
+      generated: buildTime.toISOString(),
+    };
+    await this.storage.write(`builds/${appId}`, record);
+
+    return {
+      ...this.result(workflowId, buildTime, artifacts, errors, []),
+      appInfo: { id: appId, path: appPath, entryPoint },
+    };
+  }
+
+  async previewBuild(workflowId: string, config: BuildConfig): Promise<CodeArtifact[]> {
+    const workflow = await this.requireBuildable(workflowId);
+    await this.loadTemplates();
+    return this.generator.generate(workflow, config);
+  }
+
+  async validateBuild(workflowId: string): Promise<{ valid: boolean; errors: BuildError[] }> {
+    const workflow = await this.workflows.getWorkflow(workflowId);
+    if (!workflow) {
+      return { valid: false, errors: [{ type: 'validation', message: `Workflow not found: ${workflowId}` }] };
+    }
+
+    const errors: BuildError[] = [];
+
+    const settings = workflow.appSettings;
+    if (!settings) {
+      errors.push({ type: 'validation', message: `Workflow ${workflow.name} has no appSettings` });
+    } else if (!APP_ID_PATTERN.test(settings.id)) {
+      errors.push({
+        type: 'validation',
+        message: `App ID "${settings.id}" must be letters, digits, dots, dashes or underscores`,
+      });
+    }
+
+    const validation = await this.workflows.validateWorkflow(workflow);
+    for (const message of validation.errors) {
+      errors.push({ type: 'validation', message });
+    }
+
+    for (const component of workflow.components) {
+      const codeTemplate = this.generator.findComponentTemplate(component)?.codeTemplate;
+      if (!codeTemplate) {
+        errors.push({
+          type: 'generation',
+          message: `No code template for ${component.name} (${getTemplateKey(component)})`,
+          componentId: component.id,
+        });
+        continue;
+      }
+
+      const { issues } = TemplateRenderer.validate(codeTemplate.implementation, component.config);
+      for (const issue of issues) {
+        errors.push({
+          type: 'generation',
+          message: `${component.name}: ${issue.path ? `missing config "${issue.path}"` : issue.message}`,
+          componentId: component.id,
+          details: `line ${issue.line}, column ${issue.column} of its code template`,
+        });
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async generateComponent(componentId: string, workflowId: string, config: BuildConfig): Promise<CodeArtifact> {
+    const workflow = await this.workflows.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    const code = this.generator.generateComponent(componentId, workflow);
+    return {
+      filePath: `${workflow.appSettings?.id ?? workflow.id}/${componentId}.js`,
+      content: this.generator.formatCode(code, 'javascript', config.options),
+      language: 'javascript',
+      description: `Step function for component ${componentId}`,
+    };
+  }
+
+  async loadGeneratedApp(appId: string): Promise<App> {
+    const record = await this.requireRecord(appId);
+
+    // Query string skips the module cache so rebuilt apps are picked up
+    const module = await import(`${pathToFileURL(record.entryPoint).href}?v=${Date.now()}`);
+    return module.default as App;
+  }
+
+  async getTemplates(): Promise<CodeTemplate[]> {
+    await this.loadTemplates();
+    return this.generator.getTemplates();
+  }
+
+  async registerTemplate(template: CodeTemplate): Promise<void> {
+    await this.loadTemplates();
+    this.generator.registerTemplate(template);
+    await this.storage.write(`build-templates/${template.name}`, template);
+  }
+
+  async deleteGeneratedApp(appId: string): Promise<void> {
+    const record = await this.requireRecord(appId);
+    await fs.rm(record.path, { recursive: true, force: true });
+    await this.storage.delete(`builds/${appId}`);
+  }
+
+  async listGeneratedApps(): Promise<Array<{ id: string; path: string; generated: Date }>> {
+    const keys = (await this.storage.list('builds/')).filter((k) => k.startsWith('builds/'));
+    const apps: Array<{ id: string; path: string; generated: Date }> = [];
+
+    for (const key of keys) {
+      const record: BuildRecord | null = await this.storage.read(key);
+      if (record) {
+        apps.push({ id: record.appId, path: record.path, generated: new Date(record.generated) });
+      }
+    }
+
+    return apps.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async rebuildApp(appId: string, config?: BuildConfig): Promise<BuildResult> {
+    const record = await this.requireRecord(appId);
+    return this.buildApp(record.workflowId, config ?? record.config);
+  }
+
+  /**
+   * Stored record of a generated app, or null if it was never built
+   */
+  async getBuildRecord(appId: string): Promise<BuildRecord | null> {
+    return await this.storage.read(`builds/${appId}`);
+  }
+
+  private async requireRecord(appId: string): Promise<BuildRecord> {
+    const record = await this.getBuildRecord(appId);
+    if (!record) {
+      throw new Error(`Generated app not found: ${appId}`);
+    }
+    return record;
+  }
+
+  private async requireBuildable(workflowId: string): Promise<WorkflowDefinition> {
+    const { errors } = await this.validateBuild(workflowId);
+    if (errors.length > 0) {
+      throw new Error(`Cannot build workflow ${workflowId}:\n  ${errors.map((e) => e.message).join('\n  ')}`);
+    }
+    return (await this.workflows.getWorkflow(workflowId))!;
+  }
+
+  /**
+   * Custom templates are kept in storage and registered on first use
+   */
+  private async loadTemplates(): Promise<void> {
+    if (this.templatesLoaded) return;
+    this.templatesLoaded = true;
+
+    const keys = (await this.storage.list('build-templates/')).filter((k) => k.startsWith('build-templates/'));
+    for (const key of keys) {
+      const template: CodeTemplate | null = await this.storage.read(key);
+      if (template) {
+        this.generator.registerTemplate(template);
+      }
+    }
+  }
+
+  private result(
+    workflowId: string,
+    buildTime: Date,
+    artifacts: CodeArtifact[],
+    errors: BuildError[],
+    warnings: string[],
+  ): BuildResult {
+    return {
+      success: errors.length === 0,
+      artifacts,
+      errors,
+      warnings,
+      metadata: {
+        workflowId,
+        buildTime,
+        duration: Date.now() - buildTime.getTime(),
+        artifactCount: artifacts.length,
+        linesOfCode: artifacts.reduce((total, a) => total + a.content.trimEnd().split('\n').length, 0),
+      },
+    };
+  }
+}
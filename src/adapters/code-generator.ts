@@ -0,0 +1,984 @@
+/**
+ * TypeScript Code Generator
+ *
+ * Turns a workflow with `appSettings` into a self-contained App module. Each
+ * component becomes a step function built from its template's
+ * `codeTemplate.implementation`, and a small runtime runs the steps in
+ * dependency order the way the workflow engine does: inputs come from
+ * connections (or config and port defaults), steps on a branch that was not
+ * taken are skipped and a Return ends the run.
+ *
+ * The module itself is plain ESM JavaScript so DefaultAppRegistry can import
+ * it without a compile step. TypeScript builds also get an index.d.ts
+ * describing it, and `includeTests` adds an index.test.js vitest spec.
+ */
+
+import { createRequire } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  CodeGenerator,
+  CodeArtifact,
+  CodeLanguage,
+  CodeTemplate,
+  BuildConfig,
+} from '@ports/build.js';
+import { TemplateRenderer } from '@ports/build.js';
+import type { WorkflowDefinition, WorkflowComponent, ComponentTemplate, DataType } from '@ports/workflow.js';
+import { getTemplate } from './workflow-templates.js';
+import { topologicalSort, getTemplateKey } from './workflow-engine.js';
+
+const require = createRequire(import.meta.url);
+
+// Sandboxed expressions are never emitted as code; generated apps pass their
+// text to this module (with the extension this one has, .ts when run from source)
+const EXPRESSIONS_MODULE = new URL(`./workflow-expressions${path.extname(import.meta.url)}`, import.meta.url).href;
+
+// Names a step's input variables must not shadow
+const RESERVED = new Set([
+  'context', 'outputs', '$inputs',
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import',
+  'in', 'instanceof', 'let', 'new', 'null', 'return', 'static', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'undefined',
+]);
+
+// Source for inputs a generated test has no config value or default for
+const SAMPLE_VALUES: Record<DataType, string> = {
+  string: "'sample'",
+  number: '1',
+  boolean: 'true',
+  date: 'new Date(0)',
+  object: '{ sample: true }',
+  array: "['sample']",
+  any: "'sample'",
+};
+
+// Steps that reach past the storage and LLM fakes, so generated tests leave them out
+const EXTERNAL_STEPS = new Set(['action:Read File', 'action:Write File', 'action:HTTP Request']);
+
+const TS_TYPES: Record<DataType, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  date: 'Date',
+  object: 'Record<string, any>',
+  array: 'any[]',
+  any: 'any',
+};
+
+/**
+ * Skeleton of the generated module. Custom templates registered under the
+ * same name replace it, but must keep every placeholder.
+ */
+export const APP_MODULE_TEMPLATE: CodeTemplate = {
+  name: 'app-module',
+  description: 'ESM module exporting an inkhat App built from a workflow',
+  language: 'javascript',
+  template: `{{header}}
+{{imports}}
+
+const h = React.createElement;
+
+{{runtime}}
+
+{{commands}}
+
+{{ui}}
+
+{{app}}
+
+{{steps}}
+`,
+  placeholders: ['header', 'imports', 'runtime', 'commands', 'ui', 'app', 'steps'],
+};
+
+// Runs the steps; shared by the `run` command and the UI
+const RUNTIME = `const noLLM = {
+  complete: async () => {
+    throw new Error('No LLM provider configured (set config.llm)');
+  },
+};
+
+/**
+ * Context the steps run with: the app context plus the hooks they call
+ */
+function createRunContext(appContext, hooks) {
+  return {
+    storage: appContext.storage,
+    input: appContext.input,
+    config: appContext.config,
+    llm: appContext.config.llm || noLLM,
+    prompt: hooks.prompt,
+    display: hooks.display,
+    result: undefined,
+  };
+}
+
+/**
+ * Run every step in dependency order and return the value given to Return
+ */
+async function runWorkflow(context, onStatus = () => {}) {
+  const dataFlow = new Map();
+  const statuses = new Map();
+  const setStatus = (step, status, error) => {
+    statuses.set(step.id, status);
+    onStatus(step.id, status, error);
+  };
+  let returned = false;
+
+  for (const step of steps) {
+    const inputs = returned ? null : resolveInputs(step, dataFlow, statuses);
+    if (inputs === null) {
+      setStatus(step, 'skipped');
+      continue;
+    }
+
+    setStatus(step, 'running');
+    let result;
+    try {
+      result = await step.run(inputs, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setStatus(step, 'failed', message);
+      throw new Error(step.name + ': ' + message);
+    }
+
+    const outputs = {};
+    for (const port of step.outputs) {
+      if (port.name in result) outputs[port.id] = result[port.name];
+    }
+    dataFlow.set(step.id, outputs);
+    setStatus(step, 'completed');
+    returned = step.returns;
+  }
+
+  return context.result;
+}
+
+/**
+ * Gather input values by port name, or null when the step sits on a path
+ * that was not taken
+ */
+function resolveInputs(step, dataFlow, statuses) {
+  const incoming = connections.filter((c) => c.target === step.id);
+  const active = incoming.filter((c) => statuses.get(c.source) === 'completed' && c.sourcePort in dataFlow.get(c.source));
+  if (incoming.length > 0 && active.length === 0) return null;
+
+  const inputs = {};
+  for (const port of step.inputs) {
+    const connection = active.filter((c) => c.targetPort === port.id).pop();
+    if (connection) {
+      inputs[port.name] = applyTransform(connection, dataFlow.get(connection.source)[connection.sourcePort]);
+    } else if (port.value !== undefined) {
+      inputs[port.name] = port.value;
+    } else if (port.required) {
+      if (incoming.some((c) => c.targetPort === port.id)) return null;
+      throw new Error(step.name + ': missing required input "' + port.name + '"');
+    }
+  }
+  return inputs;
+}
+
+function applyTransform(connection, value) {
+  const items = Array.isArray(value) ? value : [value];
+  switch (connection.transform) {
+    case 'map':
+      return items.map((item) => connection.expression(item));
+    case 'filter':
+      return items.filter((item) => connection.expression(item));
+    case 'custom':
+      return connection.expression(value);
+    default:
+      return value;
+  }
+}
+
+function formatValue(value) {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}`;
+
+const UI = `const STATUS_STYLES = {
+  pending: { icon: '·', color: 'gray' },
+  running: { icon: '…', color: 'yellow' },
+  completed: { icon: '✔', color: 'green' },
+  failed: { icon: '✖', color: 'red' },
+  skipped: { icon: '↷', color: 'gray' },
+};
+
+/**
+ * Runs {{workflowName}} as soon as it is shown, asking for prompts inline
+ */
+function WorkflowView() {
+  const [statuses, setStatuses] = useState({});
+  const [lines, setLines] = useState([]);
+  const [question, setQuestion] = useState(null);
+  const [answer, setAnswer] = useState('');
+  const [outcome, setOutcome] = useState(null);
+  const [run, setRun] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    setStatuses({});
+    setLines([]);
+    setOutcome(null);
+
+    const context = createRunContext(appContext, {
+      prompt: (text) => new Promise((resolve) => setQuestion({ text, resolve })),
+      display: (content) => setLines((previous) => [...previous, formatValue(content)]),
+    });
+    const onStatus = (stepId, status, error) => {
+      if (active) setStatuses((previous) => ({ ...previous, [stepId]: { status, error } }));
+    };
+
+    runWorkflow(context, onStatus).then(
+      (result) => active && setOutcome({ result }),
+      (error) => active && setOutcome({ error: error.message }),
+    );
+    return () => {
+      active = false;
+    };
+  }, [run]);
+
+  useInput((input, key) => {
+    if (question) {
+      if (key.return) {
+        question.resolve(answer);
+        setQuestion(null);
+        setAnswer('');
+      } else if (key.backspace || key.delete) {
+        setAnswer((previous) => previous.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setAnswer((previous) => previous + input);
+      }
+    } else if (outcome && input === 'r') {
+      setRun((previous) => previous + 1);
+    }
+  });
+
+  return h(
+    Box,
+    { flexDirection: 'column', padding: 1 },
+    h(Text, { bold: true, color: 'cyan' }, name),
+    description ? h(Text, { dimColor: true }, description) : null,
+    h(
+      Box,
+      { flexDirection: 'column', marginTop: 1 },
+      steps.map((step) => {
+        const state = statuses[step.id] || { status: 'pending' };
+        const style = STATUS_STYLES[state.status];
+        return h(
+          Text,
+          { key: step.id, color: style.color },
+          style.icon + ' ' + step.name + (state.error ? ' - ' + state.error : ''),
+        );
+      }),
+    ),
+    lines.length > 0
+      ? h(Box, { flexDirection: 'column', marginTop: 1 }, lines.map((line, index) => h(Text, { key: index }, line)))
+      : null,
+    question
+      ? h(Box, { marginTop: 1 }, h(Text, { color: 'green' }, question.text + ' '), h(Text, null, answer + '█'))
+      : null,
+    outcome && outcome.error ? h(Text, { color: 'red' }, 'Failed: ' + outcome.error) : null,
+    outcome && !outcome.error && outcome.result !== undefined
+      ? h(Text, { color: 'green' }, 'Result: ' + formatValue(outcome.result))
+      : null,
+    outcome ? h(Text, { dimColor: true }, 'r run again') : null,
+  );
+}`;
+
+// In-memory ports the generated tests run the app with
+const TEST_FAKES = `/**
+ * StoragePort kept in a Map
+ */
+function createMemoryStorage() {
+  const data = new Map();
+  return {
+    read: async (key) => (data.has(key) ? structuredClone(data.get(key)) : null),
+    write: async (key, value) => {
+      data.set(key, structuredClone(value));
+    },
+    delete: async (key) => {
+      data.delete(key);
+    },
+    list: async (pattern) => [...data.keys()].filter((key) => !pattern || new RegExp(pattern).test(key)),
+    exists: async (key) => data.has(key),
+    query: async (filter) =>
+      [...data.values()].filter((item) => Object.entries(filter).every(([field, value]) => item?.[field] === value)),
+    initialize: async () => {},
+    close: async () => {},
+  };
+}
+
+/**
+ * LLMPort answering every request with the same reply; requests are recorded
+ */
+function createFakeLLM(reply = 'fake reply') {
+  const requests = [];
+  const respond = (request) => ({
+    content: reply,
+    role: 'assistant',
+    finishReason: 'stop',
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    model: request.model || 'fake',
+  });
+  return {
+    requests,
+    complete: async (request) => {
+      requests.push(request);
+      return respond(request);
+    },
+    stream: async function* (request) {
+      requests.push(request);
+      yield { delta: reply, finishReason: 'stop' };
+      return respond(request);
+    },
+    listModels: async () => [],
+    getModelInfo: async () => null,
+    testConnection: async () => true,
+    getProvider: () => 'ollama',
+    getConfig: () => ({ provider: 'ollama' }),
+  };
+}`;
+
+interface StepCheck {
+  should: string;
+  arrange?: string[]; // Run before the step, with `inputs` in scope
+  assert: string[]; // Run after it, with `inputs` and `outputs` in scope
+}
+
+// What the generated tests check for built-in templates, beyond a step
+// returning only its declared outputs
+const STEP_CHECKS: Record<string, (component: WorkflowComponent) => StepCheck> = {
+  'trigger:User Input': (c) => ({
+    should: 'ask its prompt',
+    assert: [
+      `expect(prompts).toEqual([${JSON.stringify(String(c.config.prompt ?? ''))}]);`,
+      ...(hasOutput(c, 'userInput') ? ["expect(outputs.userInput).toBe('sample answer');"] : []),
+    ],
+  }),
+  'action:LLM Completion': (c) => ({
+    should: 'send its input to the LLM',
+    assert: [
+      'expect(llm.requests).toHaveLength(1);',
+      ...(hasOutput(c, 'response') ? ["expect(outputs.response).toBe('fake reply');"] : []),
+    ],
+  }),
+  'action:Storage Read': (c) => ({
+    should: 'read from storage',
+    arrange: ['await storage.write(inputs.key, { stored: true });'],
+    assert: hasOutput(c, 'data') ? ['expect(outputs.data).toEqual({ stored: true });'] : [],
+  }),
+  'action:Storage Write': () => ({
+    should: 'write to storage',
+    assert: ['expect(await storage.read(inputs.key)).toEqual(inputs.data);'],
+  }),
+  'logic:If Condition': () => ({
+    should: 'take exactly one branch',
+    assert: ['expect(Object.keys(outputs)).toHaveLength(1);'],
+  }),
+  'output:Display': () => ({
+    should: 'display its content',
+    assert: ['expect(displayed).toEqual([inputs.content]);'],
+  }),
+  'output:Return': () => ({
+    should: 'set the result',
+    assert: ['expect(context.result).toEqual(inputs.result);'],
+  }),
+};
+
+export class TypeScriptCodeGenerator implements CodeGenerator {
+  private templates: Map<string, CodeTemplate> = new Map([[APP_MODULE_TEMPLATE.name, APP_MODULE_TEMPLATE]]);
+
+  getTemplates(): CodeTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Register a code template, replacing any with the same name
+   */
+  registerTemplate(template: CodeTemplate): void {
+    const used = TemplateRenderer.extractPlaceholders(template.template);
+    const undeclared = template.placeholders.filter((p) => !used.includes(p));
+    if (undeclared.length > 0) {
+      throw new Error(`Template "${template.name}" does not use placeholders: ${undeclared.join(', ')}`);
+    }
+
+    const builtIn = template.name === APP_MODULE_TEMPLATE.name ? APP_MODULE_TEMPLATE : undefined;
+    const dropped = builtIn?.placeholders.filter((p) => !template.placeholders.includes(p)) ?? [];
+    if (dropped.length > 0) {
+      throw new Error(`Template "${template.name}" must keep placeholders: ${dropped.join(', ')}`);
+    }
+
+    this.templates.set(template.name, template);
+  }
+
+  /**
+   * Component template with the code for a component, if there is one
+   */
+  findComponentTemplate(component: WorkflowComponent): ComponentTemplate | undefined {
+    return getTemplate(component.type, component.template ?? component.name);
+  }
+
+  async generate(workflow: WorkflowDefinition, config: BuildConfig): Promise<CodeArtifact[]> {
+    const settings = requireAppSettings(workflow);
+    const module = TemplateRenderer.render(this.templates.get(APP_MODULE_TEMPLATE.name)!.template, {
+      header: this.generateHeader(workflow),
+      imports: this.generateImports(workflow),
+      runtime: RUNTIME,
+      commands: this.generateCommands(workflow),
+      ui: this.generateUI(workflow),
+      app: this.generateApp(workflow),
+      steps: this.generateSteps(workflow),
+    });
+
+    const artifacts: CodeArtifact[] = [
+      {
+        filePath: `${settings.id}/index.js`,
+        content: this.formatCode(module, 'javascript', config.options),
+        language: 'javascript',
+        description: `App module for workflow "${workflow.name}"`,
+      },
+      {
+        // Without it Node loads index.js as CommonJS outside an ESM package
+        filePath: `${settings.id}/package.json`,
+        content: `${JSON.stringify({ name: settings.id, version: settings.version, private: true, type: 'module', main: 'index.js' }, null, 2)}\n`,
+        language: 'javascript',
+        description: 'Marks index.js as an ES module',
+      },
+    ];
+
+    if (config.language === 'typescript') {
+      artifacts.push({
+        filePath: `${settings.id}/index.d.ts`,
+        content: this.formatCode(this.generateTypes(workflow, config.options.useStrictTypes), 'typescript', config.options),
+        language: 'typescript',
+        description: `Type declarations for ${settings.id}/index.js`,
+      });
+    }
+
+    if (config.options.includeTests) {
+      artifacts.push({
+        filePath: `${settings.id}/index.test.js`,
+        content: this.formatCode(this.generateTests(workflow), 'javascript', config.options),
+        language: 'javascript',
+        description: `Vitest smoke tests for ${settings.id}/index.js`,
+      });
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * React, Ink and the expression sandbox are imported from the installation
+   * doing the build, so the app shares them with the host wherever its output
+   * directory is, and evaluates expressions exactly as the workflow engine does
+   */
+  generateImports(workflow: WorkflowDefinition): string {
+    const lines = [
+      `import React, { useState, useEffect } from '${resolveFrameworkModule('react')}';`,
+      `import { Box, Text, useInput } from '${resolveFrameworkModule('ink')}';`,
+      `import { evaluateExpression } from '${EXPRESSIONS_MODULE}';`,
+    ];
+
+    const specifiers = new Set<string>();
+    for (const component of workflow.components) {
+      for (const specifier of this.findComponentTemplate(component)?.codeTemplate?.imports ?? []) {
+        specifiers.add(specifier);
+      }
+    }
+    for (const specifier of specifiers) {
+      lines.push(`import ${importName(specifier)} from '${specifier}';`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Step function for one component
+   */
+  generateComponent(componentId: string, workflow: WorkflowDefinition): string {
+    const component = workflow.components.find((c) => c.id === componentId);
+    if (!component) {
+      throw new Error(`Component ${componentId} not found in workflow ${workflow.id}`);
+    }
+
+    const template = this.findComponentTemplate(component);
+    if (!template?.codeTemplate) {
+      throw new Error(`No code template for ${component.name} (${getTemplateKey(component)})`);
+    }
+
+    const inputNames = component.inputs.map((p) => p.name).filter(isVariableName);
+    const outputNames = component.outputs.map((p) => p.name).filter(isVariableName);
+    const body = renderImplementation(template.codeTemplate.implementation, component.config);
+
+    return [
+      `// ${component.name} (${component.id})`,
+      `async function ${stepFunctionNames(workflow).get(component.id)}($inputs, context) {`,
+      '  const outputs = {};',
+      ...inputNames.map((name) => `  const ${name} = $inputs.${name};`),
+      '',
+      ...body.split('\n').map((line) => (line ? `  ${line}` : '')),
+      '',
+      ...outputNames.map((name) => `  if (typeof ${name} !== 'undefined') outputs.${name} = ${name};`),
+      '  return outputs;',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Module exports: the App itself
+   */
+  generateApp(workflow: WorkflowDefinition): string {
+    const settings = requireAppSettings(workflow);
+
+    return `let appContext;
+
+export const id = ${JSON.stringify(settings.id)};
+export const name = ${JSON.stringify(settings.name)};
+export const description = ${JSON.stringify(settings.description)};
+export const version = ${JSON.stringify(settings.version)};
+
+export async function initialize(context) {
+  appContext = context;
+}
+
+export function render() {
+  return h(WorkflowView);
+}
+
+export async function cleanup() {}
+
+export default { id, name, description, version, commands, initialize, render, cleanup };`;
+  }
+
+  /**
+   * A `run` command that answers the workflow's prompts from its arguments
+   */
+  generateCommands(workflow: WorkflowDefinition): string {
+    const prompts = this.prompts(workflow).map((c) => c.name);
+    const usage = prompts.length > 0 ? `; arguments answer ${prompts.join(', ')}` : '';
+
+    return `export const commands = [
+  {
+    name: 'run',
+    description: ${JSON.stringify(`Run ${workflow.name}${usage}`)},
+    execute: async (args, appContext) => {
+      const answers = [...args];
+      const context = createRunContext(appContext, {
+        prompt: async (question) => {
+          if (answers.length === 0) throw new Error('No input provided for "' + question + '"');
+          return answers.shift();
+        },
+        display: (content) => console.log(formatValue(content)),
+      });
+
+      const result = await runWorkflow(context);
+      if (result !== undefined) console.log(formatValue(result));
+    },
+  },
+];`;
+  }
+
+  generateUI(workflow: WorkflowDefinition): string {
+    return TemplateRenderer.render(UI, { workflowName: sanitizeComment(workflow.name) });
+  }
+
+  /**
+   * Declarations for index.js, with the prompt answers and result typed from
+   * the workflow's ports
+   */
+  generateTypes(workflow: WorkflowDefinition, strict = false): string {
+    const settings = requireAppSettings(workflow);
+    const typeName = pascalCase(settings.id);
+    const loose = strict ? 'unknown' : 'any';
+    const toType = (type: DataType) => (type === 'any' ? loose : TS_TYPES[type]);
+
+    const prompts = this.prompts(workflow).map((c) => {
+      const question = c.config.prompt ? `  /** ${sanitizeComment(String(c.config.prompt))} */\n` : '';
+      return `${question}  ${JSON.stringify(c.name)}: ${toType(c.outputs[0]?.type ?? 'any')};`;
+    });
+    const results = workflow.components
+      .filter((c) => getTemplateKey(c) === 'output:Return')
+      .map((c) => toType(c.inputs[0]?.type ?? 'any'));
+
+    return `/**
+ * Types for ${sanitizeComment(settings.name)}, generated from workflow "${sanitizeComment(workflow.name)}"
+ */
+
+import type { ReactElement } from 'react';
+
+/**
+ * Answers to the workflow's prompts, in the order the run command takes them
+ */
+export interface ${typeName}Inputs {
+${prompts.join('\n')}
+}
+
+export type ${typeName}Result = ${[...new Set(results), 'undefined'].join(' | ')};
+
+export interface AppContext {
+  storage: ${loose};
+  input: ${loose};
+  config: Record<string, any>; // config.llm is used by LLM steps
+}
+
+export interface AppCommand {
+  name: string;
+  description: string;
+  execute(args: string[], context: AppContext): Promise<void>;
+}
+
+/**
+ * Context a step runs with
+ */
+export interface RunContext extends AppContext {
+  llm: ${loose};
+  prompt(question: string): Promise<string>;
+  display(content: ${loose}): void;
+  result: ${loose};
+}
+
+/**
+ * One component of the workflow, in execution order
+ */
+export interface WorkflowStep {
+  id: string;
+  name: string;
+  inputs: Array<{ id: string; name: string; required: boolean; value?: ${loose} }>;
+  outputs: Array<{ id: string; name: string }>;
+  returns: boolean; // Ends the run (a Return component)
+  run(inputs: Record<string, ${loose}>, context: RunContext): Promise<Record<string, ${loose}>>;
+}
+
+export declare const id: ${JSON.stringify(settings.id)};
+export declare const name: string;
+export declare const description: string;
+export declare const version: string;
+export declare const commands: AppCommand[];
+export declare const steps: WorkflowStep[];
+export declare function initialize(context: AppContext): Promise<void>;
+export declare function render(): ReactElement;
+export declare function cleanup(): Promise<void>;
+
+declare const app: {
+  id: typeof id;
+  name: string;
+  description: string;
+  version: string;
+  commands: AppCommand[];
+  initialize: typeof initialize;
+  render: typeof render;
+  cleanup: typeof cleanup;
+};
+export default app;`;
+  }
+
+  /**
+   * Vitest spec for index.js, run with in-memory storage and LLM fakes: the
+   * app's exports, the run command and each step with sample inputs
+   */
+  generateTests(workflow: WorkflowDefinition): string {
+    const settings = requireAppSettings(workflow);
+    const order = topologicalSort(workflow.components, workflow.connections);
+    const prompts = this.prompts(workflow);
+    const external = order.filter((c) => EXTERNAL_STEPS.has(getTemplateKey(c)));
+
+    // Tests of the whole run would reach the file system or network too
+    const runTest = external.length > 0 ? 'it.skip' : 'it';
+    const skipNote = external.length > 0
+      ? `    // Skipped: ${sanitizeComment(external.map((c) => c.name).join(', '))} would run for real\n`
+      : '';
+    const unanswered = prompts.length > 0
+      ? `
+
+    ${runTest}('should fail when a prompt is not answered', async () => {
+      await expect(run.execute([], appContext)).rejects.toThrow(${JSON.stringify(`No input provided for "${prompts[0].config.prompt ?? ''}"`)});
+    });`
+      : '';
+
+    const stepTests = order.map((c) => {
+      const label = `${c.name} (${c.id})`;
+      if (EXTERNAL_STEPS.has(getTemplateKey(c))) {
+        return `    // ${sanitizeComment(label)} is not tested: it reaches past the fakes`;
+      }
+
+      const check = STEP_CHECKS[getTemplateKey(c)]?.(c) ?? { should: 'return only its declared outputs', assert: [] };
+      const inputs = c.inputs
+        .filter((p) => isVariableName(p.name))
+        .map((p) => {
+          const value = c.config[p.name] ?? p.defaultValue;
+          return `${p.name}: ${value === undefined ? SAMPLE_VALUES[p.type] : JSON.stringify(value)}`;
+        });
+      const run = `runStep(${JSON.stringify(c.id)}, inputs);`;
+
+      return [
+        `    it(${JSON.stringify(`${label} should ${check.should}`)}, async () => {`,
+        `      const inputs = ${inputs.length > 0 ? `{ ${inputs.join(', ')} }` : '{}'};`,
+        ...(check.arrange ?? []).map((line) => `      ${line}`),
+        check.assert.some((line) => line.includes('outputs')) ? `      const outputs = await ${run}` : `      await ${run}`,
+        ...check.assert.map((line) => `      ${line}`),
+        '    });',
+      ].join('\n');
+    });
+
+    return `/**
+ * Smoke tests for ${sanitizeComment(settings.name)} ${sanitizeComment(settings.version)}
+ *
+ * Generated by inkhat from workflow "${sanitizeComment(workflow.name)}" (${workflow.id}).
+ * Storage and the LLM are in-memory fakes. Run with
+ * \`npx vitest run --root <this directory>\` from the inkhat installation,
+ * whose vitest resolves the import below.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import app, { commands, steps } from './index.js';
+
+${TEST_FAKES}
+
+describe(${JSON.stringify(settings.name)}, () => {
+  let storage;
+  let llm;
+  let appContext;
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    llm = createFakeLLM();
+    appContext = { storage, input: null, config: { llm } };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await app.initialize(appContext);
+  });
+
+  afterEach(async () => {
+    await app.cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('should export the app', () => {
+    expect(app.id).toBe(${JSON.stringify(settings.id)});
+    expect(app.commands).toBe(commands);
+    expect(app.render()).toBeTruthy();
+  });
+
+  describe('run command', () => {
+    const run = commands.find((command) => command.name === 'run');
+
+${skipNote}    ${runTest}('should run with an answer for every prompt', async () => {
+      await expect(run.execute(${JSON.stringify(prompts.map(() => 'sample'))}, appContext)).resolves.toBeUndefined();
+    });${unanswered}
+  });
+
+  describe('steps', () => {
+    let prompts;
+    let displayed;
+    let context;
+
+    beforeEach(() => {
+      prompts = [];
+      displayed = [];
+      context = {
+        ...appContext,
+        llm,
+        prompt: async (question) => {
+          prompts.push(question);
+          return 'sample answer';
+        },
+        display: (content) => displayed.push(content),
+        result: undefined,
+      };
+    });
+
+    async function runStep(id, inputs) {
+      const step = steps.find((s) => s.id === id);
+      const outputs = await step.run(inputs, context);
+      const declared = step.outputs.map((port) => port.name);
+      expect(Object.keys(outputs).filter((name) => !declared.includes(name))).toEqual([]);
+      return outputs;
+    }
+
+${stepTests.join('\n\n')}
+  });
+});`;
+  }
+
+  /**
+   * Apply BuildConfig formatting: indentation, optional semicolons and
+   * comments, single blank lines and a trailing newline
+   */
+  formatCode(code: string, _language: CodeLanguage, options: BuildConfig['options'] = {}): string {
+    const { indentSize = 2, useTabs = false, semicolons = true } = options.formatting ?? {};
+    const indent = useTabs ? '\t' : ' '.repeat(indentSize);
+
+    let lines = code.split('\n').map((line) => line.trimEnd());
+    if (options.includeComments === false) {
+      lines = stripComments(lines);
+    }
+
+    lines = lines.map((line) => {
+      const spaces = line.length - line.trimStart().length;
+      return indent.repeat(Math.floor(spaces / 2)) + ' '.repeat(spaces % 2) + line.trimStart();
+    });
+
+    if (!semicolons) {
+      lines = lines.map((line, index) => {
+        const next = lines.slice(index + 1).find((l) => l.trim() !== '')?.trim() ?? '';
+        // Keep the semicolon where the next line would otherwise continue the statement
+        return line.endsWith(';') && !/^[([`+\-/]/.test(next) ? line.slice(0, -1) : line;
+      });
+    }
+
+    return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+  }
+
+  private generateHeader(workflow: WorkflowDefinition): string {
+    const settings = requireAppSettings(workflow);
+    const description = settings.description ? ` * ${sanitizeComment(settings.description)}\n` : '';
+
+    return `/**
+ * ${sanitizeComment(settings.name)} ${sanitizeComment(settings.version)}
+${description} *
+ * Generated by inkhat from workflow "${sanitizeComment(workflow.name)}" (${workflow.id}).
+ * Rebuild the workflow instead of editing this file.
+ */`;
+  }
+
+  /**
+   * Step functions in execution order, followed by the tables the runtime reads
+   */
+  private generateSteps(workflow: WorkflowDefinition): string {
+    const order = topologicalSort(workflow.components, workflow.connections);
+    const names = stepFunctionNames(workflow);
+
+    const functions = order.map((c) => this.generateComponent(c.id, workflow));
+    const steps = order.map((c) => {
+      const inputs = c.inputs.map((p) => ({
+        id: p.id,
+        name: p.name,
+        required: p.required,
+        value: c.config[p.name] ?? p.defaultValue,
+      }));
+      const outputs = c.outputs.map((p) => ({ id: p.id, name: p.name }));
+
+      return `  {
+    id: ${JSON.stringify(c.id)},
+    name: ${JSON.stringify(c.name)},
+    inputs: ${JSON.stringify(inputs)},
+    outputs: ${JSON.stringify(outputs)},
+    returns: ${getTemplateKey(c) === 'output:Return'},
+    run: ${names.get(c.id)},
+  },`;
+    });
+    const connections = workflow.connections.map((c) => {
+      const fields = [
+        `source: ${JSON.stringify(c.sourceComponentId)}`,
+        `sourcePort: ${JSON.stringify(c.sourcePortId)}`,
+        `target: ${JSON.stringify(c.targetComponentId)}`,
+        `targetPort: ${JSON.stringify(c.targetPortId)}`,
+      ];
+      if (c.transform && c.transform.type !== 'direct' && c.transform.expression) {
+        const expression = JSON.stringify(c.transform.expression);
+        fields.push(`transform: '${c.transform.type}'`, `expression: (value) => evaluateExpression(${expression}, { value })`);
+      }
+      return `  { ${fields.join(', ')} },`;
+    });
+
+    return [
+      '// Steps, in execution order',
+      '',
+      functions.join('\n\n'),
+      '',
+      `export const steps = [\n${steps.join('\n')}\n];`,
+      '',
+      `const connections = [\n${connections.join('\n')}\n];`,
+    ].join('\n');
+  }
+
+  /**
+   * User Input triggers, in the order they prompt
+   */
+  private prompts(workflow: WorkflowDefinition): WorkflowComponent[] {
+    return topologicalSort(workflow.components, workflow.connections).filter(
+      (c) => getTemplateKey(c) === 'trigger:User Input',
+    );
+  }
+}
+
+function hasOutput(component: WorkflowComponent, name: string): boolean {
+  return component.outputs.some((p) => p.name === name);
+}
+
+function requireAppSettings(workflow: WorkflowDefinition): NonNullable<WorkflowDefinition['appSettings']> {
+  if (!workflow.appSettings) {
+    throw new Error(`Workflow ${workflow.name} has no appSettings`);
+  }
+  return workflow.appSettings;
+}
+
+/**
+ * Fill config placeholders: {{key}} is escaped for use inside a string
+ * literal, {{{key}}} is inserted as code
+ */
+function renderImplementation(implementation: string, config: Record<string, any>): string {
+  return TemplateRenderer.render(implementation, config, { escape: escapeStringLiteral }).trim();
+}
+
+function escapeStringLiteral(value: string): string {
+  return JSON.stringify(value).slice(1, -1).replace(/'/g, "\\'");
+}
+
+function resolveFrameworkModule(name: string): string {
+  try {
+    return pathToFileURL(require.resolve(name)).href;
+  } catch {
+    return name;
+  }
+}
+
+function stepFunctionNames(workflow: WorkflowDefinition): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const component of workflow.components) {
+    const base = `step_${component.id.replace(/[^\w$]/g, '_')}`;
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    names.set(component.id, name);
+  }
+  return names;
+}
+
+function isVariableName(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name) && !RESERVED.has(name);
+}
+
+// 'fs/promises' -> fs, 'date-fns' -> dateFns, '@scope/pkg' -> pkg
+function importName(specifier: string): string {
+  const segment = specifier.startsWith('@') ? specifier.split('/')[1] ?? specifier : specifier.split('/')[0];
+  return segment.replace(/^node:/, '').replace(/[^\w$]+(\w)/g, (_, c: string) => c.toUpperCase()).replace(/[^\w$]/g, '');
+}
+
+function pascalCase(text: string): string {
+  const name = text.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, _sep, c: string) => c.toUpperCase());
+  return /^[A-Za-z]/.test(name) ? name : `App${name}`;
+}
+
+function sanitizeComment(text: string): string {
+  return text.replace(/\*\//g, '* /').replace(/\s*\n\s*/g, ' ');
+}
+
+function stripComments(lines: string[]): string[] {
+  const kept: string[] = [];
+  let inBlock = false;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (inBlock) {
+      inBlock = !trimmed.endsWith('*/');
+    } else if (trimmed.startsWith('/*')) {
+      inBlock = !trimmed.endsWith('*/');
+    } else if (!trimmed.startsWith('//')) {
+      kept.push(line);
+    }
+  }
+  return kept;
+}
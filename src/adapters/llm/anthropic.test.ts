@@ -0,0 +1,257 @@
+/**
+ * Tests for the Anthropic Adapter, against a local mock of the API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { AnthropicAdapter } from './anthropic.js';
+import type { StreamChunk } from '@ports/llm.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type Reply = (request: RecordedRequest, res: http.ServerResponse) => void;
+
+function json(res: http.ServerResponse, body: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function events(res: http.ServerResponse, list: Array<Record<string, any>>): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of list) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
+
+describe('AnthropicAdapter', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let reply: Reply;
+  let adapter: AnthropicAdapter;
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (data) => (body += data));
+      req.on('end', () => {
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : null };
+        requests.push(request);
+        reply(request, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    adapter = new AnthropicAdapter({ baseUrl: `http://127.0.0.1:${port}`, apiKey: 'test-key', defaultModel: 'claude-test', maxRetries: 0 });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should send system messages separately and map tool use and results', async () => {
+    reply = (_request, res) =>
+      json(res, {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-test',
+        content: [
+          { type: 'text', text: 'Checking Oslo too.' },
+          { type: 'tool_use', id: 'toolu_2', name: 'weather', input: { city: 'Oslo' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 20, output_tokens: 8, cache_creation_input_tokens: 100, cache_read_input_tokens: 50 },
+      });
+
+    const response = await adapter.complete({
+      messages: [
+        { role: 'system', content: 'You forecast weather.' },
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Is this Bergen?' },
+            { type: 'image', imageUrl: 'data:image/png;base64,AAAA' },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Bergen' } }],
+        },
+        { role: 'tool', content: 'Rainy', toolCallId: 'toolu_1' },
+        { role: 'user', content: 'And Oslo?' },
+      ],
+      tools: [{ name: 'weather', description: 'Forecast', parameters: { type: 'object', properties: { city: { type: 'string' } } } }],
+      toolChoice: 'required',
+      maxTokens: 300,
+    });
+
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('test-key');
+    expect(requests[0].body).toEqual({
+      model: 'claude-test',
+      stream: false,
+      max_tokens: 300,
+      system: 'You forecast weather.\n\nBe brief.',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Is this Bergen?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Bergen' } }],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'Rainy' },
+            { type: 'text', text: 'And Oslo?' },
+          ],
+        },
+      ],
+      tools: [{ name: 'weather', description: 'Forecast', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+      tool_choice: { type: 'any' },
+    });
+
+    expect(response).toEqual({
+      content: 'Checking Oslo too.',
+      role: 'assistant',
+      toolCalls: [{ id: 'toolu_2', name: 'weather', arguments: { city: 'Oslo' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 170, completionTokens: 8, totalTokens: 178 },
+      model: 'claude-test',
+    });
+  });
+
+  it('should stream text and tool input JSON as it arrives', async () => {
+    reply = (_request, res) =>
+      events(res, [
+        {
+          type: 'message_start',
+          message: {
+            id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-test', content: [],
+            stop_reason: null, stop_sequence: null, usage: { input_tokens: 25, output_tokens: 1 },
+          },
+        },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me ' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'look.' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city": "Os' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'lo"}' } },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 42 } },
+        { type: 'message_stop' },
+      ]);
+
+    const stream = adapter.stream({ messages: [{ role: 'user', content: 'Weather in Oslo?' }] });
+    const chunks: StreamChunk[] = [];
+    let result = await stream.next();
+    while (!result.done) {
+      chunks.push(result.value);
+      result = await stream.next();
+    }
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks).toEqual([
+      { delta: 'Let me ' },
+      { delta: 'look.' },
+      { delta: '', toolCalls: [{ id: 'toolu_1', name: 'weather' }] },
+      { delta: '', toolCalls: [{ id: 'toolu_1', argumentsDelta: '{"city": "Os' }] },
+      { delta: '', toolCalls: [{ id: 'toolu_1', argumentsDelta: 'lo"}' }] },
+      { delta: '', toolCalls: [{ id: 'toolu_1', name: 'weather', arguments: { city: 'Oslo' } }] },
+      { delta: '', finishReason: 'tool_calls' },
+    ]);
+    expect(result.value).toEqual({
+      content: 'Let me look.',
+      role: 'assistant',
+      toolCalls: [{ id: 'toolu_1', name: 'weather', arguments: { city: 'Oslo' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 25, completionTokens: 42, totalTokens: 67 },
+      model: 'claude-test',
+    });
+  });
+
+  it('should fetch images given by URL and send them inline', async () => {
+    reply = (request, res) => {
+      if (request.url === '/cat.jpg') {
+        res.writeHead(200, { 'Content-Type': 'image/jpeg; charset=binary' });
+        res.end(Buffer.from('meow'));
+      } else if (request.url === '/cat.svg') {
+        res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+        res.end('<svg/>');
+      } else {
+        json(res, {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-test',
+          content: [{ type: 'text', text: 'A cat' }],
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: { input_tokens: 10, output_tokens: 2 },
+        });
+      }
+    };
+    const { port } = server.address() as AddressInfo;
+    const ask = (imageUrl: string) =>
+      adapter.complete({ messages: [{ role: 'user', content: [{ type: 'image', imageUrl }] }] });
+
+    expect((await ask(`http://127.0.0.1:${port}/cat.jpg`)).content).toBe('A cat');
+    expect(requests[1].body.messages[0].content).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: Buffer.from('meow').toString('base64') } },
+    ]);
+
+    await expect(ask(`http://127.0.0.1:${port}/cat.svg`)).rejects.toThrow('Unsupported image type: image/svg+xml');
+    await expect(ask('data:image/bmp;base64,AAAA')).rejects.toThrow('Unsupported image type: image/bmp');
+  });
+
+  it('should list models and test the connection', async () => {
+    reply = (_request, res) =>
+      json(res, {
+        data: [{ type: 'model', id: 'claude-3-5-haiku-20241022', display_name: 'Claude 3.5 Haiku', created_at: '2024-10-22T00:00:00Z' }],
+        has_more: false,
+        first_id: 'claude-3-5-haiku-20241022',
+        last_id: 'claude-3-5-haiku-20241022',
+      });
+
+    expect(await adapter.listModels()).toEqual([
+      {
+        id: 'claude-3-5-haiku-20241022',
+        name: 'Claude 3.5 Haiku',
+        provider: 'anthropic',
+        contextWindow: 200000,
+        supportsTools: true,
+        supportsVision: true,
+        supportsStreaming: true,
+      },
+    ]);
+    expect(await adapter.testConnection()).toBe(true);
+    expect(requests.map((r) => r.url)).toEqual(['/v1/models?limit=1000', '/v1/models?limit=1']);
+  });
+
+  it('should report API errors', async () => {
+    reply = (_request, res) =>
+      json(res, { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens: too large' } }, 400);
+
+    await expect(adapter.complete({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow(
+      /^Anthropic completion failed: 400 .*max_tokens: too large/,
+    );
+    expect(await adapter.testConnection()).toBe(false);
+  });
+});
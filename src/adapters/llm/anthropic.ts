@@ -0,0 +1,396 @@
+/**
+ * Anthropic LLM Adapter
+ *
+ * Adapter for Claude models via the Anthropic Messages API
+ * (https://docs.anthropic.com)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  LLMPort,
+  LLMProviderConfig,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+  Message,
+  ToolDefinition,
+  ToolCall,
+} from '@ports/llm.js';
+
+type ContentBlock = Anthropic.Messages.MessageParam['content'] & unknown[];
+
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Every current Claude model takes tools and images, with a 200k context
+const CONTEXT_WINDOW = 200000;
+
+// Image types the Messages API accepts
+type ImageMediaType = Anthropic.Messages.ImageBlockParam.Source['media_type'];
+const IMAGE_MEDIA_TYPES: readonly string[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Usage as the API reports it; cache counts are left out of input_tokens
+interface ApiUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export class AnthropicAdapter implements LLMPort {
+  private client: Anthropic;
+  private config: LLMProviderConfig;
+
+  constructor(config: Partial<LLMProviderConfig> = {}) {
+    this.config = {
+      ...config,
+      provider: 'anthropic',
+      baseUrl: config.baseUrl || 'https://api.anthropic.com',
+      defaultModel: config.defaultModel || 'claude-3-5-sonnet-latest',
+      timeout: config.timeout || 120000, // 2 minutes
+      maxRetries: config.maxRetries ?? 2,
+    };
+
+    this.client = new Anthropic({
+      apiKey: this.config.apiKey || process.env.ANTHROPIC_API_KEY,
+      baseURL: this.config.baseUrl,
+      timeout: this.config.timeout,
+      maxRetries: this.config.maxRetries,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = request.model || this.config.defaultModel!;
+
+    try {
+      const response = await this.client.messages.create({
+        ...(await this.convertRequest(request)),
+        model,
+        stream: false,
+      }, { signal: request.signal, maxRetries: request.maxRetries });
+
+      return this.convertResponse(response);
+    } catch (error) {
+      throw new Error(`Anthropic completion failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Text arrives as deltas. A tool call is announced with its id and name
+   * when its block starts, followed by pieces of its JSON input
+   * (`argumentsDelta`), and repeated with the parsed arguments when the
+   * block ends.
+   */
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    const model = request.model || this.config.defaultModel!;
+
+    try {
+      const stream = await this.client.messages.create({
+        ...(await this.convertRequest(request)),
+        model,
+        stream: true,
+      }, { signal: request.signal, maxRetries: request.maxRetries });
+
+      let fullContent = '';
+      let finishReason: CompletionResponse['finishReason'] = 'stop';
+      let usage: ApiUsage = {};
+      let responseModel = model;
+      const toolCalls: ToolCall[] = [];
+
+      // Tool use blocks being streamed, by content block index
+      const pending = new Map<number, { id: string; name: string; json: string }>();
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            responseModel = event.message.model;
+            usage = { ...event.message.usage };
+            break;
+
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              const { id, name } = event.content_block;
+              pending.set(event.index, { id, name, json: '' });
+              yield { delta: '', toolCalls: [{ id, name }] };
+            }
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              fullContent += event.delta.text;
+              yield { delta: event.delta.text };
+            } else if (event.delta.type === 'input_json_delta') {
+              const call = pending.get(event.index);
+              if (call) {
+                call.json += event.delta.partial_json;
+                yield { delta: '', toolCalls: [{ id: call.id, argumentsDelta: event.delta.partial_json }] };
+              }
+            }
+            break;
+
+          case 'content_block_stop': {
+            const call = pending.get(event.index);
+            if (call) {
+              pending.delete(event.index);
+              const toolCall = { id: call.id, name: call.name, arguments: parseArguments(call.json) };
+              toolCalls.push(toolCall);
+              yield { delta: '', toolCalls: [toolCall] };
+            }
+            break;
+          }
+
+          case 'message_delta':
+            finishReason = this.convertStopReason(event.delta.stop_reason);
+            // Counts here are cumulative, so they replace those from message_start
+            usage = { ...usage, ...withoutNulls(event.usage as ApiUsage) };
+            yield { delta: '', finishReason };
+            break;
+        }
+      }
+
+      return {
+        content: fullContent,
+        role: 'assistant',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason,
+        usage: this.convertUsage(usage),
+        model: responseModel,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic streaming failed: ${(error as Error).message}`);
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await this.client.get<unknown, { data: Array<{ id: string; display_name?: string }> }>(
+        '/v1/models',
+        { query: { limit: 1000 } },
+      );
+
+      return response.data.map((model) => ({
+        id: model.id,
+        name: model.display_name || model.id,
+        provider: 'anthropic' as const,
+        contextWindow: CONTEXT_WINDOW,
+        supportsTools: !model.id.startsWith('claude-2') && !model.id.startsWith('claude-instant'),
+        supportsVision: !model.id.startsWith('claude-2') && !model.id.startsWith('claude-instant'),
+        supportsStreaming: true,
+      }));
+    } catch (error) {
+      throw new Error(`Failed to list Anthropic models: ${(error as Error).message}`);
+    }
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo | null> {
+    try {
+      const models = await this.listModels();
+      return models.find((m) => m.id === modelId) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/v1/models', { query: { limit: 1 } });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getProvider() {
+    return this.config.provider;
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  // Helper methods
+
+  /**
+   * System messages become the top-level system prompt. Tool results go in
+   * user turns, and consecutive turns of the same role are merged, since the
+   * API expects user and assistant turns to alternate.
+   */
+  private async convertRequest(request: CompletionRequest) {
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => textOf(m.content))
+      .join('\n\n');
+
+    const messages: Anthropic.Messages.MessageParam[] = [];
+    for (const message of request.messages) {
+      if (message.role === 'system') continue;
+
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const content = await this.convertContent(message, request.signal);
+      const last = messages[messages.length - 1];
+      if (last?.role === role) {
+        (last.content as ContentBlock).push(...content);
+      } else {
+        messages.push({ role, content });
+      }
+    }
+
+    return {
+      system: system || undefined,
+      messages,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      top_p: request.topP,
+      top_k: request.topK,
+      stop_sequences: request.stopSequences,
+      tools: request.tools?.map((tool) => this.convertTool(tool)),
+      tool_choice: request.tools?.length ? this.convertToolChoice(request.toolChoice) : undefined,
+    };
+  }
+
+  private async convertContent(message: Message, signal?: AbortSignal): Promise<ContentBlock> {
+    if (message.role === 'tool') {
+      return [{ type: 'tool_result', tool_use_id: message.toolCallId ?? '', content: textOf(message.content) }];
+    }
+    if (typeof message.content === 'string') {
+      return [{ type: 'text', text: message.content }];
+    }
+
+    const blocks: ContentBlock = [];
+    for (const item of message.content) {
+      switch (item.type) {
+        case 'text':
+          blocks.push({ type: 'text', text: item.text });
+          break;
+        case 'image':
+          blocks.push(await convertImage(item.imageUrl, signal));
+          break;
+        case 'tool_use':
+          blocks.push({ type: 'tool_use', id: item.id, name: item.name, input: item.input });
+          break;
+        case 'tool_result':
+          blocks.push({ type: 'tool_result', tool_use_id: item.toolCallId, content: item.content });
+          break;
+      }
+    }
+    return blocks;
+  }
+
+  private convertTool(tool: ToolDefinition): Anthropic.Messages.Tool {
+    return {
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    };
+  }
+
+  private convertToolChoice(choice: CompletionRequest['toolChoice']): Anthropic.Messages.ToolChoice | undefined {
+    if (choice === undefined) return undefined;
+    if (choice === 'auto') return { type: 'auto' };
+    if (choice === 'required') return { type: 'any' };
+    return { type: 'tool', name: choice.name };
+  }
+
+  private convertResponse(response: Anthropic.Messages.Message): CompletionResponse {
+    const toolCalls: ToolCall[] = [];
+    let content = '';
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: (block.input as Record<string, any>) ?? {} });
+      }
+    }
+
+    return {
+      content,
+      role: 'assistant',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.convertStopReason(response.stop_reason),
+      usage: this.convertUsage(response.usage),
+      model: response.model,
+    };
+  }
+
+  private convertStopReason(reason: string | null | undefined): CompletionResponse['finishReason'] {
+    switch (reason) {
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  /**
+   * Prompt tokens include those written to and read from the prompt cache,
+   * which the API counts separately from input_tokens
+   */
+  private convertUsage(usage: ApiUsage): CompletionResponse['usage'] {
+    const promptTokens =
+      (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+    const completionTokens = usage.output_tokens || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+}
+
+function textOf(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((item) => (item.type === 'text' ? item.text : item.type === 'tool_result' ? item.content : ''))
+    .join('');
+}
+
+/**
+ * Images are sent inline as base64. Data URLs carry their data; other URLs
+ * are fetched here, as this SDK version has no URL image source.
+ */
+async function convertImage(imageUrl: string, signal?: AbortSignal): Promise<Anthropic.Messages.ImageBlockParam> {
+  let mediaType: string;
+  let data: string;
+
+  const match = /^data:(image\/[\w+.-]+);base64,(.*)$/s.exec(imageUrl);
+  if (match) {
+    [, mediaType, data] = match;
+  } else {
+    const response = await fetch(imageUrl, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image ${imageUrl}: ${response.status} ${response.statusText}`);
+    }
+    mediaType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    data = Buffer.from(await response.arrayBuffer()).toString('base64');
+  }
+
+  if (!isImageMediaType(mediaType)) {
+    throw new Error(`Unsupported image type: ${mediaType || 'unknown'}`);
+  }
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+}
+
+function isImageMediaType(mediaType: string): mediaType is ImageMediaType {
+  return IMAGE_MEDIA_TYPES.includes(mediaType);
+}
+
+function withoutNulls(usage: ApiUsage): ApiUsage {
+  return Object.fromEntries(Object.entries(usage ?? {}).filter(([, value]) => value !== null && value !== undefined));
+}
+
+// A tool call with no input streams no JSON at all
+function parseArguments(text: string): Record<string, any> {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
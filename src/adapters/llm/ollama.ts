@@ -11,12 +11,16 @@ import type {
   CompletionRequest,
   CompletionResponse,
   StreamChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
   ModelInfo,
   Message,
   ToolDefinition,
   ToolCall,
 } from '@ports/llm.js';
 
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
 export class OllamaAdapter implements LLMPort {
   private client: Ollama;
   private config: LLMProviderConfig;
@@ -40,7 +44,7 @@ export class OllamaAdapter implements LLMPort {
     const model = request.model || this.config.defaultModel!;
 
     try {
-      const response = await this.client.chat({
+      const response = await this.clientFor(request.signal).chat({
         model,
         messages: request.messages.map(this.convertMessage),
         options: {
@@ -64,7 +68,7 @@ export class OllamaAdapter implements LLMPort {
     const model = request.model || this.config.defaultModel!;
 
     try {
-      const stream = await this.client.chat({
+      const stream = await this.clientFor(request.signal).chat({
         model,
         messages: request.messages.map(this.convertMessage),
         options: {
@@ -139,6 +143,17 @@ export class OllamaAdapter implements LLMPort {
     }
   }
 
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const model = request.model || DEFAULT_EMBEDDING_MODEL;
+
+    try {
+      const response = await this.clientFor(request.signal).embed({ model, input: request.input });
+      return { embeddings: response.embeddings, model: response.model || model };
+    } catch (error) {
+      throw new Error(`Ollama embedding failed: ${(error as Error).message}`);
+    }
+  }
+
   async listModels(): Promise<ModelInfo[]> {
     try {
       const response = await this.client.list();
@@ -185,6 +200,21 @@ export class OllamaAdapter implements LLMPort {
 
   // Helper methods
 
+  /**
+   * The Ollama client only aborts streams, and only through its own
+   * controller, so a request with a signal gets a client whose fetch
+   * follows the signal too
+   */
+  private clientFor(signal?: AbortSignal): Ollama {
+    if (!signal) return this.client;
+
+    return new Ollama({
+      host: this.config.baseUrl,
+      fetch: (input, init) =>
+        fetch(input, { ...init, signal: init?.signal ? anySignal([init.signal, signal]) : signal }),
+    });
+  }
+
   private convertMessage(message: Message): any {
     if (typeof message.content === 'string') {
       return {
@@ -269,3 +299,19 @@ export class OllamaAdapter implements LLMPort {
     return visionModels.some((m) => modelName.toLowerCase().includes(m));
   }
 }
+
+/**
+ * Aborts as soon as one of the signals does; AbortSignal.any needs Node 20.3
+ */
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    // Listeners go away once the combined signal aborts
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+  return controller.signal;
+}
@@ -0,0 +1,232 @@
+/**
+ * Tests for the OpenAI Adapter, against a local mock of the API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAIAdapter } from './openai.js';
+import type { StreamChunk } from '@ports/llm.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type Reply = (request: RecordedRequest, res: http.ServerResponse) => void;
+
+function json(res: http.ServerResponse, body: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function events(res: http.ServerResponse, chunks: unknown[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const chunk of chunks) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+function chunk(delta: Record<string, any>, finishReason: string | null = null) {
+  return { id: 'chunk', object: 'chat.completion.chunk', created: 0, model: 'local-model', choices: [{ index: 0, delta, finish_reason: finishReason }] };
+}
+
+describe('OpenAIAdapter', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let reply: Reply;
+  let adapter: OpenAIAdapter;
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (data) => (body += data));
+      req.on('end', () => {
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : null };
+        requests.push(request);
+        reply(request, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    adapter = new OpenAIAdapter({ baseUrl: `http://127.0.0.1:${port}/v1`, apiKey: 'test-key', defaultModel: 'local-model', maxRetries: 0 });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should map messages, tools and tool choice, and parse tool calls', async () => {
+    reply = (_request, res) =>
+      json(res, {
+        id: 'cmpl',
+        object: 'chat.completion',
+        created: 0,
+        model: 'local-model',
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'tool_calls',
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"city":"Oslo"}' } }],
+            },
+          },
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      });
+
+    const response = await adapter.complete({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', imageUrl: 'data:image/png;base64,AAAA' },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'call_1', name: 'lookup', input: { city: 'Bergen' } },
+          ],
+        },
+        { role: 'tool', content: 'Rainy', toolCallId: 'call_1' },
+      ],
+      tools: [{ name: 'lookup', description: 'Weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } }],
+      toolChoice: { name: 'lookup' },
+      temperature: 0.2,
+      maxTokens: 100,
+    });
+
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(requests[0].body).toEqual({
+      model: 'local-model',
+      stream: false,
+      temperature: 0.2,
+      max_tokens: 100,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: 'Let me check.',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"city":"Bergen"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Rainy' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: { name: 'lookup', description: 'Weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+        },
+      ],
+      tool_choice: { type: 'function', function: { name: 'lookup' } },
+    });
+
+    expect(response).toEqual({
+      content: '',
+      role: 'assistant',
+      toolCalls: [{ id: 'call_2', name: 'lookup', arguments: { city: 'Oslo' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      model: 'local-model',
+    });
+  });
+
+  it('should stream content deltas and assemble tool calls', async () => {
+    reply = (_request, res) =>
+      events(res, [
+        chunk({ role: 'assistant', content: 'Hel' }),
+        chunk({ content: 'lo' }),
+        chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'look', arguments: '{"ci' } }] }),
+        chunk({ tool_calls: [{ index: 0, function: { name: 'up', arguments: 'ty":"Oslo"}' } }] }),
+        chunk({}, 'tool_calls'),
+        { ...chunk({}), choices: [], usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 } },
+      ]);
+
+    const stream = adapter.stream({ messages: [{ role: 'user', content: 'Hi' }] });
+    const chunks: StreamChunk[] = [];
+    let result = await stream.next();
+    while (!result.done) {
+      chunks.push(result.value);
+      result = await stream.next();
+    }
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+    expect(chunks).toEqual([
+      { delta: 'Hel' },
+      { delta: 'lo' },
+      { delta: '', toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { city: 'Oslo' } }], finishReason: 'tool_calls' },
+    ]);
+    expect(result.value).toEqual({
+      content: 'Hello',
+      role: 'assistant',
+      toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { city: 'Oslo' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 },
+      model: 'local-model',
+    });
+  });
+
+  it('should list models and test the connection', async () => {
+    reply = (_request, res) =>
+      json(res, {
+        object: 'list',
+        data: [
+          { id: 'gpt-4o-mini', object: 'model', created: 0, owned_by: 'openai' },
+          { id: 'qwen2.5-7b', object: 'model', created: 0, owned_by: 'local' },
+        ],
+      });
+
+    const models = await adapter.listModels();
+    expect(models.map((m) => [m.id, m.contextWindow, m.supportsTools, m.supportsVision])).toEqual([
+      ['gpt-4o-mini', 128000, true, true],
+      ['qwen2.5-7b', 8192, false, false],
+    ]);
+    expect(await adapter.getModelInfo('qwen2.5-7b')).toMatchObject({ provider: 'openai', supportsStreaming: true });
+    expect(await adapter.testConnection()).toBe(true);
+    expect(adapter.getConfig()).toMatchObject({ provider: 'openai', defaultModel: 'local-model' });
+  });
+
+  it('should report API errors', async () => {
+    reply = (_request, res) => json(res, { error: { message: 'model not loaded', type: 'invalid_request_error' } }, 400);
+
+    await expect(adapter.complete({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow(
+      'OpenAI completion failed: 400 model not loaded',
+    );
+    expect(await adapter.testConnection()).toBe(false);
+  });
+
+  it('should leave retries to the caller when the request asks it to', async () => {
+    reply = (_request, res) => {
+      res.writeHead(503, { 'Content-Type': 'application/json', 'retry-after-ms': '1' });
+      res.end(JSON.stringify({ error: { message: 'overloaded' } }));
+    };
+    const { port } = server.address() as AddressInfo;
+    const retrying = new OpenAIAdapter({ baseUrl: `http://127.0.0.1:${port}/v1`, apiKey: 'test-key', maxRetries: 1 });
+    const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+    await expect(retrying.complete({ messages })).rejects.toThrow('503');
+    expect(requests).toHaveLength(2);
+
+    await expect(retrying.complete({ messages, maxRetries: 0 })).rejects.toThrow('503');
+    expect(requests).toHaveLength(3);
+  });
+});
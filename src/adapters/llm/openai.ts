@@ -0,0 +1,343 @@
+/**
+ * OpenAI LLM Adapter
+ *
+ * Adapter for the OpenAI Chat Completions API (https://platform.openai.com).
+ * Set `baseUrl` to use any OpenAI-compatible server instead, such as
+ * llama.cpp, vLLM, LM Studio or Ollama's /v1 endpoint, and
+ * `options.headers` for any extra headers it needs.
+ */
+
+import OpenAI from 'openai';
+import type {
+  LLMPort,
+  LLMProviderConfig,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+  Message,
+  ToolDefinition,
+  ToolCall,
+} from '@ports/llm.js';
+
+type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
+type ChatContentPart = OpenAI.Chat.ChatCompletionContentPart;
+
+// Known models by id prefix, most specific first; other models (such as
+// those of local servers) get conservative defaults
+const KNOWN_MODELS: Array<{ prefix: string; contextWindow: number; supportsTools: boolean; supportsVision: boolean }> = [
+  { prefix: 'gpt-4.1', contextWindow: 1047576, supportsTools: true, supportsVision: true },
+  { prefix: 'gpt-4o', contextWindow: 128000, supportsTools: true, supportsVision: true },
+  { prefix: 'gpt-4-turbo', contextWindow: 128000, supportsTools: true, supportsVision: true },
+  { prefix: 'gpt-4', contextWindow: 8192, supportsTools: true, supportsVision: false },
+  { prefix: 'gpt-3.5-turbo', contextWindow: 16385, supportsTools: true, supportsVision: false },
+  { prefix: 'o1', contextWindow: 200000, supportsTools: true, supportsVision: true },
+  { prefix: 'o3', contextWindow: 200000, supportsTools: true, supportsVision: true },
+  { prefix: 'o4', contextWindow: 200000, supportsTools: true, supportsVision: true },
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export class OpenAIAdapter implements LLMPort {
+  protected client: OpenAI;
+  protected config: LLMProviderConfig;
+
+  // Service name used in error messages
+  protected readonly label: string = 'OpenAI';
+
+  constructor(config: Partial<LLMProviderConfig> = {}) {
+    this.config = {
+      ...config,
+      provider: 'openai',
+      baseUrl: config.baseUrl || 'https://api.openai.com/v1',
+      defaultModel: config.defaultModel || 'gpt-4o-mini',
+      timeout: config.timeout || 60000, // 1 minute
+      maxRetries: config.maxRetries ?? 2,
+    };
+
+    this.client = new OpenAI({
+      // OpenAI-compatible local servers usually accept any key
+      apiKey: this.config.apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+      baseURL: this.config.baseUrl,
+      timeout: this.config.timeout,
+      maxRetries: this.config.maxRetries,
+      defaultHeaders: this.config.options?.headers,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = request.model || this.config.defaultModel!;
+
+    try {
+      const response = await this.client.chat.completions.create({
+        ...this.convertRequest(request),
+        model,
+        stream: false,
+      }, { signal: request.signal, maxRetries: request.maxRetries });
+
+      return this.convertResponse(response);
+    } catch (error) {
+      throw new Error(`${this.label} completion failed: ${(error as Error).message}`);
+    }
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    const model = request.model || this.config.defaultModel!;
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.convertRequest(request),
+        model,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: request.signal, maxRetries: request.maxRetries });
+
+      let fullContent = '';
+      let finishReason: CompletionResponse['finishReason'] = 'stop';
+      let usage: CompletionResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let responseModel = model;
+
+      // Tool calls arrive in pieces, keyed by their index in the message
+      const pending = new Map<number, { id: string; name: string; arguments: string }>();
+
+      for await (const chunk of stream) {
+        responseModel = chunk.model || responseModel;
+        if (chunk.usage) {
+          usage = this.convertUsage(chunk.usage);
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        for (const delta of choice.delta?.tool_calls ?? []) {
+          const call = pending.get(delta.index) ?? { id: '', name: '', arguments: '' };
+          call.id = delta.id || call.id;
+          call.name += delta.function?.name ?? '';
+          call.arguments += delta.function?.arguments ?? '';
+          pending.set(delta.index, call);
+        }
+
+        if (choice.delta?.content) {
+          fullContent += choice.delta.content;
+          yield { delta: choice.delta.content };
+        }
+
+        if (choice.finish_reason) {
+          finishReason = this.convertFinishReason(choice.finish_reason);
+          yield {
+            delta: '',
+            toolCalls: pending.size > 0 ? this.completeToolCalls(pending) : undefined,
+            finishReason,
+          };
+        }
+      }
+
+      const toolCalls = this.completeToolCalls(pending);
+      return {
+        content: fullContent,
+        role: 'assistant',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason,
+        usage,
+        model: responseModel,
+      };
+    } catch (error) {
+      throw new Error(`${this.label} streaming failed: ${(error as Error).message}`);
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const models: ModelInfo[] = [];
+      for await (const model of this.client.models.list()) {
+        const known = KNOWN_MODELS.find((m) => model.id.startsWith(m.prefix));
+        models.push({
+          id: model.id,
+          name: model.id,
+          provider: 'openai',
+          contextWindow: known?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+          supportsTools: known?.supportsTools ?? false,
+          supportsVision: known?.supportsVision ?? false,
+          supportsStreaming: true,
+        });
+      }
+      return models;
+    } catch (error) {
+      throw new Error(`Failed to list ${this.label} models: ${(error as Error).message}`);
+    }
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo | null> {
+    try {
+      const models = await this.listModels();
+      return models.find((m) => m.id === modelId) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getProvider() {
+    return this.config.provider;
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  // Helper methods
+
+  private convertRequest(request: CompletionRequest) {
+    return {
+      messages: request.messages.flatMap((message) => this.convertMessage(message)),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      stop: request.stopSequences,
+      tools: request.tools?.map((tool) => this.convertTool(tool)),
+      tool_choice: request.tools?.length ? this.convertToolChoice(request.toolChoice) : undefined,
+    };
+  }
+
+  /**
+   * One message may become several: OpenAI sends each tool result as its own
+   * `tool` message, and tool calls ride on the assistant message
+   */
+  private convertMessage(message: Message): ChatMessage[] {
+    const name = message.name ? { name: message.name } : {};
+
+    if (message.role === 'tool') {
+      return [{ role: 'tool', tool_call_id: message.toolCallId ?? '', content: textOf(message.content) }];
+    }
+
+    if (typeof message.content === 'string') {
+      return [{ role: message.role, content: message.content, ...name } as ChatMessage];
+    }
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content.flatMap((item) =>
+        item.type === 'tool_use'
+          ? [{ id: item.id, type: 'function' as const, function: { name: item.name, arguments: JSON.stringify(item.input) } }]
+          : [],
+      );
+      return [
+        {
+          role: 'assistant',
+          content: textOf(message.content) || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          ...name,
+        },
+      ];
+    }
+
+    const results: ChatMessage[] = [];
+    const parts: ChatContentPart[] = [];
+    for (const item of message.content) {
+      if (item.type === 'text') {
+        parts.push({ type: 'text', text: item.text });
+      } else if (item.type === 'image') {
+        parts.push({ type: 'image_url', image_url: { url: item.imageUrl } });
+      } else if (item.type === 'tool_result') {
+        results.push({ role: 'tool', tool_call_id: item.toolCallId, content: item.content });
+      }
+    }
+
+    if (parts.length === 0) return results;
+    if (message.role === 'system') {
+      return [...results, { role: 'system', content: textOf(message.content), ...name }];
+    }
+    return [...results, { role: 'user', content: parts, ...name }];
+  }
+
+  private convertTool(tool: ToolDefinition): OpenAI.Chat.ChatCompletionTool {
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    };
+  }
+
+  private convertToolChoice(
+    choice: CompletionRequest['toolChoice'],
+  ): OpenAI.Chat.ChatCompletionToolChoiceOption | undefined {
+    if (choice === undefined || typeof choice === 'string') return choice;
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  private convertResponse(response: OpenAI.Chat.ChatCompletion): CompletionResponse {
+    const choice = response.choices[0];
+    const toolCalls: ToolCall[] = (choice?.message.tool_calls ?? []).map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      arguments: parseArguments(tc.function.arguments),
+    }));
+
+    return {
+      content: choice?.message.content || '',
+      role: 'assistant',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.convertFinishReason(choice?.finish_reason),
+      usage: this.convertUsage(response.usage),
+      model: response.model,
+    };
+  }
+
+  private convertFinishReason(reason: string | null | undefined): CompletionResponse['finishReason'] {
+    switch (reason) {
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  private convertUsage(usage: OpenAI.CompletionUsage | undefined): CompletionResponse['usage'] {
+    return {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0,
+    };
+  }
+
+  private completeToolCalls(pending: Map<number, { id: string; name: string; arguments: string }>): ToolCall[] {
+    return Array.from(pending.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({
+        id: call.id || `tool_${index}`,
+        name: call.name,
+        arguments: parseArguments(call.arguments),
+      }));
+  }
+}
+
+function textOf(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((item) => (item.type === 'text' ? item.text : item.type === 'tool_result' ? item.content : ''))
+    .join('');
+}
+
+// Models sometimes produce invalid JSON arguments; treat them as empty
+function parseArguments(text: string): Record<string, any> {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for the OpenRouter Adapter, against a local mock of the API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { OpenRouterAdapter } from './openrouter.js';
+import { JsonStorage } from '../json-storage.js';
+
+const CATALOG = {
+  data: [
+    {
+      id: 'openai/gpt-4o-mini',
+      name: 'OpenAI: GPT-4o-mini',
+      context_length: 128000,
+      pricing: { prompt: '0.00000015', completion: '0.0000006' },
+      architecture: { modality: 'text+image->text', input_modalities: ['text', 'image'] },
+      supported_parameters: ['tools', 'tool_choice', 'temperature'],
+    },
+    {
+      id: 'meta-llama/llama-3-8b-instruct',
+      name: 'Meta: Llama 3 8B Instruct',
+      context_length: 8192,
+      pricing: { prompt: '0', completion: '0' },
+      architecture: { modality: 'text->text' },
+      supported_parameters: ['temperature'],
+    },
+    {
+      id: 'openrouter/auto',
+      name: 'Auto Router',
+      context_length: 2000000,
+      pricing: { prompt: '-1', completion: '-1' },
+      architecture: { input_modalities: ['text', 'image'] },
+    },
+    {
+      id: 'acme/unlisted',
+      pricing: { prompt: '', completion: '0.000001' },
+    },
+  ],
+};
+
+describe('OpenRouterAdapter', () => {
+  let server: http.Server;
+  let requests: Array<{ url: string; headers: http.IncomingHttpHeaders }>;
+  let failing: boolean;
+  let baseUrl: string;
+  let storage: JsonStorage;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-openrouter-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+
+    requests = [];
+    failing = false;
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url!, headers: req.headers });
+      req.resume();
+      req.on('end', () => {
+        if (failing) {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'unavailable', code: 503 } }));
+        } else if (req.url === '/api/v1/models') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(CATALOG));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              id: 'gen-1',
+              object: 'chat.completion',
+              created: 0,
+              model: 'openai/gpt-4o-mini',
+              choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Hi!' } }],
+              usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+            }),
+          );
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should fill in model info and pricing from the catalog', async () => {
+    const adapter = new OpenRouterAdapter({ baseUrl, apiKey: 'test-key', maxRetries: 0 }, { storage });
+    const models = await adapter.listModels();
+
+    expect(models[0]).toEqual({
+      id: 'openai/gpt-4o-mini',
+      name: 'OpenAI: GPT-4o-mini',
+      provider: 'openrouter',
+      contextWindow: 128000,
+      supportsTools: true,
+      supportsVision: true,
+      supportsStreaming: true,
+      costPer1kTokens: { prompt: expect.closeTo(0.00015, 10), completion: expect.closeTo(0.0006, 10) },
+    });
+    expect(models[1]).toMatchObject({ supportsTools: false, supportsVision: false, costPer1kTokens: { prompt: 0, completion: 0 } });
+    expect(models[2]).toMatchObject({ supportsTools: true, supportsVision: true, costPer1kTokens: undefined });
+
+    // Parameters or prices left out are unknown rather than absent or free
+    expect(models[3]).toMatchObject({ name: 'acme/unlisted', supportsTools: true, costPer1kTokens: undefined });
+
+    // Served from memory until the catalog is stale
+    await adapter.listModels();
+    expect(requests.filter((r) => r.url === '/api/v1/models')).toHaveLength(1);
+  });
+
+  it('should use the cached catalog when OpenRouter cannot be reached', async () => {
+    await new OpenRouterAdapter({ baseUrl, apiKey: 'test-key', maxRetries: 0 }, { storage }).listModels();
+    failing = true;
+
+    // A new instance reads the cache from storage; a stale one falls back to it
+    const offline = new OpenRouterAdapter({ baseUrl, apiKey: 'test-key', maxRetries: 0 }, { storage, catalogMaxAge: 0 });
+    expect((await offline.listModels()).map((m) => m.id)).toEqual(CATALOG.data.map((m) => m.id));
+    expect(await offline.estimateCost({ model: 'openai/gpt-4o-mini', usage: { promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 } })).toBeCloseTo(0.0009, 10);
+    expect(await offline.estimateCost({ model: 'openrouter/auto', usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } })).toBeNull();
+
+    await expect(offline.refreshCatalog()).rejects.toThrow('Failed to list OpenRouter models: 503');
+    await expect(new OpenRouterAdapter({ baseUrl, maxRetries: 0 }).listModels()).rejects.toThrow('Failed to list OpenRouter models');
+  });
+
+  it('should complete through the OpenAI-compatible API', async () => {
+    const adapter = new OpenRouterAdapter(
+      { baseUrl, apiKey: 'test-key', maxRetries: 0, options: { headers: { 'X-Title': 'inkhat' } } },
+      { storage },
+    );
+
+    const response = await adapter.complete({ messages: [{ role: 'user', content: 'Hello' }] });
+    expect(response.content).toBe('Hi!');
+    expect(await adapter.estimateCost(response)).toBeCloseTo(0.00045, 10);
+    expect(adapter.getProvider()).toBe('openrouter');
+
+    const completion = requests.find((r) => r.url === '/api/v1/chat/completions')!;
+    expect(completion.headers.authorization).toBe('Bearer test-key');
+    expect(completion.headers['x-title']).toBe('inkhat');
+
+    failing = true;
+    await expect(adapter.complete({ messages: [{ role: 'user', content: 'Hello' }] })).rejects.toThrow(
+      'OpenRouter completion failed: 503',
+    );
+  });
+});
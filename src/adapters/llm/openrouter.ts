@@ -0,0 +1,149 @@
+/**
+ * OpenRouter LLM Adapter
+ *
+ * Adapter for OpenRouter (https://openrouter.ai), which serves models from
+ * many providers behind an OpenAI-compatible API. Its model catalog lists
+ * each model's context window, capabilities and pricing; the catalog is
+ * cached through the StoragePort so model info and costs are available
+ * offline.
+ */
+
+import type { LLMProviderConfig, CompletionResponse, ModelInfo } from '@ports/llm.js';
+import type { StoragePort } from '@ports/storage.js';
+import { OpenAIAdapter } from './openai.js';
+
+const CATALOG_KEY = 'llm-catalogs/openrouter';
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Model as listed by GET /models. Prices are USD per token, as strings;
+ * negative prices mean the price depends on the model routed to.
+ */
+interface OpenRouterModel {
+  id: string;
+  name?: string;
+  context_length?: number;
+  pricing?: { prompt?: string; completion?: string };
+  architecture?: { modality?: string; input_modalities?: string[] };
+  supported_parameters?: string[];
+}
+
+export interface ModelCatalog {
+  fetched: string; // ISO timestamp
+  models: ModelInfo[];
+}
+
+export interface OpenRouterAdapterOptions {
+  storage?: StoragePort<any>; // Where the catalog is cached (not cached without it)
+  catalogMaxAge?: number; // ms before the cached catalog is refreshed (default 1 day)
+}
+
+export class OpenRouterAdapter extends OpenAIAdapter {
+  protected readonly label = 'OpenRouter';
+
+  private storage?: StoragePort<any>;
+  private catalogMaxAge: number;
+  private catalog: ModelCatalog | null = null;
+
+  constructor(config: Partial<LLMProviderConfig> = {}, options: OpenRouterAdapterOptions = {}) {
+    super({
+      ...config,
+      apiKey: config.apiKey || process.env.OPENROUTER_API_KEY,
+      baseUrl: config.baseUrl || 'https://openrouter.ai/api/v1',
+      defaultModel: config.defaultModel || 'openrouter/auto',
+    });
+    this.config.provider = 'openrouter';
+
+    this.storage = options.storage;
+    this.catalogMaxAge = options.catalogMaxAge ?? DAY;
+  }
+
+  /**
+   * Models from the catalog, fetched again once the cached copy is older
+   * than `catalogMaxAge`. When OpenRouter cannot be reached, the cached
+   * catalog is used however old it is.
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const cached = await this.loadCatalog();
+    if (cached && Date.now() - new Date(cached.fetched).getTime() < this.catalogMaxAge) {
+      return cached.models;
+    }
+
+    try {
+      return (await this.refreshCatalog()).models;
+    } catch (error) {
+      if (cached) return cached.models;
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the catalog and cache it
+   */
+  async refreshCatalog(): Promise<ModelCatalog> {
+    let models: ModelInfo[];
+    try {
+      const response = (await this.client.get('/models')) as { data: OpenRouterModel[] };
+      models = response.data.map(convertModel);
+    } catch (error) {
+      throw new Error(`Failed to list ${this.label} models: ${(error as Error).message}`);
+    }
+
+    this.catalog = { fetched: new Date().toISOString(), models };
+    await this.storage?.write(CATALOG_KEY, this.catalog);
+    return this.catalog;
+  }
+
+  /**
+   * Cost of a completion in USD from the catalog's pricing, or null when the
+   * model's price is unknown
+   */
+  async estimateCost(response: Pick<CompletionResponse, 'model' | 'usage'>): Promise<number | null> {
+    const model = await this.getModelInfo(response.model);
+    if (!model?.costPer1kTokens) return null;
+
+    const { prompt, completion } = model.costPer1kTokens;
+    return (response.usage.promptTokens * prompt + response.usage.completionTokens * completion) / 1000;
+  }
+
+  private async loadCatalog(): Promise<ModelCatalog | null> {
+    if (!this.catalog && this.storage) {
+      this.catalog = await this.storage.read(CATALOG_KEY);
+    }
+    return this.catalog;
+  }
+}
+
+/**
+ * A model missing from the catalog's details is assumed to take tools, as
+ * the router does for models it cannot look up
+ */
+function convertModel(model: OpenRouterModel): ModelInfo {
+  const inputs = model.architecture?.input_modalities ?? model.architecture?.modality?.split('->')[0].split('+') ?? [];
+  const prompt = parsePrice(model.pricing?.prompt);
+  const completion = parsePrice(model.pricing?.completion);
+
+  return {
+    id: model.id,
+    name: model.name || model.id,
+    provider: 'openrouter',
+    contextWindow: model.context_length || 0,
+    supportsTools: model.supported_parameters?.includes('tools') ?? true,
+    supportsVision: inputs.includes('image'),
+    supportsStreaming: true,
+    costPer1kTokens:
+      prompt !== undefined && completion !== undefined
+        ? { prompt: prompt * 1000, completion: completion * 1000 }
+        : undefined,
+  };
+}
+
+/**
+ * USD per token, or undefined when the catalog gives no price (missing or
+ * blank) or a variable one (negative)
+ */
+function parsePrice(price?: string): number | undefined {
+  if (!price?.trim()) return undefined;
+  const value = Number(price);
+  return value >= 0 ? value : undefined;
+}
@@ -0,0 +1,261 @@
+/**
+ * Tests for the LLM Router
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DefaultLLMRouter, LLMRouterError, isRetryableError, type RouterEvent } from './router.js';
+import type {
+  LLMPort,
+  LLMProviderConfig,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+} from '@ports/llm.js';
+
+type Behaviour = () => Promise<string>;
+
+class FakeProvider implements LLMPort {
+  calls = 0;
+  requests: CompletionRequest[] = [];
+
+  constructor(
+    private behaviours: Behaviour[],
+    private config: Partial<LLMProviderConfig> = {},
+    private model?: Partial<ModelInfo>,
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(request);
+    const behaviour = this.behaviours[Math.min(this.calls++, this.behaviours.length - 1)];
+    return {
+      content: await behaviour(),
+      role: 'assistant',
+      finishReason: 'stop',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: request.model || 'fake',
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    return this.complete(request);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return this.model ? [(await this.getModelInfo('fake'))!] : [];
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo | null> {
+    if (!this.model) return null;
+    return {
+      id: modelId,
+      name: modelId,
+      provider: 'fake',
+      contextWindow: 8192,
+      supportsTools: true,
+      supportsVision: true,
+      supportsStreaming: true,
+      ...this.model,
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider() {
+    return 'custom' as const;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return { provider: 'custom', defaultModel: 'fake', ...this.config };
+  }
+}
+
+const ok = (content: string): Behaviour => async () => content;
+const fail = (message: string): Behaviour => async () => {
+  throw new Error(message);
+};
+const hang: Behaviour = () => new Promise(() => {});
+
+const request: CompletionRequest = { messages: [{ role: 'user', content: 'Hi' }] };
+
+describe('DefaultLLMRouter', () => {
+  it('should retry retryable errors with exponential backoff', async () => {
+    const events: RouterEvent[] = [];
+    const router = new DefaultLLMRouter({ baseDelay: 1, onEvent: (e) => events.push(e) });
+    const flaky = new FakeProvider([fail('Ollama API error: 503 Service Unavailable'), fail('fetch failed'), ok('Hello')], {
+      maxRetries: 3,
+    });
+    router.addProvider('flaky', flaky);
+
+    expect((await router.route('flaky', request)).content).toBe('Hello');
+    expect(flaky.calls).toBe(3);
+    expect(events.map((e) => [e.type, e.attempt, e.delay])).toEqual([
+      ['retry', 1, 1],
+      ['retry', 2, 2],
+    ]);
+
+    // Errors that will not go away are thrown straight away
+    const invalid = new FakeProvider([fail('OpenAI completion failed: 400 invalid model')]);
+    router.addProvider('invalid', invalid);
+    await expect(router.route('invalid', request)).rejects.toThrow('400 invalid model');
+    expect(invalid.calls).toBe(1);
+
+    await expect(router.route('missing', request)).rejects.toMatchObject({ reason: 'unknown-provider' });
+  });
+
+  it('should enforce the provider timeout', async () => {
+    const router = new DefaultLLMRouter({ baseDelay: 1 });
+    const slow = new FakeProvider([hang], { timeout: 20, maxRetries: 1 });
+    router.addProvider('slow', slow);
+
+    const error = await router.route('slow', request).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMRouterError);
+    expect(error).toMatchObject({ reason: 'timeout', provider: 'slow' });
+    expect(error.message).toBe('LLM provider "slow" timed out after 20ms');
+    expect(slow.calls).toBe(2);
+
+    // Each attempt is cancelled when it runs out of time, and is the only
+    // request made: the provider's client does not retry on its own
+    expect(slow.requests.map((r) => [r.signal?.aborted, r.maxRetries])).toEqual([
+      [true, 0],
+      [true, 0],
+    ]);
+    expect(slow.requests[0].signal?.reason).toMatchObject({ reason: 'timeout' });
+  });
+
+  it('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    const events: string[] = [];
+    const router = new DefaultLLMRouter({
+      baseDelay: 1,
+      failureThreshold: 2,
+      resetTimeout: 30,
+      onEvent: (e) => events.push(e.type),
+    });
+    const down = new FakeProvider([fail('ECONNREFUSED'), fail('ECONNREFUSED'), ok('Back')], { maxRetries: 5 });
+    router.addProvider('down', down);
+
+    // The retries stop once the circuit opens
+    await expect(router.route('down', request)).rejects.toThrow('ECONNREFUSED');
+    expect(down.calls).toBe(2);
+    expect(router.getCircuitState('down')).toBe('open');
+    await expect(router.route('down', request)).rejects.toMatchObject({ reason: 'circuit-open' });
+    expect(down.calls).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(router.getCircuitState('down')).toBe('half-open');
+    expect((await router.route('down', request)).content).toBe('Back');
+    expect(router.getCircuitState('down')).toBe('closed');
+    expect(events).toEqual(['retry', 'circuit-open', 'circuit-closed']);
+  });
+
+  it('should not retry or count aborted requests', async () => {
+    const router = new DefaultLLMRouter({ baseDelay: 1, failureThreshold: 1 });
+    const slow = new FakeProvider([hang], { maxRetries: 3 });
+    router.addProvider('slow', slow);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('Stopped')), 10);
+    await expect(router.routeWithFallback(['slow', 'slow'], { ...request, signal: controller.signal })).rejects.toThrow(
+      'Stopped',
+    );
+    expect(slow.calls).toBe(1);
+    expect(router.getCircuitState('slow')).toBe('closed');
+
+    // Already aborted requests never reach the provider
+    await expect(router.route('slow', { ...request, signal: controller.signal })).rejects.toThrow('Stopped');
+    expect(slow.calls).toBe(1);
+  });
+
+  it('should retry streams until the first chunk and time out stalled ones', async () => {
+    const events: string[] = [];
+    const router = new DefaultLLMRouter({ baseDelay: 1, failureThreshold: 2, onEvent: (e) => events.push(e.type) });
+    const flaky = new FakeProvider([fail('fetch failed'), ok('Hello')], { maxRetries: 1 });
+    router.addProvider('flaky', flaky);
+
+    const stream = router.routeStream('flaky', request);
+    expect(await stream.next()).toMatchObject({ done: true, value: { content: 'Hello' } });
+    expect(flaky.calls).toBe(2);
+    expect(events).toEqual(['retry']);
+
+    // Once a chunk was read, a failure is thrown rather than retried
+    class StallingProvider extends FakeProvider {
+      async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+        this.calls++;
+        this.requests.push(request);
+        yield { delta: 'Hel' };
+        return hang() as never;
+      }
+    }
+    const stalling = new StallingProvider([], { timeout: 20, maxRetries: 3 });
+    router.addProvider('stalling', stalling);
+
+    const stalled = router.routeStream('stalling', request);
+    expect((await stalled.next()).value).toEqual({ delta: 'Hel' });
+    await expect(stalled.next()).rejects.toMatchObject({ reason: 'timeout', provider: 'stalling' });
+    expect(stalling.calls).toBe(1);
+    expect(stalling.requests[0].signal?.aborted).toBe(true);
+
+    // Stalled streams count towards the circuit breaker
+    const again = router.routeStream('stalling', request);
+    await again.next();
+    await expect(again.next()).rejects.toMatchObject({ reason: 'timeout' });
+    expect(router.getCircuitState('stalling')).toBe('open');
+    await expect(router.routeStream('stalling', request).next()).rejects.toMatchObject({ reason: 'circuit-open' });
+  });
+
+  it('should fall back to the next provider and skip models lacking a needed capability', async () => {
+    const events: RouterEvent[] = [];
+    const router = new DefaultLLMRouter({ onEvent: (e) => events.push(e) });
+    const primary = new FakeProvider([fail('429 rate limit exceeded')], { maxRetries: 0 });
+    const textOnly = new FakeProvider([ok('text only')], {}, { supportsTools: false, supportsVision: false });
+    const unknown = new FakeProvider([ok('unknown model')]);
+    router.addProvider('primary', primary);
+    router.addProvider('text-only', textOnly);
+    router.addProvider('unknown', unknown);
+
+    expect(await router.routeWithFallback(['primary', 'text-only'], request)).toMatchObject({
+      provider: 'text-only',
+      response: { content: 'text only' },
+    });
+
+    const withTools: CompletionRequest = {
+      ...request,
+      tools: [{ name: 'search', description: 'Search', parameters: { type: 'object' } }],
+    };
+    expect(await router.routeWithFallback(['primary', 'text-only', 'unknown'], withTools)).toMatchObject({
+      provider: 'unknown',
+    });
+    expect(textOnly.calls).toBe(1);
+    expect(events.slice(-2)).toEqual([
+      { type: 'fallback', provider: 'primary', reason: '429 rate limit exceeded' },
+      { type: 'skipped', provider: 'text-only', reason: 'model does not support tools' },
+    ]);
+
+    const withImage: CompletionRequest = {
+      messages: [{ role: 'user', content: [{ type: 'image', imageUrl: 'data:image/png;base64,AAAA' }] }],
+      tools: withTools.tools,
+    };
+    const error = await router.routeWithFallback(['primary', 'text-only', 'missing'], withImage).catch((e) => e);
+    expect(error).toMatchObject({ reason: 'exhausted' });
+    expect(error.message).toBe(
+      'All LLM providers failed:\n' +
+        '  primary: 429 rate limit exceeded\n' +
+        '  text-only: model does not support tools or vision\n' +
+        '  missing: not registered',
+    );
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should recognise transient failures', () => {
+    expect(isRetryableError(Object.assign(new Error('Overloaded'), { status: 529 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+    expect(isRetryableError(new Error('Anthropic completion failed: 529 overloaded_error'))).toBe(true);
+    expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true);
+    expect(isRetryableError(new Error('Request timed out.'))).toBe(true);
+    expect(isRetryableError(new Error('OpenAI completion failed: 401 Incorrect API key'))).toBe(false);
+    expect(isRetryableError(new LLMRouterError('Circuit open', 'circuit-open', 'x'))).toBe(false);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * LLM Router
+ *
+ * Sends completions to named providers with the resilience the adapters
+ * leave out: each provider's `timeout` is enforced by aborting the attempt,
+ * retryable errors are retried up to its `maxRetries` with exponential
+ * backoff (the provider's own client is asked not to retry, so the two do
+ * not multiply), and a circuit breaker stops calling a provider that keeps
+ * failing. Fallback chains try providers in order, skipping those whose
+ * model lacks a capability the request needs. Streams get the same treatment, with the timeout applying
+ * to each chunk.
+ */
+
+import type {
+  LLMPort,
+  LLMRouter,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+} from '@ports/llm.js';
+
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+
+export type Capability = 'tools' | 'vision';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class LLMRouterError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'unknown-provider' | 'circuit-open' | 'timeout' | 'exhausted',
+    readonly provider?: string,
+  ) {
+    super(message);
+    this.name = 'LLMRouterError';
+  }
+}
+
+export interface RouterEvent {
+  type: 'retry' | 'fallback' | 'skipped' | 'circuit-open' | 'circuit-closed';
+  provider: string;
+  attempt?: number; // Failed attempt being retried (1-based)
+  delay?: number; // ms before the retry
+  reason?: string;
+}
+
+export interface LLMRouterOptions {
+  timeout?: number; // ms, for providers without a configured timeout (default 60s)
+  maxRetries?: number; // For providers without configured maxRetries (default 2)
+  baseDelay?: number; // ms before the first retry, doubled for each one after (default 500)
+  maxDelay?: number; // Longest delay between retries (default 8s)
+  failureThreshold?: number; // Consecutive failures that open a provider's circuit (default 5)
+  resetTimeout?: number; // ms an open circuit waits before letting a trial call through (default 30s)
+  onEvent?: (event: RouterEvent) => void;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+}
+
+export class DefaultLLMRouter implements LLMRouter {
+  private providers: Map<string, LLMPort> = new Map();
+  private circuits: Map<string, Circuit> = new Map();
+
+  // Model info by provider and model, so capability checks list models once
+  private modelInfo: Map<string, ModelInfo> = new Map();
+
+  private timeout: number;
+  private maxRetries: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private onEvent?: (event: RouterEvent) => void;
+
+  constructor(options: LLMRouterOptions = {}) {
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelay = options.baseDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 8000;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.onEvent = options.onEvent;
+  }
+
+  addProvider(name: string, provider: LLMPort): void {
+    this.removeProvider(name);
+    this.providers.set(name, provider);
+  }
+
+  getProvider(name: string): LLMPort | undefined {
+    return this.providers.get(name);
+  }
+
+  removeProvider(name: string): void {
+    this.providers.delete(name);
+    this.circuits.delete(name);
+    for (const key of this.modelInfo.keys()) {
+      if (key.startsWith(`${name}\0`)) this.modelInfo.delete(key);
+    }
+  }
+
+  listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  async route(providerName: string, request: CompletionRequest): Promise<CompletionResponse> {
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new LLMRouterError(`Unknown LLM provider "${providerName}"`, 'unknown-provider', providerName);
+    }
+    return this.completeWithRetries(providerName, provider, request);
+  }
+
+  /**
+   * Stream from the provider. The timeout is how long each chunk may take;
+   * failures are retried only until the first chunk arrives, so no part of
+   * the reply is seen twice.
+   */
+  async *routeStream(providerName: string, request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new LLMRouterError(`Unknown LLM provider "${providerName}"`, 'unknown-provider', providerName);
+    }
+
+    const config = provider.getConfig();
+    const timeout = config.timeout ?? this.timeout;
+    const maxRetries = config.maxRetries ?? this.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      request.signal?.throwIfAborted();
+      if (this.getCircuitState(providerName) === 'open') {
+        throw new LLMRouterError(`Circuit open for LLM provider "${providerName}"`, 'circuit-open', providerName);
+      }
+
+      const [controller, unlink] = attemptController(request.signal);
+      const stream = provider.stream({ ...request, signal: controller.signal, maxRetries: 0 });
+      let started = false;
+      let finished = false;
+      try {
+        for (;;) {
+          const next = await withTimeout(stream.next(), timeout, providerName, controller);
+          if (next.done) {
+            finished = true;
+            this.recordSuccess(providerName);
+            return next.value;
+          }
+          started = true;
+          yield next.value;
+        }
+      } catch (error) {
+        if (request.signal?.aborted || !isRetryableError(error)) throw error;
+
+        this.recordFailure(providerName, error as Error);
+        if (started || attempt >= maxRetries || this.getCircuitState(providerName) === 'open') throw error;
+
+        const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt);
+        this.emit({ type: 'retry', provider: providerName, attempt: attempt + 1, delay, reason: (error as Error).message });
+        await sleep(delay, request.signal);
+      } finally {
+        if (!finished) {
+          // Timed out, or the caller stopped reading
+          controller.abort();
+          stream.return(undefined as never).catch(() => {});
+        }
+        unlink();
+      }
+    }
+  }
+
+  /**
+   * Try each provider in turn until one answers. `request.model`, if set,
+   * goes to every provider; leave it out to use each one's default model.
+   */
+  async routeWithFallback(
+    providers: string[],
+    request: CompletionRequest,
+  ): Promise<{ provider: string; response: CompletionResponse }> {
+    const needed = requiredCapabilities(request);
+    const failures: string[] = [];
+
+    for (const name of providers) {
+      const provider = this.providers.get(name);
+      let reason: string;
+
+      if (!provider) {
+        reason = 'not registered';
+      } else if (this.getCircuitState(name) === 'open') {
+        reason = 'circuit open';
+      } else {
+        const missing = await this.missingCapabilities(name, provider, request, needed);
+        if (missing.length > 0) {
+          reason = `model does not support ${missing.join(' or ')}`;
+          this.emit({ type: 'skipped', provider: name, reason });
+          failures.push(`${name}: ${reason}`);
+          continue;
+        }
+
+        try {
+          return { provider: name, response: await this.completeWithRetries(name, provider, request) };
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          reason = (error as Error).message;
+          this.emit({ type: 'fallback', provider: name, reason });
+        }
+      }
+
+      failures.push(`${name}: ${reason}`);
+    }
+
+    throw new LLMRouterError(`All LLM providers failed:\n  ${failures.join('\n  ')}`, 'exhausted');
+  }
+
+  /**
+   * Closed: calls go through. Open: calls fail fast until `resetTimeout` has
+   * passed. Half-open: the next call is a trial that closes or reopens it.
+   */
+  getCircuitState(name: string): CircuitState {
+    const circuit = this.circuits.get(name);
+    if (circuit?.openedAt === undefined) return 'closed';
+    return Date.now() - circuit.openedAt < this.resetTimeout ? 'open' : 'half-open';
+  }
+
+  private async completeWithRetries(
+    name: string,
+    provider: LLMPort,
+    request: CompletionRequest,
+  ): Promise<CompletionResponse> {
+    const config = provider.getConfig();
+    const timeout = config.timeout ?? this.timeout;
+    const maxRetries = config.maxRetries ?? this.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      request.signal?.throwIfAborted();
+      if (this.getCircuitState(name) === 'open') {
+        throw new LLMRouterError(`Circuit open for LLM provider "${name}"`, 'circuit-open', name);
+      }
+
+      const [controller, unlink] = attemptController(request.signal);
+      try {
+        const response = await withTimeout(
+          provider.complete({ ...request, signal: controller.signal, maxRetries: 0 }),
+          timeout,
+          name,
+          controller,
+        );
+        this.recordSuccess(name);
+        return response;
+      } catch (error) {
+        // An aborted request says nothing about the provider's health
+        if (request.signal?.aborted || !isRetryableError(error)) throw error;
+
+        this.recordFailure(name, error as Error);
+        if (attempt >= maxRetries || this.getCircuitState(name) === 'open') throw error;
+
+        const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt);
+        this.emit({ type: 'retry', provider: name, attempt: attempt + 1, delay, reason: (error as Error).message });
+        await sleep(delay, request.signal);
+      } finally {
+        unlink();
+      }
+    }
+  }
+
+  private recordSuccess(name: string): void {
+    const circuit = this.circuits.get(name);
+    if (!circuit) return;
+
+    this.circuits.delete(name);
+    if (circuit.openedAt !== undefined) {
+      this.emit({ type: 'circuit-closed', provider: name });
+    }
+  }
+
+  private recordFailure(name: string, error: Error): void {
+    const circuit = this.circuits.get(name) ?? { failures: 0 };
+    circuit.failures++;
+
+    // A failed trial call reopens the circuit straight away
+    if (circuit.failures >= this.failureThreshold || circuit.openedAt !== undefined) {
+      circuit.openedAt = Date.now();
+      this.emit({ type: 'circuit-open', provider: name, reason: error.message });
+    }
+    this.circuits.set(name, circuit);
+  }
+
+  /**
+   * Capabilities the provider's model is known to lack. Models the provider
+   * cannot describe are given the benefit of the doubt.
+   */
+  private async missingCapabilities(
+    name: string,
+    provider: LLMPort,
+    request: CompletionRequest,
+    needed: Capability[],
+  ): Promise<Capability[]> {
+    if (needed.length === 0) return [];
+
+    const modelId = request.model || provider.getConfig().defaultModel;
+    if (!modelId) return [];
+
+    const key = `${name}\0${modelId}`;
+    let info = this.modelInfo.get(key) ?? null;
+    if (!info) {
+      info = await withTimeout(provider.getModelInfo(modelId), provider.getConfig().timeout ?? this.timeout, name).catch(
+        () => null,
+      );
+      if (!info) return [];
+      this.modelInfo.set(key, info);
+    }
+
+    return needed.filter((capability) => (capability === 'tools' ? !info.supportsTools : !info.supportsVision));
+  }
+
+  private emit(event: RouterEvent): void {
+    this.onEvent?.(event);
+  }
+}
+
+/**
+ * Capabilities a request relies on: tools if it offers any, vision if a
+ * message contains an image
+ */
+export function requiredCapabilities(request: CompletionRequest): Capability[] {
+  const needed: Capability[] = [];
+  if (request.tools && request.tools.length > 0) {
+    needed.push('tools');
+  }
+  const hasImage = request.messages.some(
+    (m) => typeof m.content !== 'string' && m.content.some((item) => item.type === 'image'),
+  );
+  if (hasImage) {
+    needed.push('vision');
+  }
+  return needed;
+}
+
+/**
+ * Whether an error is likely to go away on its own: timeouts, network
+ * failures, rate limits and server errors. Adapters wrap SDK errors, so the
+ * HTTP status is looked for in the message as well.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMRouterError) {
+    return error.reason === 'timeout';
+  }
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    /\b(408|409|429|5\d\d)\b/.test(message) ||
+    /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network|overloaded|rate limit/i.test(
+      message,
+    )
+  );
+}
+
+/**
+ * A controller for one attempt at a request. It aborts along with the
+ * caller's signal; call the returned function once the attempt is over to
+ * stop following that signal.
+ */
+function attemptController(signal?: AbortSignal): [AbortController, () => void] {
+  const controller = new AbortController();
+  if (!signal) return [controller, () => {}];
+
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return [controller, () => signal.removeEventListener('abort', onAbort)];
+}
+
+/**
+ * Reject after `timeout` ms, or as soon as `controller` aborts. Running out
+ * of time aborts the controller, cancelling the call that was given its
+ * signal.
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, provider: string, controller?: AbortController): Promise<T> {
+  const signal = controller?.signal;
+  let timer: NodeJS.Timeout;
+  let onAbort: () => void = () => {};
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new LLMRouterError(`LLM provider "${provider}" timed out after ${timeout}ms`, 'timeout', provider);
+      reject(error);
+      controller?.abort(error);
+    }, timeout);
+    onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([promise, expired]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
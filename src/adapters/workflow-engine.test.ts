@@ -0,0 +1,536 @@
+/**
+ * Tests for Workflow Execution Engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JsonStorage } from './json-storage.js';
+import { WorkflowStorageAdapter } from './workflow-storage.js';
+import { builtInComponentTemplates, deriveSubWorkflowPorts } from './workflow-templates.js';
+import { topologicalSort, type WorkflowExecutionEvent } from './workflow-engine.js';
+import type { WorkflowComponent, WorkflowConnection } from '@ports/workflow.js';
+import type {
+  LLMPort,
+  LLMProviderConfig,
+  CompletionRequest,
+  CompletionResponse,
+  StreamChunk,
+  ModelInfo,
+} from '@ports/llm.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+function component(id: string, templateName: string, config: Record<string, any> = {}): WorkflowComponent {
+  const template = builtInComponentTemplates.find((t) => t.name === templateName)!;
+  return {
+    id,
+    type: template.type,
+    name: id,
+    template: template.name,
+    config: { ...template.defaultConfig, ...config },
+    inputs: template.inputs.map((p) => ({ ...p, id: p.name })),
+    outputs: template.outputs.map((p) => ({ ...p, id: p.name })),
+    position: { x: 0, y: 0 },
+  };
+}
+
+function connect(source: string, sourcePort: string, target: string, targetPort: string): WorkflowConnection {
+  return {
+    id: `${source}.${sourcePort}->${target}.${targetPort}`,
+    sourceComponentId: source,
+    sourcePortId: sourcePort,
+    targetComponentId: target,
+    targetPortId: targetPort,
+  };
+}
+
+/**
+ * Replies 'summary' to every prompt, after failing the first one
+ */
+class FlakyLLM implements LLMPort {
+  prompts: string[] = [];
+  private failNext = true;
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.prompts.push(request.messages[request.messages.length - 1].content as string);
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('model overloaded');
+    }
+    return {
+      content: 'summary',
+      role: 'assistant',
+      finishReason: 'stop',
+      usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+      model: 'fake',
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    return this.complete(request);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [];
+  }
+
+  async getModelInfo(): Promise<ModelInfo | null> {
+    return null;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider() {
+    return 'ollama' as const;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return { provider: 'ollama', defaultModel: 'fake' };
+  }
+}
+
+describe('WorkflowEngine', () => {
+  let storage: JsonStorage;
+  let workflows: WorkflowStorageAdapter;
+  let displayed: any[];
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    displayed = [];
+    workflows = new WorkflowStorageAdapter(storage, { display: (content) => displayed.push(content) });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should sort components topologically', () => {
+    const components = [component('c', 'Return'), component('b', 'Transform'), component('a', 'User Input')];
+    const connections = [connect('a', 'userInput', 'b', 'data'), connect('b', 'result', 'c', 'result')];
+
+    expect(topologicalSort(components, connections).map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should pass data along connections and return a result', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Shout',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('upper', 'Transform', { expression: 'data.toUpperCase()' }),
+        component('store', 'Storage Write', { key: 'shout/last' }),
+        component('done', 'Return'),
+      ],
+      connections: [
+        connect('input', 'userInput', 'upper', 'data'),
+        connect('upper', 'result', 'store', 'data'),
+        connect('upper', 'result', 'done', 'result'),
+      ],
+    });
+
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: 'hello' });
+
+    expect(context.state).toBe('completed');
+    expect(context.result).toBe('HELLO');
+    expect(context.metrics.componentExecutions).toBe(4);
+    expect(context.componentStates.get('upper')?.outputData).toEqual({ result: 'HELLO' });
+    expect(await storage.read('shout/last')).toBe('HELLO');
+
+    const stored = await storage.read(`workflows/${workflow.id}/executions/${context.executionId}`);
+    expect(stored.state).toBe('completed');
+    expect(stored.componentStates.done.status).toBe('completed');
+  });
+
+  it('should emit component state changes while executing', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Events',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('check', 'If Condition', { condition: 'value == "yes"' }),
+        component('shown', 'Display'),
+        component('upper', 'Transform', { expression: 'upper(data)' }),
+      ],
+      connections: [
+        connect('input', 'userInput', 'check', 'value'),
+        connect('check', 'false', 'shown', 'content'),
+        connect('check', 'true', 'upper', 'data'),
+      ],
+    });
+
+    const events: WorkflowExecutionEvent[] = [];
+    const handler = (event: WorkflowExecutionEvent) => events.push(event);
+    workflows.getEngine().on(handler);
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: 'no' });
+    workflows.getEngine().off(handler);
+
+    const statuses = (id: string) =>
+      events.flatMap((e) => (e.type === 'component' && e.state.componentId === id ? [e.state.status] : []));
+
+    expect(statuses('input')).toEqual(['pending', 'pending', 'running', 'completed']);
+    expect(statuses('upper')).toEqual(['pending', 'pending', 'skipped']);
+    expect(events.filter((e) => e.type === 'execution').map((e) => e.state)).toEqual(['running', 'completed']);
+
+    const completed = events.find(
+      (e) => e.type === 'component' && e.state.componentId === 'shown' && e.state.status === 'completed',
+    );
+    expect(completed?.executionId).toBe(context.executionId);
+    expect(completed?.type === 'component' && completed.state.inputData).toEqual({ content: 'no' });
+  });
+
+  it('should skip the branch not taken by an If Condition', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Branch',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('check', 'If Condition', { condition: 'value.length > 3' }),
+        component('long', 'Display'),
+        component('short', 'Display'),
+      ],
+      connections: [
+        connect('input', 'userInput', 'check', 'value'),
+        connect('check', 'true', 'long', 'content'),
+        connect('check', 'false', 'short', 'content'),
+      ],
+    });
+
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: 'hi' });
+
+    expect(context.state).toBe('completed');
+    expect(context.componentStates.get('long')?.status).toBe('skipped');
+    expect(context.componentStates.get('short')?.status).toBe('completed');
+    expect(displayed).toEqual(['hi']);
+  });
+
+  it('should show Display output only through the display option', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const quiet = new WorkflowStorageAdapter(storage);
+    const workflow = await quiet.createWorkflow({
+      name: 'Quiet',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), component('show', 'Display')],
+      connections: [connect('input', 'userInput', 'show', 'content')],
+    });
+
+    const context = await quiet.executeWorkflow(workflow.id, { userInput: 'hi' });
+
+    expect(context.state).toBe('completed');
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('should run the loop body once per item', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Loop',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('loop', 'Loop', { maxIterations: 2 }),
+        component('show', 'Display'),
+      ],
+      connections: [
+        connect('input', 'userInput', 'loop', 'items'),
+        connect('loop', 'item', 'show', 'content'),
+      ],
+    });
+
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: ['a', 'b', 'c'] });
+
+    expect(context.state).toBe('completed');
+    expect(displayed).toEqual(['a', 'b']);
+  });
+
+  it('should stop and record the error when a component fails', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'No LLM',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), component('llm', 'LLM Completion'), component('done', 'Return')],
+      connections: [connect('input', 'userInput', 'llm', 'input'), connect('llm', 'response', 'done', 'result')],
+    });
+
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: 'hello' });
+
+    expect(context.state).toBe('failed');
+    expect(context.metrics.errors).toBe(1);
+    expect(context.componentStates.get('llm')?.status).toBe('failed');
+    expect(context.componentStates.get('done')?.status).toBe('pending');
+  });
+
+  it('should pause after the current component and resume after a restart', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Pausable',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('first', 'Transform', { expression: 'data + 1' }),
+        component('second', 'Transform', { expression: 'data * 10' }),
+        component('done', 'Return'),
+      ],
+      connections: [
+        connect('input', 'userInput', 'first', 'data'),
+        connect('first', 'result', 'second', 'data'),
+        connect('second', 'result', 'done', 'result'),
+      ],
+    });
+
+    workflows.getEngine().registerExecutor('logic:Transform', async ({ component, inputs, execution }) => {
+      if (component.id === 'first') {
+        await workflows.pauseExecution(execution.executionId);
+      }
+      return { result: component.id === 'first' ? inputs.data + 1 : inputs.data * 10 };
+    });
+
+    const paused = await workflows.executeWorkflow(workflow.id, { userInput: 1 });
+    expect(paused.state).toBe('paused');
+    expect(paused.componentStates.get('first')?.status).toBe('completed');
+    expect(paused.componentStates.get('second')?.status).toBe('pending');
+
+    const restarted = new WorkflowStorageAdapter(storage);
+    const resumed = await restarted.resumeExecution(paused.executionId);
+
+    expect(resumed.state).toBe('completed');
+    expect(resumed.result).toBe(20);
+    expect(resumed.metrics.componentExecutions).toBe(4);
+  });
+
+  it('should cancel a paused execution', async () => {
+    const workflow = await workflows.createWorkflow({
+      name: 'Cancellable',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), component('done', 'Return')],
+      connections: [connect('input', 'userInput', 'done', 'result')],
+    });
+
+    workflows.getEngine().registerExecutor('trigger:User Input', async ({ execution }) => {
+      await workflows.pauseExecution(execution.executionId);
+      return { userInput: 'x' };
+    });
+
+    const paused = await workflows.executeWorkflow(workflow.id);
+    await workflows.cancelExecution(paused.executionId);
+
+    await expect(workflows.resumeExecution(paused.executionId)).rejects.toThrow('cancelled');
+  });
+
+  it('should list executions and replay a failed LLM step with its recorded input', async () => {
+    const llm = new FlakyLLM();
+    workflows = new WorkflowStorageAdapter(storage, { llm });
+
+    const workflow = await workflows.createWorkflow({
+      name: 'Summarize',
+      version: '1.0.0',
+      components: [
+        component('input', 'User Input'),
+        component('trim', 'Transform', { expression: 'data.trim()' }),
+        component('llm', 'LLM Completion'),
+        component('done', 'Return'),
+      ],
+      connections: [
+        connect('input', 'userInput', 'trim', 'data'),
+        connect('trim', 'result', 'llm', 'input'),
+        connect('llm', 'response', 'done', 'result'),
+      ],
+    });
+
+    const failed = await workflows.executeWorkflow(workflow.id, { userInput: '  some text  ' });
+    expect(failed.state).toBe('failed');
+
+    const replayed = await workflows.replayExecution(failed.executionId);
+
+    expect(replayed.state).toBe('completed');
+    expect(replayed.replayOf).toBe(failed.executionId);
+    expect(replayed.result).toBe('summary');
+    expect(llm.prompts).toEqual(['some text', 'some text']);
+    // Only the LLM step and Return actually ran; triggers and transforms were stubbed
+    expect(replayed.metrics.componentExecutions).toBe(2);
+
+    const executions = await workflows.listExecutions(workflow.id);
+    expect(executions.map((e) => e.executionId).sort()).toEqual(
+      [failed.executionId, replayed.executionId].sort(),
+    );
+    expect((await workflows.getExecution(failed.executionId))?.componentStates.get('llm')?.error).toBe(
+      'model overloaded',
+    );
+  });
+
+  it('should name the connection when its transform expression fails', async () => {
+    const transformed = { ...connect('input', 'userInput', 'done', 'result'), transform: { type: 'custom' as const, expression: 'value.nope()' } };
+    const workflow = await workflows.createWorkflow({
+      name: 'Bad transform',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), component('done', 'Return')],
+      connections: [transformed],
+    });
+
+    const context = await workflows.executeWorkflow(workflow.id, { userInput: 'x' });
+
+    expect(context.state).toBe('failed');
+    expect(context.componentStates.get('done')?.error).toContain(
+      `transform on connection ${transformed.id} (input.userInput → done.result)`,
+    );
+    expect(context.componentStates.get('done')?.error).toContain('Method "nope" is not allowed');
+  });
+  it('should run a Sub-Workflow component and stop recursion between workflows', async () => {
+    const child = await workflows.createWorkflow({
+      name: 'Shout',
+      version: '1.0.0',
+      components: [
+        component('text', 'User Input'),
+        component('upper', 'Transform', { expression: 'data.toUpperCase()' }),
+        component('shouted', 'Return'),
+      ],
+      connections: [connect('text', 'userInput', 'upper', 'data'), connect('upper', 'result', 'shouted', 'result')],
+    });
+
+    const sub: WorkflowComponent = {
+      ...component('shout', 'Sub-Workflow', { workflowId: child.id }),
+      ...deriveSubWorkflowPorts(child),
+    };
+    const parent = await workflows.createWorkflow({
+      name: 'Parent',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), sub, component('done', 'Return')],
+      connections: [connect('input', 'userInput', 'shout', 'text'), connect('shout', 'shouted', 'done', 'result')],
+    });
+
+    expect(await workflows.validateWorkflow(parent)).toMatchObject({ valid: true, warnings: [] });
+
+    const context = await workflows.executeWorkflow(parent.id, { userInput: 'hey' });
+    expect(context.state).toBe('completed');
+    expect(context.result).toBe('HEY');
+
+    const [childRun] = await workflows.listExecutions(child.id);
+    expect(childRun.parentExecutionId).toBe(context.executionId);
+    expect(childRun.depth).toBe(1);
+
+    // Make the child call the parent (before returning) to close the loop
+    const again = { ...component('again', 'Sub-Workflow', { workflowId: parent.id }), ...deriveSubWorkflowPorts(parent) };
+    const recursive = await workflows.updateWorkflow(child.id, {
+      components: [child.components[0], child.components[1], again, child.components[2]],
+      connections: [...child.connections, connect('upper', 'result', 'again', 'input')],
+    });
+
+    const validation = await workflows.validateWorkflow(recursive);
+    expect(validation.errors).toContain(
+      `Sub-workflows call each other in a cycle: ${child.id} → ${parent.id} → ${child.id}`,
+    );
+
+    const runaway = await workflows.executeWorkflow(parent.id, { userInput: 'hey' });
+    expect(runaway.state).toBe('failed');
+    expect(runaway.error).toContain('depth limit of 8 exceeded');
+  });
+
+  it('should pause and cancel Sub-Workflow executions along with their parent', async () => {
+    const child = await workflows.createWorkflow({
+      name: 'Shout',
+      version: '1.0.0',
+      components: [
+        component('text', 'User Input'),
+        component('upper', 'Transform', { expression: 'data.toUpperCase()' }),
+        component('shouted', 'Return'),
+      ],
+      connections: [connect('text', 'userInput', 'upper', 'data'), connect('upper', 'result', 'shouted', 'result')],
+    });
+    const sub = { ...component('shout', 'Sub-Workflow', { workflowId: child.id }), ...deriveSubWorkflowPorts(child) };
+    const parent = await workflows.createWorkflow({
+      name: 'Parent',
+      version: '1.0.0',
+      components: [component('input', 'User Input'), sub, component('done', 'Return')],
+      connections: [connect('input', 'userInput', 'shout', 'text'), connect('shout', 'shouted', 'done', 'result')],
+    });
+
+    // The child asks for its parent to be stopped while it runs
+    let request: 'pause' | 'cancel' = 'pause';
+    workflows.getEngine().registerExecutor('logic:Transform', async ({ inputs, execution }) => {
+      if (request === 'pause') await workflows.pauseExecution(execution.parentExecutionId!);
+      else await workflows.cancelExecution(execution.parentExecutionId!);
+      return { result: inputs.data.toUpperCase() };
+    });
+
+    const paused = await workflows.executeWorkflow(parent.id, { userInput: 'hey' });
+    expect(paused.state).toBe('paused');
+    expect(paused.componentStates.get('shout')?.status).toBe('pending');
+    const [pausedChild] = await workflows.listExecutions(child.id);
+    expect(paused.childExecutionIds).toEqual([pausedChild.executionId]);
+    expect(pausedChild.state).toBe('paused');
+    expect(pausedChild.componentStates.get('upper')?.status).toBe('completed');
+
+    // Resuming the parent carries on with the same child
+    const restarted = new WorkflowStorageAdapter(storage);
+    const resumed = await restarted.resumeExecution(paused.executionId);
+    expect(resumed.state).toBe('completed');
+    expect(resumed.result).toBe('HEY');
+    expect(await workflows.listExecutions(child.id)).toMatchObject([{ executionId: pausedChild.executionId, state: 'completed' }]);
+
+    request = 'cancel';
+    const cancelled = await workflows.executeWorkflow(parent.id, { userInput: 'hey' });
+    expect(cancelled.state).toBe('cancelled');
+    expect((await workflows.getExecution(cancelled.childExecutionIds![0]))?.state).toBe('cancelled');
+
+    // Cancelling a paused parent cancels its paused child
+    request = 'pause';
+    const pausedAgain = await workflows.executeWorkflow(parent.id, { userInput: 'hey' });
+    await workflows.cancelExecution(pausedAgain.executionId);
+    expect((await workflows.getExecution(pausedAgain.childExecutionIds![0]))?.state).toBe('cancelled');
+  });
+});
+
+describe('validateWorkflow', () => {
+  const workflows = new WorkflowStorageAdapter(new JsonStorage({ basePath: path.join(os.tmpdir(), 'inkhat-unused') }));
+
+  function definition(components: WorkflowComponent[], connections: WorkflowConnection[]) {
+    return {
+      id: 'wf',
+      name: 'Test',
+      version: '1.0.0',
+      components,
+      connections,
+      metadata: { created: new Date(), modified: new Date() },
+    };
+  }
+
+  it('should report type mismatches between ports', async () => {
+    const result = await workflows.validateWorkflow(
+      definition(
+        [component('input', 'User Input'), component('loop', 'Loop')],
+        [connect('input', 'userInput', 'loop', 'items')],
+      ),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Type mismatch: input.userInput (string) → loop.items (array)']);
+  });
+
+  it('should report unconnected required inputs and inputs fed twice', async () => {
+    const result = await workflows.validateWorkflow(
+      definition(
+        [component('a', 'User Input'), component('b', 'User Input'), component('llm', 'LLM Completion'), component('write', 'Storage Write', { key: 'out' })],
+        [connect('a', 'userInput', 'llm', 'input'), connect('b', 'userInput', 'llm', 'input'), connect('llm', 'response', 'write', 'key')],
+      ),
+    );
+
+    expect(result.errors).toContain('Input llm.input is fed by 2 connections');
+    expect(result.errors).toContain('Required input write.data is not connected and has no default value');
+  });
+
+  it('should report disconnected components as warnings only', async () => {
+    const result = await workflows.validateWorkflow(
+      definition(
+        [component('input', 'User Input'), component('done', 'Return'), component('extra', 'Display', { content: 'hi' })],
+        [connect('input', 'userInput', 'done', 'result')],
+      ),
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(['Component extra is not connected to any other components']);
+  });
+});
+
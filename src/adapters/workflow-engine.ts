@@ -0,0 +1,733 @@
+/**
+ * Workflow Execution Engine
+ *
+ * Runs a WorkflowDefinition component by component in topological order,
+ * feeding each component's inputs from its incoming connections and
+ * recording progress in a WorkflowExecutionContext.
+ */
+
+import type { StoragePort } from '@ports/storage.js';
+import type { LLMPort, Message } from '@ports/llm.js';
+import type {
+  WorkflowDefinition,
+  WorkflowExecutionContext,
+  WorkflowComponent,
+  WorkflowConnection,
+  ComponentExecutionState,
+} from '@ports/workflow.js';
+import { TemplateRenderer } from '@ports/build.js';
+import { evaluateExpression } from './workflow-expressions.js';
+
+/**
+ * Everything a component executor gets to work with
+ */
+export interface ComponentRunContext {
+  component: WorkflowComponent;
+  inputs: Record<string, any>; // port name -> value
+  execution: WorkflowExecutionContext;
+  workflowInputs: Record<string, any>;
+}
+
+/**
+ * Runs a single component and returns its outputs keyed by port name.
+ * Output ports left out of the result are treated as not emitted, which
+ * is how branching components deactivate downstream paths.
+ */
+export type ComponentExecutor = (run: ComponentRunContext) => Promise<Record<string, any>>;
+
+/**
+ * Hooks for controlling a running execution
+ */
+export interface ExecutionControl {
+  // Set to stop the execution before the next component starts
+  requested?: 'pause' | 'cancel';
+
+  // Called after every component so progress survives a restart
+  checkpoint?: (context: WorkflowExecutionContext) => Promise<void>;
+
+  // Set when replaying a past execution
+  replay?: ReplayPlan;
+}
+
+/**
+ * How to replay a recorded execution
+ */
+export interface ReplayPlan {
+  // The execution being replayed
+  source: WorkflowExecutionContext;
+
+  // Components whose recorded outputs are reused instead of executing them
+  stubbed: Set<string>;
+}
+
+export interface WorkflowEngineOptions {
+  storage: StoragePort<any>;
+  llm?: LLMPort;
+  display?: (content: any, component: WorkflowComponent) => void; // Shows Display components' content; nothing is shown without it
+  expressionTimeout?: number; // milliseconds per expression evaluation
+}
+
+/**
+ * Progress notifications from a running execution. Component events carry a
+ * snapshot of the component's state taken when it changed.
+ */
+export type WorkflowExecutionEvent =
+  | {
+      type: 'execution';
+      workflowId: string;
+      executionId: string;
+      parentExecutionId?: string;
+      state: WorkflowExecutionContext['state'];
+      error?: string;
+    }
+  | {
+      type: 'component';
+      workflowId: string;
+      executionId: string;
+      parentExecutionId?: string;
+      state: ComponentExecutionState;
+    };
+
+/**
+ * Workflow execution context as persisted through StoragePort (Maps and Dates flattened)
+ */
+export interface StoredExecutionContext {
+  workflowId: string;
+  executionId: string;
+  startTime: string;
+  state: WorkflowExecutionContext['state'];
+  inputs?: Record<string, any>;
+  replayOf?: string;
+  parentExecutionId?: string;
+  depth?: number;
+  childExecutionIds?: string[];
+  componentStates: Record<string, ComponentExecutionState>;
+  dataFlow: Record<string, any>;
+  metrics: WorkflowExecutionContext['metrics'];
+  result?: any;
+  error?: string;
+}
+
+/**
+ * Thrown by an executor that stopped because its execution was paused or
+ * cancelled while it ran, e.g. a Sub-Workflow whose child execution was
+ * stopped along with it. The component is left pending so that resuming
+ * the execution runs it again.
+ */
+export class ExecutionInterruptedError extends Error {
+  constructor(readonly state: 'paused' | 'cancelled') {
+    super(`Execution ${state}`);
+    this.name = 'ExecutionInterruptedError';
+  }
+}
+
+export class WorkflowEngine {
+  private storage: StoragePort<any>;
+  private llm?: LLMPort;
+  private display: (content: any, component: WorkflowComponent) => void;
+  private expressionTimeout?: number;
+  private executors: Map<string, ComponentExecutor> = new Map();
+  private handlers: Array<(event: WorkflowExecutionEvent) => void> = [];
+
+  constructor(options: WorkflowEngineOptions) {
+    this.storage = options.storage;
+    this.llm = options.llm;
+    this.display = options.display || (() => {});
+    this.expressionTimeout = options.expressionTimeout;
+
+    this.registerBuiltInExecutors();
+  }
+
+  /**
+   * Register an executor for a template key (`${type}:${templateName}`)
+   */
+  registerExecutor(templateKey: string, executor: ComponentExecutor): void {
+    this.executors.set(templateKey, executor);
+  }
+
+  /**
+   * Register a handler for execution progress events
+   */
+  on(handler: (event: WorkflowExecutionEvent) => void): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Remove a handler
+   */
+  off(handler: (event: WorkflowExecutionEvent) => void): void {
+    this.handlers = this.handlers.filter((h) => h !== handler);
+  }
+
+  /**
+   * Execute a workflow, mutating and returning the given context.
+   *
+   * Components already completed or skipped in the context are not run again,
+   * so passing a checkpointed context resumes it. A loop that was interrupted
+   * restarts from its first iteration.
+   *
+   * When replaying, components outside loops take their recorded inputData
+   * (and stubbed components their recorded outputs) from the source execution.
+   */
+  async execute(
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext,
+    inputs: Record<string, any> = {},
+    control: ExecutionControl = {},
+  ): Promise<WorkflowExecutionContext> {
+    const order = topologicalSort(workflow.components, workflow.connections);
+
+    for (const component of order) {
+      if (!context.componentStates.has(component.id)) {
+        context.componentStates.set(component.id, { componentId: component.id, status: 'pending' });
+      }
+    }
+
+    this.emitExecution(context);
+    for (const component of order) {
+      this.emitComponent(context, context.componentStates.get(component.id)!);
+    }
+
+    const handled = new Set<string>();
+    let returned = false;
+
+    for (const component of order) {
+      if (handled.has(component.id)) continue;
+      handled.add(component.id);
+
+      const previous = context.componentStates.get(component.id);
+      if (previous?.status === 'completed' || previous?.status === 'skipped') {
+        if (previous.status === 'completed' && getTemplateKey(component) === 'output:Return') {
+          returned = true;
+        }
+        continue;
+      }
+
+      if (returned) {
+        this.setStatus(context, component.id, 'skipped');
+        continue;
+      }
+
+      if (control.requested) {
+        context.state = control.requested === 'pause' ? 'paused' : 'cancelled';
+        break;
+      }
+
+      if (getTemplateKey(component) === 'logic:Loop') {
+        const body = getDescendants(component.id, workflow.connections);
+        const bodyOrder = order.filter((c) => body.has(c.id));
+        for (const c of bodyOrder) handled.add(c.id);
+
+        const outcome = await this.runLoop(component, bodyOrder, workflow, context, inputs);
+        await control.checkpoint?.(context);
+        if (outcome === 'failed' || outcome === 'interrupted') break;
+        returned = outcome === 'returned';
+        continue;
+      }
+
+      const outcome = await this.runComponent(component, workflow, context, inputs, control.replay);
+      await control.checkpoint?.(context);
+      if (outcome === 'failed' || outcome === 'interrupted') break;
+      returned = outcome === 'returned';
+    }
+
+    if (context.state === 'running') {
+      context.state = 'completed';
+    }
+    context.metrics.totalDuration = Date.now() - context.startTime.getTime();
+    this.emitExecution(context);
+
+    return context;
+  }
+
+  // Component execution
+
+  private async runComponent(
+    component: WorkflowComponent,
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext,
+    workflowInputs: Record<string, any>,
+    replay?: ReplayPlan,
+  ): Promise<'completed' | 'skipped' | 'failed' | 'returned' | 'interrupted'> {
+    const isReturn = getTemplateKey(component) === 'output:Return';
+    const recorded = replay?.source.componentStates.get(component.id);
+
+    if (recorded?.status === 'completed' && replay?.stubbed.has(component.id)) {
+      context.componentStates.set(component.id, { ...recorded });
+      this.emitComponent(context, recorded);
+      context.dataFlow.set(component.id, recorded.outputData || {});
+      if (isReturn) {
+        context.result = replay.source.result;
+      }
+      return isReturn ? 'returned' : 'completed';
+    }
+
+    const state: ComponentExecutionState = { componentId: component.id, status: 'pending' };
+    context.componentStates.set(component.id, state);
+    this.emitComponent(context, state);
+
+    let inputs: Record<string, any> | null;
+    try {
+      inputs = recorded?.inputData !== undefined
+        ? recorded.inputData
+        : this.resolveInputs(component, workflow.connections, context);
+    } catch (error) {
+      return this.failComponent(context, state, error as Error);
+    }
+
+    if (inputs === null) {
+      state.status = 'skipped';
+      this.emitComponent(context, state);
+      return 'skipped';
+    }
+
+    const executor = this.executors.get(getTemplateKey(component));
+    if (!executor) {
+      return this.failComponent(
+        context,
+        state,
+        new Error(`No executor registered for ${component.name} (${getTemplateKey(component)})`),
+      );
+    }
+
+    state.status = 'running';
+    state.startTime = new Date();
+    state.inputData = inputs;
+    this.emitComponent(context, state);
+
+    try {
+      const result = await executor({ component, inputs, execution: context, workflowInputs });
+      const outputs = this.mapOutputs(component, result);
+
+      state.status = 'completed';
+      state.endTime = new Date();
+      state.duration = state.endTime.getTime() - state.startTime.getTime();
+      state.outputData = outputs;
+      context.dataFlow.set(component.id, outputs);
+      context.metrics.componentExecutions++;
+      this.emitComponent(context, state);
+
+      return isReturn ? 'returned' : 'completed';
+    } catch (error) {
+      if (error instanceof ExecutionInterruptedError) {
+        state.status = 'pending';
+        context.state = error.state;
+        this.emitComponent(context, state);
+        return 'interrupted';
+      }
+      return this.failComponent(context, state, error as Error);
+    }
+  }
+
+  /**
+   * Run the loop component's body (everything downstream of it) once per item
+   */
+  private async runLoop(
+    loop: WorkflowComponent,
+    body: WorkflowComponent[],
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext,
+    workflowInputs: Record<string, any>,
+  ): Promise<'completed' | 'skipped' | 'failed' | 'returned' | 'interrupted'> {
+    const state: ComponentExecutionState = { componentId: loop.id, status: 'pending' };
+    context.componentStates.set(loop.id, state);
+    this.emitComponent(context, state);
+
+    let inputs: Record<string, any> | null;
+    try {
+      inputs = this.resolveInputs(loop, workflow.connections, context);
+    } catch (error) {
+      return this.failComponent(context, state, error as Error);
+    }
+
+    if (inputs === null) {
+      state.status = 'skipped';
+      this.emitComponent(context, state);
+      for (const component of body) this.setStatus(context, component.id, 'skipped');
+      return 'skipped';
+    }
+
+    const items = inputs.items;
+    if (!Array.isArray(items)) {
+      return this.failComponent(context, state, new Error('Loop input "items" must be an array'));
+    }
+
+    const maxIterations = loop.config.maxIterations ?? items.length;
+    const iterations = items.slice(0, maxIterations);
+
+    state.status = 'running';
+    state.startTime = new Date();
+    state.inputData = inputs;
+    this.emitComponent(context, state);
+
+    for (let index = 0; index < iterations.length; index++) {
+      const outputs = this.mapOutputs(loop, { item: iterations[index], index });
+      state.outputData = outputs;
+      context.dataFlow.set(loop.id, outputs);
+      context.metrics.componentExecutions++;
+      this.emitComponent(context, state);
+
+      for (const component of body) {
+        const outcome = await this.runComponent(component, workflow, context, workflowInputs);
+        if (outcome === 'interrupted') {
+          state.status = 'pending';
+          this.emitComponent(context, state);
+          return 'interrupted';
+        }
+        if (outcome === 'failed') {
+          state.status = 'failed';
+          state.error = `Iteration ${index} failed at ${component.name}`;
+          this.emitComponent(context, state);
+          return 'failed';
+        }
+        if (outcome === 'returned') {
+          state.status = 'completed';
+          state.endTime = new Date();
+          state.duration = state.endTime.getTime() - state.startTime.getTime();
+          this.emitComponent(context, state);
+          return 'returned';
+        }
+      }
+    }
+
+    if (iterations.length === 0) {
+      for (const component of body) this.setStatus(context, component.id, 'skipped');
+    }
+
+    state.status = 'completed';
+    state.endTime = new Date();
+    state.duration = state.endTime.getTime() - state.startTime.getTime();
+    this.emitComponent(context, state);
+    return 'completed';
+  }
+
+  /**
+   * Gather input values by port name. Returns null when the component sits on
+   * a path that was not taken (e.g. the other branch of an If Condition).
+   */
+  private resolveInputs(
+    component: WorkflowComponent,
+    connections: WorkflowConnection[],
+    context: WorkflowExecutionContext,
+  ): Record<string, any> | null {
+    const incoming = connections.filter((c) => c.targetComponentId === component.id);
+    const active = incoming.filter((c) => this.isActive(c, context));
+
+    if (incoming.length > 0 && active.length === 0) {
+      return null;
+    }
+
+    const inputs: Record<string, any> = {};
+
+    for (const port of component.inputs) {
+      const portConnections = incoming.filter((c) => c.targetPortId === port.id);
+      const activeConnections = active.filter((c) => c.targetPortId === port.id);
+
+      if (activeConnections.length > 0) {
+        const connection = activeConnections[activeConnections.length - 1];
+        const value = context.dataFlow.get(connection.sourceComponentId)[connection.sourcePortId];
+        inputs[port.name] = this.applyTransform(connection, value);
+      } else if (component.config[port.name] !== undefined) {
+        inputs[port.name] = component.config[port.name];
+      } else if (port.defaultValue !== undefined) {
+        inputs[port.name] = port.defaultValue;
+      } else if (port.required) {
+        if (portConnections.length > 0) {
+          return null;
+        }
+        throw new Error(`Missing required input "${port.name}"`);
+      }
+    }
+
+    return inputs;
+  }
+
+  private applyTransform(connection: WorkflowConnection, value: any): any {
+    const transform = connection.transform;
+    if (!transform || transform.type === 'direct' || !transform.expression) {
+      return value;
+    }
+
+    const expression = transform.expression;
+    const location =
+      `transform on connection ${connection.id} ` +
+      `(${connection.sourceComponentId}.${connection.sourcePortId} → ${connection.targetComponentId}.${connection.targetPortId})`;
+
+    switch (transform.type) {
+      case 'map':
+        return toArray(value).map((item) => this.evaluate(expression, { value: item }, location));
+      case 'filter':
+        return toArray(value).filter((item) => this.evaluate(expression, { value: item }, location));
+      case 'custom':
+        return this.evaluate(expression, { value }, location);
+    }
+  }
+
+  /**
+   * Evaluate a sandboxed expression, naming where it came from in any error
+   */
+  private evaluate(expression: string, scope: Record<string, any>, location: string): any {
+    try {
+      return evaluateExpression(expression, scope, { timeout: this.expressionTimeout });
+    } catch (error) {
+      throw new Error(`Error in ${location}: ${(error as Error).message}`);
+    }
+  }
+
+  private isActive(connection: WorkflowConnection, context: WorkflowExecutionContext): boolean {
+    const source = context.componentStates.get(connection.sourceComponentId);
+    if (source?.status !== 'completed' && source?.status !== 'running') {
+      return false;
+    }
+    const outputs = context.dataFlow.get(connection.sourceComponentId);
+    return outputs !== undefined && connection.sourcePortId in outputs;
+  }
+
+  /**
+   * Convert executor results keyed by port name into outputs keyed by port id
+   */
+  private mapOutputs(component: WorkflowComponent, result: Record<string, any>): Record<string, any> {
+    const outputs: Record<string, any> = {};
+    for (const port of component.outputs) {
+      if (port.name in result) {
+        outputs[port.id] = result[port.name];
+      }
+    }
+    return outputs;
+  }
+
+  private failComponent(
+    context: WorkflowExecutionContext,
+    state: ComponentExecutionState,
+    error: Error,
+  ): 'failed' {
+    state.status = 'failed';
+    state.error = error.message;
+    if (state.startTime) {
+      state.endTime = new Date();
+      state.duration = state.endTime.getTime() - state.startTime.getTime();
+    }
+
+    context.state = 'failed';
+    context.error = `${state.componentId}: ${error.message}`;
+    context.metrics.errors++;
+    this.emitComponent(context, state);
+    return 'failed';
+  }
+
+  private setStatus(
+    context: WorkflowExecutionContext,
+    componentId: string,
+    status: ComponentExecutionState['status'],
+  ): void {
+    const state: ComponentExecutionState = { componentId, status };
+    context.componentStates.set(componentId, state);
+    this.emitComponent(context, state);
+  }
+
+  private emitExecution(context: WorkflowExecutionContext): void {
+    this.emit({
+      type: 'execution',
+      workflowId: context.workflowId,
+      executionId: context.executionId,
+      parentExecutionId: context.parentExecutionId,
+      state: context.state,
+      error: context.error,
+    });
+  }
+
+  private emitComponent(context: WorkflowExecutionContext, state: ComponentExecutionState): void {
+    this.emit({
+      type: 'component',
+      workflowId: context.workflowId,
+      executionId: context.executionId,
+      parentExecutionId: context.parentExecutionId,
+      state: { ...state },
+    });
+  }
+
+  private emit(event: WorkflowExecutionEvent): void {
+    for (const handler of this.handlers) {
+      handler(event);
+    }
+  }
+
+  // Built-in executors
+
+  private registerBuiltInExecutors(): void {
+    this.registerExecutor('trigger:User Input', async ({ component, workflowInputs }) => {
+      const userInput = workflowInputs[component.id] ?? workflowInputs[component.name] ?? workflowInputs.userInput;
+      if (userInput === undefined) {
+        throw new Error(`No input provided for ${component.name}`);
+      }
+      return { userInput };
+    });
+
+    this.registerExecutor('trigger:Schedule', async ({ component, workflowInputs }) => {
+      const timestamp = workflowInputs[component.id] ?? workflowInputs.timestamp;
+      return { timestamp: timestamp ? new Date(timestamp) : new Date() };
+    });
+
+    this.registerExecutor('action:LLM Completion', async ({ component, inputs }) => {
+      if (!this.llm) {
+        throw new Error('No LLM provider configured for workflow execution');
+      }
+
+      const { systemPrompt, userPrompt, model, temperature, maxTokens } = component.config;
+      const variables = { ...(inputs.context || {}), input: inputs.input };
+
+      const messages: Message[] = [];
+      if (systemPrompt) {
+        messages.push({ role: 'system', content: TemplateRenderer.render(systemPrompt, variables) });
+      }
+      messages.push({
+        role: 'user',
+        content: userPrompt ? TemplateRenderer.render(userPrompt, variables) : String(inputs.input),
+      });
+
+      const response = await this.llm.complete({ messages, model, temperature, maxTokens });
+      return { response: response.content, tokens: response.usage.totalTokens };
+    });
+
+    this.registerExecutor('action:Storage Read', async ({ inputs }) => {
+      return { data: await this.storage.read(inputs.key) };
+    });
+
+    this.registerExecutor('action:Storage Write', async ({ inputs }) => {
+      await this.storage.write(inputs.key, inputs.data);
+      return { success: true };
+    });
+
+    this.registerExecutor('logic:If Condition', async ({ component, inputs }) => {
+      const passed = this.evaluate(component.config.condition, { value: inputs.value }, `condition of ${component.name}`);
+      return passed ? { true: inputs.value } : { false: inputs.value };
+    });
+
+    this.registerExecutor('logic:Transform', async ({ component, inputs }) => {
+      return {
+        result: this.evaluate(component.config.expression, { data: inputs.data }, `expression of ${component.name}`),
+      };
+    });
+
+    this.registerExecutor('output:Display', async ({ component, inputs }) => {
+      this.display(inputs.content, component);
+      return {};
+    });
+
+    this.registerExecutor('output:Return', async ({ inputs, execution }) => {
+      execution.result = inputs.result;
+      return {};
+    });
+  }
+}
+
+/**
+ * Key used to match a component to its template and executor
+ */
+export function getTemplateKey(component: Pick<WorkflowComponent, 'type' | 'name' | 'template'>): string {
+  return `${component.type}:${component.template ?? component.name}`;
+}
+
+/**
+ * Order components so every component comes after the ones feeding it (Kahn's algorithm).
+ * Ties keep the order components were declared in.
+ */
+export function topologicalSort(
+  components: WorkflowComponent[],
+  connections: WorkflowConnection[],
+): WorkflowComponent[] {
+  const inDegree = new Map<string, number>();
+  const adjacency = new Map<string, string[]>();
+
+  for (const component of components) {
+    inDegree.set(component.id, 0);
+    adjacency.set(component.id, []);
+  }
+
+  for (const conn of connections) {
+    if (!inDegree.has(conn.sourceComponentId) || !inDegree.has(conn.targetComponentId)) continue;
+    adjacency.get(conn.sourceComponentId)!.push(conn.targetComponentId);
+    inDegree.set(conn.targetComponentId, inDegree.get(conn.targetComponentId)! + 1);
+  }
+
+  const sorted: WorkflowComponent[] = [];
+  const ready = components.filter((c) => inDegree.get(c.id) === 0);
+  const order = new Map(components.map((c, index) => [c.id, index]));
+
+  while (ready.length > 0) {
+    const component = ready.shift()!;
+    sorted.push(component);
+
+    for (const targetId of adjacency.get(component.id)!) {
+      const remaining = inDegree.get(targetId)! - 1;
+      inDegree.set(targetId, remaining);
+      if (remaining === 0) {
+        ready.push(components.find((c) => c.id === targetId)!);
+        ready.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+      }
+    }
+  }
+
+  if (sorted.length !== components.length) {
+    throw new Error('Workflow contains cycles');
+  }
+
+  return sorted;
+}
+
+/**
+ * All components reachable downstream from the given component
+ */
+function getDescendants(componentId: string, connections: WorkflowConnection[]): Set<string> {
+  const descendants = new Set<string>();
+  const queue = [componentId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const conn of connections) {
+      if (conn.sourceComponentId === current && !descendants.has(conn.targetComponentId)) {
+        descendants.add(conn.targetComponentId);
+        queue.push(conn.targetComponentId);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Flatten an execution context for StoragePort (Maps do not survive JSON)
+ */
+export function serializeExecutionContext(context: WorkflowExecutionContext): StoredExecutionContext {
+  return {
+    ...context,
+    startTime: context.startTime.toISOString(),
+    componentStates: Object.fromEntries(context.componentStates),
+    dataFlow: Object.fromEntries(context.dataFlow),
+  };
+}
+
+/**
+ * Rebuild an execution context read back from StoragePort
+ */
+export function deserializeExecutionContext(stored: StoredExecutionContext): WorkflowExecutionContext {
+  const componentStates = new Map<string, ComponentExecutionState>();
+  for (const [id, state] of Object.entries(stored.componentStates || {})) {
+    componentStates.set(id, {
+      ...state,
+      startTime: state.startTime ? new Date(state.startTime) : undefined,
+      endTime: state.endTime ? new Date(state.endTime) : undefined,
+    });
+  }
+
+  return {
+    ...stored,
+    startTime: new Date(stored.startTime),
+    componentStates,
+    dataFlow: new Map(Object.entries(stored.dataFlow || {})),
+  };
+}
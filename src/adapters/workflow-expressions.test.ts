@@ -0,0 +1,78 @@
+/**
+ * Tests for the Workflow Expression Language
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, assertValidExpression, ExpressionError } from './workflow-expressions.js';
+
+describe('evaluateExpression', () => {
+  it('should read property paths', () => {
+    const scope = { data: { user: { name: 'Ada', tags: ['a', 'b'] } } };
+
+    expect(evaluateExpression('data.user.name', scope)).toBe('Ada');
+    expect(evaluateExpression('data.user.tags[1]', scope)).toBe('b');
+    expect(evaluateExpression('data.missing?.name', scope)).toBeUndefined();
+    expect(evaluateExpression('data.missing?.name ?? "none"', scope)).toBe('none');
+  });
+
+  it('should support arithmetic, comparisons and conditionals', () => {
+    expect(evaluateExpression('(value + 2) * 3 % 4', { value: 1 })).toBe(1);
+    expect(evaluateExpression('value > 0 && value <= 10', { value: 5 })).toBe(true);
+    expect(evaluateExpression('value === "x" ? "yes" : "no"', { value: 'y' })).toBe('no');
+    expect(evaluateExpression('!value', { value: 0 })).toBe(true);
+    expect(evaluateExpression('value == "1" && data.missing == null', { value: 1, data: {} })).toBe(true);
+    expect(evaluateExpression('value != "1"', { value: 1 })).toBe(false);
+  });
+
+  it('should call string and array helpers', () => {
+    const scope = { data: [{ n: 3, done: true }, { n: 4, done: false }] };
+
+    expect(evaluateExpression('"hello".toUpperCase()')).toBe('HELLO');
+    expect(evaluateExpression('data.filter(item => item.done).length', scope)).toBe(1);
+    expect(evaluateExpression('sum(data.map(item => item.n))', scope)).toBe(7);
+    expect(evaluateExpression('data.reduce((total, item) => total + item.n, 0)', scope)).toBe(7);
+    expect(evaluateExpression('{ count: len(data), first: first(data).n }', scope)).toEqual({ count: 2, first: 3 });
+  });
+
+  it('should call date helpers', () => {
+    expect(evaluateExpression('formatDate(addDays(date("2024-01-30"), 2), "yyyy-MM-dd")')).toBe('2024-02-01');
+    expect(evaluateExpression('differenceInDays(date("2024-01-10"), date("2024-01-01"))')).toBe(9);
+  });
+
+  it('should block access outside the sandbox', () => {
+    expect(() => evaluateExpression('process.exit()')).toThrow('Unknown identifier "process"');
+    expect(() => evaluateExpression('data.constructor', { data: {} })).toThrow('not allowed');
+    expect(() => evaluateExpression('data["__proto__"]', { data: {} })).toThrow('not allowed');
+    expect(() => evaluateExpression('upper.call(null, "x")')).toThrow('not allowed');
+    expect(() => evaluateExpression('data.valueOf()', { data: {} })).toThrow('Method "valueOf" is not allowed');
+
+    // Strings cannot grow without bound
+    expect(evaluateExpression('"7".padStart(3, "0")')).toBe('007');
+    expect(() => evaluateExpression('text.repeat(60000)', { text: 'ab' })).toThrow('repeat() is limited to 100000 characters');
+    expect(() => evaluateExpression('"x".padEnd(1000000)')).toThrow('padEnd() is limited to 100000 characters');
+    expect(() => evaluateExpression("'x'.repeat(10000).replaceAll('x', 'x'.repeat(10000)).length")).toThrow(
+      'replaceAll() is limited to 100000 characters',
+    );
+    const big = { text: 'x'.repeat(10000), list: Array.from({ length: 1000 }, () => 'x'.repeat(1000)) };
+    expect(() => evaluateExpression('text.replaceAll("x", text)', big)).toThrow('replaceAll() is limited to 100000 characters');
+    expect(() => evaluateExpression('text.replace("x", "$`$`$`$`$`$`$`$`$`$`$`")', big)).toThrow('replace() is limited');
+    expect(() => evaluateExpression('text.replaceAll("x", () => text)', big)).toThrow('replaceAll() is limited');
+    expect(() => evaluateExpression('list.join("")', big)).toThrow('join() is limited to 100000 characters');
+    expect(() => evaluateExpression('text + list', big)).toThrow('A string is limited to 100000 characters');
+    expect(() => evaluateExpression('toJson(list)', big)).toThrow('JSON is limited to 100000 characters');
+    expect(() => evaluateExpression('range(101).map(() => list).flat()', big)).toThrow('flat() is limited to 100000 items');
+    expect(() => evaluateExpression('split(text + text, "")', big)).not.toThrow();
+    expect(evaluateExpression('text.replaceAll("x", "yy").length', big)).toBe(20000);
+  });
+
+  it('should enforce the time budget', () => {
+    expect(() =>
+      evaluateExpression('range(10000).map(i => range(10000).filter(j => j > i).length)', {}, { timeout: 10 }),
+    ).toThrow('time budget');
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => assertValidExpression('value > )')).toThrow(ExpressionError);
+    expect(() => assertValidExpression('value > )')).toThrow('Unexpected ")" at position 8');
+  });
+});
@@ -0,0 +1,784 @@
+/**
+ * Workflow Expression Language
+ *
+ * Small sandboxed evaluator for the expressions used by Transform and
+ * If Condition components and by connection transforms. Expressions look
+ * like JavaScript but can only read the variables they are given, call the
+ * helpers below and a whitelist of string/array/date methods. There is no
+ * access to globals, prototypes or constructors.
+ *
+ * Examples:
+ *   data.title.toUpperCase()
+ *   value.items.filter(item => item.done).length > 0
+ *   formatDate(addDays(now(), 1), 'yyyy-MM-dd')
+ */
+
+import {
+  format,
+  parseISO,
+  addDays,
+  addHours,
+  addMinutes,
+  subDays,
+  differenceInDays,
+  differenceInHours,
+  differenceInMinutes,
+  isBefore,
+  isAfter,
+  startOfDay,
+  endOfDay,
+} from 'date-fns';
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    readonly expression: string,
+    readonly position?: number,
+  ) {
+    super(position !== undefined ? `${message} at position ${position} in "${expression}"` : `${message} in "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface EvaluateOptions {
+  timeout?: number; // milliseconds, default 50
+}
+
+const DEFAULT_TIMEOUT = 50;
+const MAX_REPEAT = 10000;
+const MAX_LENGTH = 100000; // Longest string (characters) or array (items) an expression may build
+const MAX_COMPILED = 500; // Parsed expressions kept for reuse
+
+// Tokenizer
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const PUNCTUATION = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '=>',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(expression.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) {
+          const escaped = expression[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += expression[i++];
+        }
+      }
+      if (i >= expression.length) {
+        throw new ExpressionError('Unterminated string', expression, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const punctuation = PUNCTUATION.find((p) => expression.startsWith(p, i));
+    if (!punctuation) {
+      throw new ExpressionError(`Unexpected character "${char}"`, expression, i);
+    }
+    tokens.push({ type: 'punctuation', value: punctuation, position: i });
+    i += punctuation.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+}
+
+// Parser
+
+type Node =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'member'; object: Node; property: Node; optional: boolean; position: number }
+  | { type: 'call'; callee: Node; args: Node[]; position: number }
+  | { type: 'unary'; operator: string; argument: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { type: 'array'; elements: Node[] }
+  | { type: 'object'; properties: Array<{ key: string; value: Node }> }
+  | { type: 'arrow'; params: string[]; body: Node };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '>': 5, '<=': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private expression: string,
+  ) {}
+
+  parse(): Node {
+    const node = this.parseExpression();
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseExpression(): Node {
+    if (this.isArrowStart()) {
+      return this.parseArrow();
+    }
+
+    const test = this.parseBinary(1);
+    if (this.match('?')) {
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punctuation' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token.type === 'punctuation' && ['!', '-', '+'].includes(token.value)) {
+      this.index++;
+      return { type: 'unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+      if (this.match('.') || this.match('?.')) {
+        const name = this.next();
+        if (name.type !== 'identifier') {
+          this.fail('Expected property name', name.position);
+        }
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: name.value },
+          optional: token.value === '?.',
+          position: name.position,
+        };
+      } else if (this.match('[')) {
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { type: 'member', object: node, property, optional: false, position: token.position };
+      } else if (this.match('(')) {
+        const args = this.parseList(')');
+        node = { type: 'call', callee: node, args, position: token.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (token.value === 'undefined') return { type: 'literal', value: undefined };
+        return { type: 'identifier', name: token.value, position: token.position };
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseExpression();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']') };
+        }
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token.position);
+  }
+
+  private parseObject(): Node {
+    const properties: Array<{ key: string; value: Node }> = [];
+
+    while (!this.match('}')) {
+      const key = this.next();
+      if (key.type !== 'identifier' && key.type !== 'string') {
+        this.fail('Expected property name', key.position);
+      }
+      if (this.match(':')) {
+        properties.push({ key: key.value, value: this.parseExpression() });
+      } else {
+        properties.push({ key: key.value, value: { type: 'identifier', name: key.value, position: key.position } });
+      }
+      if (!this.match(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+
+    return { type: 'object', properties };
+  }
+
+  private parseArrow(): Node {
+    const params: string[] = [];
+    if (this.match('(')) {
+      while (!this.match(')')) {
+        params.push(this.next().value);
+        this.match(',');
+      }
+    } else {
+      params.push(this.next().value);
+    }
+    this.expect('=>');
+    return { type: 'arrow', params, body: this.parseExpression() };
+  }
+
+  private isArrowStart(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier') {
+      return this.peek(1).value === '=>';
+    }
+    if (token.value !== '(') {
+      return false;
+    }
+
+    let offset = 1;
+    while (this.peek(offset).type === 'identifier') {
+      offset++;
+      if (this.peek(offset).value === ',') offset++;
+    }
+    return this.peek(offset).value === ')' && this.peek(offset + 1).value === '=>';
+  }
+
+  private parseList(closing: string): Node[] {
+    const items: Node[] = [];
+    while (!this.match(closing)) {
+      items.push(this.parseExpression());
+      if (!this.match(',')) {
+        this.expect(closing);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private match(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.match(value)) {
+      const token = this.peek();
+      this.fail(`Expected "${value}" but found ${token.type === 'eof' ? 'end of expression' : `"${token.value}"`}`);
+    }
+  }
+
+  private fail(message: string, position: number = this.peek().position): never {
+    throw new ExpressionError(message, this.expression, position);
+  }
+}
+
+// Helpers and whitelisted methods
+
+const HELPERS: Record<string, (...args: any[]) => any> = {
+  // Strings
+  upper: (s: any) => String(s).toUpperCase(),
+  lower: (s: any) => String(s).toLowerCase(),
+  trim: (s: any) => String(s).trim(),
+  split: (s: any, separator: string) => String(s).split(separator),
+  contains: (haystack: any, needle: any) => (Array.isArray(haystack) ? haystack : String(haystack)).includes(needle),
+
+  // Arrays
+  len: (v: any) => (v == null ? 0 : Array.isArray(v) || typeof v === 'string' ? v.length : Object.keys(v).length),
+  first: (a: any[]) => a[0],
+  last: (a: any[]) => a[a.length - 1],
+  sum: (a: any[]) => a.reduce((total, n) => total + Number(n), 0),
+  min: (a: any[]) => Math.min(...a),
+  max: (a: any[]) => Math.max(...a),
+  avg: (a: any[]) => (a.length === 0 ? 0 : a.reduce((total, n) => total + Number(n), 0) / a.length),
+  unique: (a: any[]) => Array.from(new Set(a)),
+  range: (start: number, end?: number) => {
+    const [from, to] = end === undefined ? [0, start] : [start, end];
+    if (to - from > MAX_REPEAT) throw new Error(`range() is limited to ${MAX_REPEAT} items`);
+    return Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+  },
+  keys: (o: any) => Object.keys(o ?? {}),
+  values: (o: any) => Object.values(o ?? {}),
+
+  // Numbers and conversion
+  round: (n: number, digits: number = 0) => Math.round(n * 10 ** digits) / 10 ** digits,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+  number: (v: any) => Number(v),
+  string: (v: any) => (typeof v === 'object' && v !== null ? toJson(v) : String(v)),
+  boolean: (v: any) => Boolean(v),
+  toJson: (v: any) => toJson(v),
+  parseJson: (s: string) => JSON.parse(s),
+
+  // Dates (date-fns)
+  now: () => new Date(),
+  date: (v: any) => (typeof v === 'string' ? parseISO(v) : new Date(v)),
+  formatDate: (d: any, pattern: string = 'yyyy-MM-dd') => format(toDate(d), pattern),
+  addDays: (d: any, n: number) => addDays(toDate(d), n),
+  addHours: (d: any, n: number) => addHours(toDate(d), n),
+  addMinutes: (d: any, n: number) => addMinutes(toDate(d), n),
+  subDays: (d: any, n: number) => subDays(toDate(d), n),
+  differenceInDays: (a: any, b: any) => differenceInDays(toDate(a), toDate(b)),
+  differenceInHours: (a: any, b: any) => differenceInHours(toDate(a), toDate(b)),
+  differenceInMinutes: (a: any, b: any) => differenceInMinutes(toDate(a), toDate(b)),
+  isBefore: (a: any, b: any) => isBefore(toDate(a), toDate(b)),
+  isAfter: (a: any, b: any) => isAfter(toDate(a), toDate(b)),
+  startOfDay: (d: any) => startOfDay(toDate(d)),
+  endOfDay: (d: any) => endOfDay(toDate(d)),
+};
+
+const STRING_METHODS = new Set([
+  'toUpperCase', 'toLowerCase', 'trim', 'trimStart', 'trimEnd', 'split', 'slice', 'substring',
+  'includes', 'startsWith', 'endsWith', 'indexOf', 'lastIndexOf', 'replace', 'replaceAll',
+  'padStart', 'padEnd', 'repeat', 'charAt', 'at', 'concat',
+]);
+
+const ARRAY_METHODS = new Set([
+  'map', 'filter', 'find', 'findIndex', 'some', 'every', 'reduce', 'slice', 'includes',
+  'indexOf', 'join', 'concat', 'flat', 'at', 'sort', 'reverse',
+]);
+
+const NUMBER_METHODS = new Set(['toFixed', 'toString']);
+
+const DATE_METHODS = new Set([
+  'getTime', 'toISOString', 'getFullYear', 'getMonth', 'getDate', 'getDay', 'getHours', 'getMinutes',
+]);
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+function toJson(value: any): string {
+  if (textLength(value) > MAX_LENGTH) {
+    throw new Error(`JSON is limited to ${MAX_LENGTH} characters`);
+  }
+  return JSON.stringify(value);
+}
+
+function isText(value: any): boolean {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null);
+}
+
+/**
+ * Length of a value as text: as it joins for arrays, as JSON for other
+ * objects. Counting stops once past MAX_LENGTH.
+ */
+function textLength(value: any, seen = new Set<object>()): number {
+  if (typeof value === 'string') return value.length;
+  if (typeof value !== 'object' || value === null || value instanceof Date) return String(value).length;
+  if (seen.has(value)) return 0;
+  seen.add(value);
+
+  let length = 2;
+  for (const [key, item] of Object.entries(value)) {
+    length += (Array.isArray(value) ? 1 : key.length + 4) + (item == null ? 0 : textLength(item, seen));
+    if (length > MAX_LENGTH) break;
+  }
+  return length;
+}
+
+/**
+ * Length of the string or array a whitelisted method call would build, for
+ * the methods that can build more than they are given
+ */
+function resultLength(object: any, name: string, args: any[]): number {
+  if (typeof object === 'string') {
+    switch (name) {
+      case 'repeat':
+        return object.length * Number(args[0]);
+      case 'padStart':
+      case 'padEnd':
+        return Number(args[0]);
+      case 'concat':
+        return args.reduce((length, arg) => length + textLength(arg), object.length);
+      case 'replace':
+      case 'replaceAll': {
+        // Replacement functions are checked as they run
+        const [pattern, replacement] = args;
+        if (typeof replacement !== 'string') return 0;
+        const matches = typeof pattern === 'string' ? countMatches(object, pattern) : object.length + 1;
+        // $& and the like insert (part of) the original string
+        const inserts = replacement.split('$').length - 1;
+        const perMatch = replacement.length + inserts * object.length;
+        return object.length + (name === 'replace' ? Math.min(matches, 1) : matches) * perMatch;
+      }
+    }
+  }
+
+  if (Array.isArray(object)) {
+    switch (name) {
+      case 'join': {
+        let length = String(args[0] ?? ',').length * Math.max(0, object.length - 1);
+        for (const item of object) {
+          length += item == null ? 0 : textLength(item);
+          if (length > MAX_LENGTH) break;
+        }
+        return length;
+      }
+      case 'concat':
+        return args.reduce((length, arg) => length + (Array.isArray(arg) ? arg.length : 1), object.length);
+      case 'flat':
+        return flatLength(object, args[0] ?? 1);
+    }
+  }
+
+  return 0;
+}
+
+function countMatches(text: string, pattern: string): number {
+  if (pattern === '') return text.length + 1;
+  let count = 0;
+  for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + pattern.length)) {
+    count++;
+  }
+  return count;
+}
+
+function flatLength(array: any[], depth: number): number {
+  let length = 0;
+  for (const item of array) {
+    length += Array.isArray(item) && depth >= 1 ? flatLength(item, depth - 1) : 1;
+    if (length > MAX_LENGTH) break;
+  }
+  return length;
+}
+
+function toDate(value: any): Date {
+  return value instanceof Date ? value : typeof value === 'string' ? parseISO(value) : new Date(value);
+}
+
+// Evaluator
+
+class Evaluator {
+  private steps = 0;
+  private deadline: number;
+
+  constructor(
+    private expression: string,
+    timeout: number,
+  ) {
+    this.deadline = Date.now() + timeout;
+  }
+
+  evaluate(node: Node, scope: Record<string, any>): any {
+    if (++this.steps % 256 === 0 && Date.now() > this.deadline) {
+      throw new ExpressionError('Expression exceeded its time budget', this.expression);
+    }
+
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(scope, node.name)) {
+          return scope[node.name];
+        }
+        if (Object.prototype.hasOwnProperty.call(HELPERS, node.name)) {
+          return HELPERS[node.name];
+        }
+        throw new ExpressionError(`Unknown identifier "${node.name}"`, this.expression, node.position);
+
+      case 'member': {
+        const object = this.evaluate(node.object, scope);
+        const property = this.evaluate(node.property, scope);
+        if (object === null || object === undefined) {
+          if (node.optional) return undefined;
+          throw new ExpressionError(`Cannot read "${String(property)}" of ${object}`, this.expression, node.position);
+        }
+        return this.getProperty(object, property, node.position);
+      }
+
+      case 'call':
+        return this.call(node, scope);
+
+      case 'unary': {
+        const value = this.evaluate(node.argument, scope);
+        if (node.operator === '!') return !value;
+        if (node.operator === '-') return -value;
+        return +value;
+      }
+
+      case 'binary':
+        return this.binary(node.operator, node.left, node.right, scope);
+
+      case 'conditional':
+        return this.evaluate(node.test, scope)
+          ? this.evaluate(node.consequent, scope)
+          : this.evaluate(node.alternate, scope);
+
+      case 'array':
+        return node.elements.map((element) => this.evaluate(element, scope));
+
+      case 'object': {
+        const result: Record<string, any> = {};
+        for (const { key, value } of node.properties) {
+          if (BLOCKED_PROPERTIES.has(key)) {
+            throw new ExpressionError(`Property "${key}" is not allowed`, this.expression);
+          }
+          result[key] = this.evaluate(value, scope);
+        }
+        return result;
+      }
+
+      case 'arrow':
+        return (...args: any[]) => {
+          const inner = { ...scope };
+          node.params.forEach((param, i) => (inner[param] = args[i]));
+          return this.evaluate(node.body, inner);
+        };
+    }
+  }
+
+  private binary(operator: string, leftNode: Node, rightNode: Node, scope: Record<string, any>): any {
+    const left = this.evaluate(leftNode, scope);
+
+    // Short-circuit operators
+    if (operator === '&&') return left && this.evaluate(rightNode, scope);
+    if (operator === '||') return left || this.evaluate(rightNode, scope);
+    if (operator === '??') return left ?? this.evaluate(rightNode, scope);
+
+    const right = this.evaluate(rightNode, scope);
+    switch (operator) {
+      case '+':
+        if (isText(left) || isText(right)) {
+          this.assertLength(textLength(left) + textLength(right), 'A string', 'characters');
+        }
+        return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      case '<': return left < right;
+      case '>': return left > right;
+      case '<=': return left <= right;
+      case '>=': return left >= right;
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '===': return left === right;
+      case '!==': return left !== right;
+    }
+    throw new ExpressionError(`Unknown operator "${operator}"`, this.expression);
+  }
+
+  private call(node: Extract<Node, { type: 'call' }>, scope: Record<string, any>): any {
+    const args = node.args.map((arg) => this.evaluate(arg, scope));
+
+    if (node.callee.type !== 'member') {
+      const fn = this.evaluate(node.callee, scope);
+      if (typeof fn !== 'function') {
+        throw new ExpressionError('Value is not a function', this.expression, node.position);
+      }
+      return this.invoke(() => fn(...args), node.position);
+    }
+
+    const object = this.evaluate(node.callee.object, scope);
+    const name = this.evaluate(node.callee.property, scope);
+    if (object === null || object === undefined) {
+      if (node.callee.optional) return undefined;
+      throw new ExpressionError(`Cannot call "${String(name)}" on ${object}`, this.expression, node.position);
+    }
+
+    // Functions stored on plain objects (e.g. arrow functions passed in scope)
+    if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, name) && typeof object[name] === 'function') {
+      return this.invoke(() => object[name](...args), node.position);
+    }
+
+    const allowed =
+      typeof object === 'string' ? STRING_METHODS :
+      Array.isArray(object) ? ARRAY_METHODS :
+      typeof object === 'number' ? NUMBER_METHODS :
+      object instanceof Date ? DATE_METHODS :
+      undefined;
+
+    if (!allowed || !allowed.has(name)) {
+      throw new ExpressionError(`Method "${String(name)}" is not allowed`, this.expression, node.position);
+    }
+
+    // One native call can build far more than it is given, so the size of
+    // what it would build is checked first
+    const unit = typeof object === 'string' || name === 'join' ? 'characters' : 'items';
+    this.assertLength(resultLength(object, name, args), `${name}()`, unit, node.position);
+
+    if (typeof object === 'string' && (name === 'replace' || name === 'replaceAll') && typeof args[1] === 'function') {
+      const replacer = args[1];
+      let length = object.length;
+      args[1] = (...match: any[]) => {
+        const replacement = String(replacer(...match));
+        length += replacement.length;
+        this.assertLength(length, `${name}()`, unit, node.position);
+        return replacement;
+      };
+    }
+
+    // Sorting and reversing work on a copy so inputs are never mutated
+    const target = Array.isArray(object) && (name === 'sort' || name === 'reverse') ? [...object] : object;
+    return this.invoke(() => target[name](...args), node.position);
+  }
+
+  private invoke(fn: () => any, position: number): any {
+    let result;
+    try {
+      result = fn();
+    } catch (error) {
+      if (error instanceof ExpressionError) throw error;
+      throw new ExpressionError((error as Error).message, this.expression, position);
+    }
+
+    if (typeof result === 'string') this.assertLength(result.length, 'A string', 'characters', position);
+    if (Array.isArray(result)) this.assertLength(result.length, 'An array', 'items', position);
+    return result;
+  }
+
+  private assertLength(length: number, what: string, unit: string, position?: number): void {
+    if (length > MAX_LENGTH) {
+      throw new ExpressionError(`${what} is limited to ${MAX_LENGTH} ${unit}`, this.expression, position);
+    }
+  }
+
+  private getProperty(object: any, property: any, position: number): any {
+    const key = String(property);
+    if (BLOCKED_PROPERTIES.has(key)) {
+      throw new ExpressionError(`Property "${key}" is not allowed`, this.expression, position);
+    }
+
+    if ((typeof object === 'string' || Array.isArray(object)) && key === 'length') {
+      return object.length;
+    }
+    if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+      return object[key];
+    }
+    if (typeof object === 'string' && /^\d+$/.test(key)) {
+      return object[Number(key)];
+    }
+    return undefined;
+  }
+}
+
+// Least recently used first
+const compiled = new Map<string, Node>();
+
+function compile(expression: string): Node {
+  let node = compiled.get(expression);
+  if (node) {
+    compiled.delete(expression);
+  } else {
+    node = new Parser(tokenize(expression), expression).parse();
+    if (compiled.size >= MAX_COMPILED) {
+      compiled.delete(compiled.keys().next().value!);
+    }
+  }
+  compiled.set(expression, node);
+  return node;
+}
+
+/**
+ * Check an expression's syntax without evaluating it, throwing an ExpressionError if invalid
+ */
+export function assertValidExpression(expression: string): void {
+  compile(expression);
+}
+
+/**
+ * Evaluate an expression against the given variables
+ */
+export function evaluateExpression(
+  expression: string,
+  scope: Record<string, any> = {},
+  options: EvaluateOptions = {},
+): any {
+  const node = compile(expression);
+  return new Evaluator(expression, options.timeout ?? DEFAULT_TIMEOUT).evaluate(node, scope);
+}
+
+/**
+ * Names of the built-in helper functions available to expressions
+ */
+export function getExpressionHelpers(): string[] {
+  return Object.keys(HELPERS);
+}
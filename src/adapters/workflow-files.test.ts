@@ -0,0 +1,122 @@
+/**
+ * Tests for Workflow Files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JsonStorage } from './json-storage.js';
+import { WorkflowStorageAdapter } from './workflow-storage.js';
+import { exportWorkflow, parseWorkflowFile, importWorkflow, formatFromPath } from './workflow-files.js';
+import type { WorkflowDefinition } from '@ports/workflow.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+describe('Workflow Files', () => {
+  let storage: JsonStorage;
+  let workflows: WorkflowStorageAdapter;
+  let testDir: string;
+  let workflow: WorkflowDefinition;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-files-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    workflows = new WorkflowStorageAdapter(storage);
+
+    const created = await workflows.createWorkflow({
+      name: 'Greeter',
+      version: '1.2.0',
+      components: [
+        {
+          id: 'input',
+          type: 'input',
+          name: 'User Input',
+          config: { prompt: 'Name?' },
+          inputs: [],
+          outputs: [{ id: 'out', name: 'userInput', type: 'string', required: true }],
+          position: { x: 0, y: 0 },
+        },
+        {
+          id: 'done',
+          type: 'output',
+          name: 'Return',
+          config: {},
+          inputs: [{ id: 'in', name: 'result', type: 'any', required: true }],
+          outputs: [],
+          position: { x: 20, y: 0 },
+        },
+      ],
+      connections: [
+        {
+          id: 'c1',
+          sourceComponentId: 'input',
+          sourcePortId: 'out',
+          targetComponentId: 'done',
+          targetPortId: 'in',
+          transform: { type: 'custom', expression: 'upper(data)' },
+        },
+      ],
+    });
+    workflow = await workflows.updateWorkflow(created.id, {
+      metadata: { ...created.metadata, author: 'sam', tags: ['demo'] },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a workflow through YAML and JSON', () => {
+    for (const format of ['yaml', 'json'] as const) {
+      const text = exportWorkflow(workflow, format);
+      const file = parseWorkflowFile(text, format);
+
+      expect(file.formatVersion).toBe(1);
+      expect(file.workflow).toEqual({
+        id: workflow.id,
+        name: 'Greeter',
+        version: '1.2.0',
+        components: workflow.components,
+        connections: workflow.connections,
+        metadata: { author: 'sam', tags: ['demo'] },
+      });
+    }
+  });
+
+  it('should produce the same file for an unchanged workflow', async () => {
+    const touched = await workflows.updateWorkflow(workflow.id, {});
+    expect(exportWorkflow(touched, 'yaml')).toBe(exportWorkflow(workflow, 'yaml'));
+  });
+
+  it('should upgrade a bare stored definition', async () => {
+    const stored = JSON.stringify(await storage.read(`workflows/${workflow.id}/definition`));
+    const file = parseWorkflowFile(stored, 'json');
+
+    expect(file.formatVersion).toBe(1);
+    expect(file.workflow.metadata).toEqual({ author: 'sam', tags: ['demo'] });
+    expect(file.workflow.components).toHaveLength(2);
+  });
+
+  it('should report schema problems with their path', () => {
+    const text = exportWorkflow(workflow, 'yaml').replace('type: string', 'type: text');
+
+    expect(() => parseWorkflowFile(text, 'yaml')).toThrow(/components\.0\.outputs\.0\.type: Invalid enum value/);
+    expect(() => parseWorkflowFile('formatVersion: 9\nworkflow: {}', 'yaml')).toThrow('format 9 is newer');
+    expect(() => parseWorkflowFile('{ nope', 'json')).toThrow('Invalid JSON');
+    expect(() => formatFromPath('workflow.txt')).toThrow('Cannot tell the format');
+  });
+
+  it('should import a file as a new workflow', async () => {
+    const { workflow: imported, validation } = await importWorkflow(
+      workflows,
+      exportWorkflow(workflow, 'yaml'),
+      'yaml',
+    );
+
+    expect(imported.id).not.toBe(workflow.id);
+    expect(imported.name).toBe('Greeter');
+    expect(imported.metadata.author).toBe('sam');
+    expect(validation.errors).toEqual([]);
+    expect(await workflows.getWorkflow(imported.id)).not.toBeNull();
+  });
+});
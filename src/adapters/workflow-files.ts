@@ -0,0 +1,217 @@
+/**
+ * Workflow Files
+ *
+ * Portable YAML/JSON format for workflow definitions, so workflows can be
+ * reviewed in git and moved between machines. Files carry a format version;
+ * older files are upgraded step by step before being validated.
+ */
+
+import { z } from 'zod';
+import YAML from 'yaml';
+import type { WorkflowPort, WorkflowDefinition, WorkflowValidationResult } from '@ports/workflow.js';
+
+export const WORKFLOW_FORMAT_VERSION = 1;
+
+export type WorkflowFileFormat = 'yaml' | 'json';
+
+const dataTypeSchema = z.enum(['string', 'number', 'boolean', 'date', 'object', 'array', 'any']);
+
+const portSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: dataTypeSchema,
+  required: z.boolean(),
+  description: z.string().optional(),
+  defaultValue: z.any().optional(),
+});
+
+const componentSchema = z.object({
+  id: z.string(),
+  type: z.enum(['input', 'action', 'logic', 'output', 'trigger', 'container']),
+  name: z.string(),
+  description: z.string().optional(),
+  template: z.string().optional(),
+  deterministic: z.boolean().optional(),
+  config: z.record(z.any()),
+  inputs: z.array(portSchema),
+  outputs: z.array(portSchema),
+  position: z.object({ x: z.number(), y: z.number() }),
+  metadata: z
+    .object({
+      color: z.string().optional(),
+      icon: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+const connectionSchema = z.object({
+  id: z.string(),
+  sourceComponentId: z.string(),
+  sourcePortId: z.string(),
+  targetComponentId: z.string(),
+  targetPortId: z.string(),
+  transform: z
+    .object({
+      type: z.enum(['direct', 'map', 'filter', 'custom']),
+      expression: z.string().optional(),
+    })
+    .optional(),
+});
+
+const workflowSchema = z.object({
+  id: z.string().optional(), // Id on the exporting machine; imports get a new one
+  name: z.string().min(1),
+  description: z.string().optional(),
+  version: z.string(),
+  components: z.array(componentSchema),
+  connections: z.array(connectionSchema),
+  metadata: z
+    .object({
+      author: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      category: z.string().optional(),
+    })
+    .optional(),
+  appSettings: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      version: z.string(),
+    })
+    .optional(),
+});
+
+export const workflowFileSchema = z.object({
+  formatVersion: z.literal(WORKFLOW_FORMAT_VERSION),
+  workflow: workflowSchema,
+});
+
+export type WorkflowFile = z.infer<typeof workflowFileSchema>;
+
+/**
+ * Upgrades keyed by the format version they upgrade from. Each returns
+ * data in the next version's shape.
+ */
+const upgrades: Record<number, (data: any) => any> = {
+  // 0: a bare WorkflowDefinition as kept in storage (e.g. copied out of
+  // ~/.inkhat/data/workflows/<id>/definition.json)
+  0: (definition) => {
+    const { metadata, ...workflow } = definition;
+    return {
+      formatVersion: 1,
+      workflow: { ...workflow, metadata: pickPortableMetadata(metadata) },
+    };
+  },
+};
+
+export function formatFromPath(filePath: string): WorkflowFileFormat {
+  const extension = filePath.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'yaml' || extension === 'yml') return 'yaml';
+  throw new Error(`Cannot tell the format of "${filePath}"; use a .yaml, .yml or .json file or pass --format`);
+}
+
+/**
+ * Serialize a workflow. Timestamps are left out so re-exporting an
+ * unchanged workflow produces an identical file.
+ */
+export function exportWorkflow(workflow: WorkflowDefinition, format: WorkflowFileFormat): string {
+  const file: WorkflowFile = {
+    formatVersion: WORKFLOW_FORMAT_VERSION,
+    workflow: stripUndefined({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      version: workflow.version,
+      components: workflow.components,
+      connections: workflow.connections,
+      metadata: pickPortableMetadata(workflow.metadata),
+      appSettings: workflow.appSettings,
+    }),
+  };
+
+  return format === 'json' ? `${JSON.stringify(file, null, 2)}\n` : YAML.stringify(file);
+}
+
+/**
+ * Parse, upgrade and validate the contents of a workflow file
+ */
+export function parseWorkflowFile(text: string, format: WorkflowFileFormat): WorkflowFile {
+  let data: any;
+  try {
+    data = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid workflow file: expected an object');
+  }
+
+  let version = data.formatVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid workflow file: formatVersion must be a whole number, got ${JSON.stringify(version)}`);
+  }
+  if (version > WORKFLOW_FORMAT_VERSION) {
+    throw new Error(
+      `Workflow file format ${version} is newer than this version of inkhat supports (${WORKFLOW_FORMAT_VERSION})`,
+    );
+  }
+
+  while (version < WORKFLOW_FORMAT_VERSION) {
+    data = upgrades[version](data);
+    version++;
+  }
+
+  const parsed = workflowFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid workflow file:\n  ${issues.join('\n  ')}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Create a workflow from file contents. The workflow is stored even if it
+ * does not pass validateWorkflow, so half-finished workflows can be shared;
+ * the validation result is returned for the caller to report.
+ */
+export async function importWorkflow(
+  workflows: WorkflowPort,
+  text: string,
+  format: WorkflowFileFormat,
+): Promise<{ workflow: WorkflowDefinition; validation: WorkflowValidationResult }> {
+  const { workflow: imported } = parseWorkflowFile(text, format);
+
+  // The workflow gets a new id, so imports never overwrite an existing one
+  let workflow = await workflows.createWorkflow(omit(imported, 'id', 'metadata'));
+  if (imported.metadata) {
+    workflow = await workflows.updateWorkflow(workflow.id, {
+      metadata: { ...workflow.metadata, ...imported.metadata },
+    });
+  }
+
+  return { workflow, validation: await workflows.validateWorkflow(workflow) };
+}
+
+function pickPortableMetadata(metadata?: Partial<WorkflowDefinition['metadata']>) {
+  if (!metadata) return undefined;
+  const { author, tags, category } = metadata;
+  const portable = stripUndefined({ author, tags, category });
+  return Object.keys(portable).length > 0 ? portable : undefined;
+}
+
+function omit<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy;
+}
+
+function stripUndefined<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
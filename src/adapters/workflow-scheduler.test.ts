@@ -0,0 +1,188 @@
+/**
+ * Tests for Workflow Scheduler
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JsonStorage } from './json-storage.js';
+import { WorkflowStorageAdapter } from './workflow-storage.js';
+import { WorkflowScheduler, parseSchedule, parseDuration } from './workflow-scheduler.js';
+import { builtInComponentTemplates } from './workflow-templates.js';
+import type { WorkflowComponent } from '@ports/workflow.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const HOUR = 60 * 60 * 1000;
+
+function scheduleTrigger(config: Record<string, any>): WorkflowComponent {
+  const template = builtInComponentTemplates.find((t) => t.name === 'Schedule')!;
+  return {
+    id: 'tick',
+    type: 'trigger',
+    name: 'tick',
+    template: 'Schedule',
+    config: { ...template.defaultConfig, ...config },
+    inputs: [],
+    outputs: template.outputs.map((p) => ({ ...p, id: p.name })),
+    position: { x: 0, y: 0 },
+  };
+}
+
+describe('parseSchedule', () => {
+  it('should find the next cron run in UTC', () => {
+    const daily = parseSchedule({ schedule: '0 9 * * *', timezone: 'UTC' });
+    expect(daily.next(new Date('2026-03-01T10:00:00Z')).toISOString()).toBe('2026-03-02T09:00:00.000Z');
+
+    const quarterly = parseSchedule({ schedule: '*/15 * * * *' });
+    expect(quarterly.next(new Date('2026-03-01T10:15:00Z')).toISOString()).toBe('2026-03-01T10:30:00.000Z');
+  });
+
+  it('should follow the wall clock of the configured timezone across DST', () => {
+    const weekdays = parseSchedule({ schedule: '0 9 * * mon-fri', timezone: 'America/New_York' });
+
+    // Friday 10:00 EST, next is Monday 9:00 EDT (clocks changed on Sunday)
+    expect(weekdays.next(new Date('2026-03-06T15:00:00Z')).toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('should parse intervals and reject bad config', () => {
+    expect(parseDuration('1h30m')).toBe(1.5 * HOUR);
+    expect(parseSchedule({ schedule: '0 9 * * *', interval: '15m' }).description).toBe('every 900000ms');
+
+    expect(() => parseSchedule({ schedule: '61 * * * *' })).toThrow('out of range 0-59');
+    expect(() => parseSchedule({ schedule: '0 9 * *' })).toThrow('must have 5 fields');
+    expect(() => parseSchedule({ schedule: '0 9 * * *', timezone: 'Mars/Olympus' })).toThrow('Unknown timezone');
+    expect(() => parseSchedule({ interval: 'soon' })).toThrow('Invalid interval');
+  });
+});
+
+describe('WorkflowScheduler', () => {
+  let storage: JsonStorage;
+  let workflows: WorkflowStorageAdapter;
+  let testDir: string;
+  const start = new Date('2026-03-01T12:00:00Z');
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-scheduler-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    workflows = new WorkflowStorageAdapter(storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function createScheduled(config: Record<string, any>, extra: WorkflowComponent[] = []) {
+    return workflows.createWorkflow({
+      name: 'Hourly',
+      version: '1.0.0',
+      components: [scheduleTrigger(config), ...extra],
+      connections: [],
+    });
+  }
+
+  it('should persist the next run and catch up with the latest missed run after a restart', async () => {
+    const workflow = await createScheduled({ interval: '1h' });
+
+    await new WorkflowScheduler({ workflows, storage }).tick(start);
+    const [scheduled] = await new WorkflowScheduler({ workflows, storage }).listSchedules();
+    expect(scheduled.nextRun).toBe('2026-03-01T13:00:00.000Z');
+
+    // A new daemon three and a half hours later
+    const restarted = new WorkflowScheduler({ workflows, storage });
+    await restarted.tick(new Date(start.getTime() + 3.5 * HOUR));
+    await restarted.waitForRuns();
+
+    const [state] = await restarted.listSchedules();
+    expect(state.nextRun).toBe('2026-03-01T16:00:00.000Z');
+    expect(state.lastRun).toBe('2026-03-01T15:00:00.000Z');
+    expect(state.history.map((r) => [r.scheduledFor, r.status])).toEqual([
+      ['2026-03-01T13:00:00.000Z', 'missed'],
+      ['2026-03-01T14:00:00.000Z', 'missed'],
+      ['2026-03-01T15:00:00.000Z', 'completed'],
+    ]);
+
+    const execution = await workflows.getExecution(state.history[2].executionId!);
+    expect(execution?.inputs).toEqual({ tick: '2026-03-01T15:00:00.000Z' });
+    expect(await workflows.listExecutions(workflow.id)).toHaveLength(1);
+  });
+
+  it('should run every missed run with the "all" policy', async () => {
+    const workflow = await createScheduled({ interval: '1h', catchUp: 'all' });
+
+    const scheduler = new WorkflowScheduler({ workflows, storage });
+    await scheduler.tick(start);
+    await scheduler.tick(new Date(start.getTime() + 3.5 * HOUR));
+    await scheduler.waitForRuns();
+
+    const [state] = await scheduler.listSchedules();
+    expect(state.history.map((r) => r.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(await workflows.listExecutions(workflow.id)).toHaveLength(3);
+  });
+
+  it('should run the latest missed run when more runs are due than it catches up on', async () => {
+    const workflow = await createScheduled({ interval: '1m' });
+
+    const events: Array<{ type: string; scheduledFor?: string; reason?: string }> = [];
+    const scheduler = new WorkflowScheduler({
+      workflows,
+      storage,
+      onEvent: (event) => events.push({ type: event.type, scheduledFor: event.scheduledFor?.toISOString(), reason: event.reason }),
+    });
+    await scheduler.tick(start);
+    // 150 runs came due, from 12:01 to 14:30
+    await scheduler.tick(new Date(start.getTime() + 150.5 * 60 * 1000));
+    await scheduler.waitForRuns();
+
+    const [state] = await scheduler.listSchedules();
+    expect(state.nextRun).toBe('2026-03-01T14:31:00.000Z');
+    expect(state.lastRun).toBe('2026-03-01T14:30:00.000Z');
+    expect(await workflows.listExecutions(workflow.id)).toHaveLength(1);
+
+    const missed = events.filter((event) => event.type === 'missed');
+    expect(missed).toHaveLength(100);
+    expect(missed[0]).toEqual({
+      type: 'missed',
+      scheduledFor: '2026-03-01T12:01:00.000Z',
+      reason: 'More than 100 runs were due; skipped 50 runs up to 2026-03-01T12:50:00.000Z',
+    });
+    expect(missed[1].scheduledFor).toBe('2026-03-01T12:51:00.000Z');
+    expect(events.at(-1)).toMatchObject({ type: 'completed', scheduledFor: '2026-03-01T14:30:00.000Z' });
+  });
+
+  it('should record runs that come due while the previous one is still running as skipped', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    workflows.getEngine().registerExecutor('action:Wait', async () => {
+      await blocked;
+      return {};
+    });
+
+    const wait: WorkflowComponent = {
+      id: 'wait',
+      type: 'action',
+      name: 'Wait',
+      config: {},
+      inputs: [],
+      outputs: [],
+      position: { x: 0, y: 0 },
+    };
+    await createScheduled({ interval: '1m' }, [wait]);
+
+    const events: string[] = [];
+    const scheduler = new WorkflowScheduler({ workflows, storage, onEvent: (event) => events.push(event.type) });
+    await scheduler.tick(start);
+    await scheduler.tick(new Date(start.getTime() + 60 * 1000));
+    await scheduler.tick(new Date(start.getTime() + 120 * 1000));
+
+    release();
+    await scheduler.waitForRuns();
+
+    expect(events).toEqual(['scheduled', 'started', 'skipped', 'completed']);
+    const [state] = await scheduler.listSchedules();
+    expect(state.history.map((r) => [r.scheduledFor, r.status])).toEqual([
+      ['2026-03-01T12:02:00.000Z', 'skipped'],
+      ['2026-03-01T12:01:00.000Z', 'completed'],
+    ]);
+  });
+});
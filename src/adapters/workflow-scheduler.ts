@@ -0,0 +1,532 @@
+/**
+ * Workflow Scheduler
+ *
+ * Fires workflows that start with a Schedule trigger. A trigger runs on a
+ * cron expression or a fixed interval, and its next run time is persisted
+ * through the StoragePort so a restarted daemon can tell which runs it
+ * missed while it was down.
+ */
+
+import type { StoragePort } from '@ports/storage.js';
+import type {
+  WorkflowPort,
+  WorkflowDefinition,
+  WorkflowComponent,
+  WorkflowExecutionContext,
+} from '@ports/workflow.js';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Most runs a single check will execute under the 'all' catch-up policy
+const MAX_CATCH_UP = 100;
+
+// Run records kept per trigger
+const HISTORY_LIMIT = 50;
+
+/**
+ * What to do with runs that came due while the daemon was not running:
+ * - latest: run the most recent missed run once, record the rest as missed
+ * - all: run every missed run in order (the last MAX_CATCH_UP of them)
+ * - none: record them all as missed
+ */
+export type CatchUpPolicy = 'latest' | 'all' | 'none';
+
+export interface Schedule {
+  // Stable description of the schedule, used to notice config changes
+  readonly description: string;
+
+  // First run time strictly after the given date
+  next(after: Date): Date;
+}
+
+export interface ScheduleRunRecord {
+  scheduledFor: string; // ISO timestamp
+  status: Exclude<WorkflowExecutionContext['state'], 'running'> | 'skipped' | 'missed';
+  executionId?: string;
+  reason?: string;
+  recordedAt: string;
+}
+
+/**
+ * Persisted state of one Schedule trigger
+ */
+export interface ScheduleState {
+  workflowId: string;
+  componentId: string;
+  schedule: string;
+  nextRun: string; // ISO timestamp
+  lastRun?: string;
+  history: ScheduleRunRecord[];
+}
+
+export interface ScheduleEvent {
+  type: 'scheduled' | 'started' | 'error' | ScheduleRunRecord['status'];
+  workflowId?: string;
+  workflowName?: string;
+  componentId?: string;
+  scheduledFor?: Date;
+  executionId?: string;
+  reason?: string;
+}
+
+export interface WorkflowSchedulerOptions {
+  workflows: WorkflowPort;
+  storage: StoragePort<any>;
+  tickInterval?: number; // ms between checks for due runs (default 15s)
+  gracePeriod?: number; // how late a run may start and still count as on time (default 60s)
+  onEvent?: (event: ScheduleEvent) => void;
+}
+
+export class WorkflowScheduler {
+  private workflows: WorkflowPort;
+  private storage: StoragePort<any>;
+  private tickInterval: number;
+  private gracePeriod: number;
+  private onEvent?: (event: ScheduleEvent) => void;
+  private states: Map<string, ScheduleState> = new Map();
+  private running: Map<string, Promise<void>> = new Map();
+  private reportedErrors: Set<string> = new Set();
+  private timer?: ReturnType<typeof setInterval>;
+  private ticking = false;
+
+  constructor(options: WorkflowSchedulerOptions) {
+    this.workflows = options.workflows;
+    this.storage = options.storage;
+    this.tickInterval = options.tickInterval ?? 15 * 1000;
+    this.gracePeriod = options.gracePeriod ?? MINUTE;
+    this.onEvent = options.onEvent;
+  }
+
+  /**
+   * Check for due runs now and then every tickInterval
+   */
+  async start(): Promise<void> {
+    await this.tick();
+
+    this.timer = setInterval(() => {
+      if (this.ticking) return;
+      this.tick().catch((error) => this.emit({ type: 'error', reason: (error as Error).message }));
+    }, this.tickInterval);
+  }
+
+  /**
+   * Stop checking and wait for runs already in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.waitForRuns();
+  }
+
+  async waitForRuns(): Promise<void> {
+    await Promise.all(this.running.values());
+  }
+
+  /**
+   * Start every run that is due at `now`. Workflows are reloaded on each
+   * check so new and edited schedules are picked up without a restart.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    this.ticking = true;
+    try {
+      const workflows = await this.workflows.listWorkflows();
+      for (const workflow of workflows) {
+        for (const trigger of workflow.components.filter(isScheduleTrigger)) {
+          await this.checkTrigger(workflow, trigger, now);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async listSchedules(): Promise<ScheduleState[]> {
+    const keys = await this.storage.list('schedules/*');
+    const states: ScheduleState[] = [];
+
+    for (const key of keys.filter((k) => k.startsWith('schedules/'))) {
+      const state = await this.storage.read(key);
+      if (state) {
+        states.push(state);
+      }
+    }
+
+    return states.sort((a, b) => a.nextRun.localeCompare(b.nextRun));
+  }
+
+  private async checkTrigger(workflow: WorkflowDefinition, trigger: WorkflowComponent, now: Date): Promise<void> {
+    const key = `${workflow.id}/${trigger.id}`;
+
+    let schedule: Schedule;
+    try {
+      schedule = parseSchedule(trigger.config);
+    } catch (error) {
+      const reason = (error as Error).message;
+      if (!this.reportedErrors.has(`${key}:${reason}`)) {
+        this.reportedErrors.add(`${key}:${reason}`);
+        this.emit({ type: 'error', workflowId: workflow.id, workflowName: workflow.name, componentId: trigger.id, reason });
+      }
+      return;
+    }
+
+    let state = await this.loadState(key);
+    if (!state || state.schedule !== schedule.description) {
+      // New trigger or changed schedule: start counting from now
+      state = {
+        workflowId: workflow.id,
+        componentId: trigger.id,
+        schedule: schedule.description,
+        nextRun: schedule.next(now).toISOString(),
+        lastRun: state?.lastRun,
+        history: state?.history ?? [],
+      };
+      await this.saveState(key, state);
+      this.emit({
+        type: 'scheduled',
+        workflowId: workflow.id,
+        workflowName: workflow.name,
+        componentId: trigger.id,
+        scheduledFor: new Date(state.nextRun),
+      });
+      return;
+    }
+
+    let nextRun = new Date(state.nextRun);
+    if (nextRun > now) return;
+
+    // The last MAX_CATCH_UP runs that came due since the last check, oldest
+    // first; older ones are counted as skipped
+    const due: Date[] = [];
+    let overflow: { first: Date; last: Date; count: number } | undefined;
+    while (nextRun <= now) {
+      due.push(nextRun);
+      if (due.length > MAX_CATCH_UP) {
+        const dropped = due.shift()!;
+        overflow = { first: overflow?.first ?? dropped, last: dropped, count: (overflow?.count ?? 0) + 1 };
+      }
+      nextRun = schedule.next(nextRun);
+    }
+
+    const onTime = due.filter((time) => now.getTime() - time.getTime() <= this.gracePeriod);
+    const late = due.filter((time) => !onTime.includes(time));
+    const policy: CatchUpPolicy = trigger.config.catchUp ?? 'latest';
+
+    let toRun: Date[];
+    switch (policy) {
+      case 'all':
+        toRun = due;
+        break;
+      case 'none':
+        toRun = onTime;
+        break;
+      default:
+        toRun = onTime.length > 0 ? onTime : late.slice(-1);
+    }
+
+    // Advance before running so a crash mid-run never fires the same run twice
+    state.nextRun = nextRun.toISOString();
+    await this.saveState(key, state);
+
+    const context = { workflow, trigger, key };
+    if (overflow) {
+      await this.record(context, {
+        scheduledFor: overflow.first.toISOString(),
+        status: 'missed',
+        reason: `More than ${MAX_CATCH_UP} runs were due; skipped ${overflow.count} runs up to ${overflow.last.toISOString()}`,
+      });
+    }
+    for (const time of due.filter((t) => !toRun.includes(t))) {
+      await this.record(context, { scheduledFor: time.toISOString(), status: 'missed', reason: `Catch-up policy "${policy}"` });
+    }
+
+    if (toRun.length === 0) return;
+
+    if (this.running.has(key)) {
+      for (const time of toRun) {
+        await this.record(context, { scheduledFor: time.toISOString(), status: 'skipped', reason: 'Previous run still in progress' });
+      }
+      return;
+    }
+
+    const runs = this.runInOrder(context, toRun).finally(() => this.running.delete(key));
+    this.running.set(key, runs);
+  }
+
+  private async runInOrder(
+    context: { workflow: WorkflowDefinition; trigger: WorkflowComponent; key: string },
+    times: Date[],
+  ): Promise<void> {
+    const { workflow, trigger } = context;
+
+    for (const time of times) {
+      const scheduledFor = time.toISOString();
+      this.emit({ type: 'started', workflowId: workflow.id, workflowName: workflow.name, componentId: trigger.id, scheduledFor: time });
+
+      try {
+        // The Schedule executor reads its timestamp from the input keyed by component id
+        const execution = await this.workflows.executeWorkflow(workflow.id, { [trigger.id]: scheduledFor });
+        await this.record(context, {
+          scheduledFor,
+          status: execution.state === 'running' ? 'completed' : execution.state,
+          executionId: execution.executionId,
+          reason: execution.error,
+        });
+      } catch (error) {
+        await this.record(context, { scheduledFor, status: 'failed', reason: (error as Error).message });
+      }
+    }
+  }
+
+  private async record(
+    context: { workflow: WorkflowDefinition; trigger: WorkflowComponent; key: string },
+    record: Omit<ScheduleRunRecord, 'recordedAt'>,
+  ): Promise<void> {
+    const state = await this.loadState(context.key);
+    if (!state) return;
+
+    state.history = [...state.history, { ...record, recordedAt: new Date().toISOString() }].slice(-HISTORY_LIMIT);
+    if (record.executionId) {
+      state.lastRun = record.scheduledFor;
+    }
+    await this.saveState(context.key, state);
+
+    this.emit({
+      type: record.status,
+      workflowId: context.workflow.id,
+      workflowName: context.workflow.name,
+      componentId: context.trigger.id,
+      scheduledFor: new Date(record.scheduledFor),
+      executionId: record.executionId,
+      reason: record.reason,
+    });
+  }
+
+  private async loadState(key: string): Promise<ScheduleState | null> {
+    if (!this.states.has(key)) {
+      const stored = await this.storage.read(`schedules/${key}`);
+      if (!stored) return null;
+      this.states.set(key, stored);
+    }
+    return this.states.get(key)!;
+  }
+
+  private async saveState(key: string, state: ScheduleState): Promise<void> {
+    this.states.set(key, state);
+    await this.storage.write(`schedules/${key}`, state);
+  }
+
+  private emit(event: ScheduleEvent): void {
+    this.onEvent?.(event);
+  }
+}
+
+function isScheduleTrigger(component: WorkflowComponent): boolean {
+  return component.type === 'trigger' && (component.template ?? component.name) === 'Schedule';
+}
+
+/**
+ * Build a Schedule from a Schedule trigger's config. `interval` (ms, or a
+ * duration like "90s", "15m", "1h30m") wins over the cron `schedule`.
+ */
+export function parseSchedule(config: Record<string, any>): Schedule {
+  if (config.interval) {
+    return new IntervalSchedule(parseDuration(config.interval));
+  }
+  if (config.schedule) {
+    return new CronSchedule(String(config.schedule), config.timezone || 'UTC');
+  }
+  throw new Error('Schedule trigger needs a cron "schedule" or an "interval"');
+}
+
+export function parseDuration(value: number | string): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 1000) {
+      throw new Error(`Interval must be at least 1000ms: ${value}`);
+    }
+    return value;
+  }
+
+  const units: Record<string, number> = { s: 1000, m: MINUTE, h: 60 * MINUTE, d: DAY };
+  const text = value.trim().toLowerCase();
+  if (!/^(\d+[smhd])+$/.test(text)) {
+    throw new Error(`Invalid interval "${value}" (expected e.g. "30s", "15m", "1h30m")`);
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+)([smhd])/g)) {
+    total += Number(amount) * units[unit];
+  }
+  return parseDuration(total);
+}
+
+class IntervalSchedule implements Schedule {
+  readonly description: string;
+
+  constructor(private every: number) {
+    this.description = `every ${every}ms`;
+  }
+
+  next(after: Date): Date {
+    return new Date(after.getTime() + this.every);
+  }
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Standard five-field cron (minute hour day-of-month month day-of-week),
+ * evaluated on the wall clock of an IANA timezone. As in cron, when both
+ * day fields are restricted a day matching either one fires.
+ */
+class CronSchedule implements Schedule {
+  readonly description: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private eitherDay: boolean;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(private expression: string, timezone: string) {
+    const fields = (CRON_ALIASES[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Cron expression "${expression}" must have 5 fields, got ${fields.length}`);
+    }
+
+    this.minutes = parseCronField(fields[0], 0, 59);
+    this.hours = parseCronField(fields[1], 0, 23);
+    this.daysOfMonth = parseCronField(fields[2], 1, 31);
+    this.months = parseCronField(fields[3], 1, 12, MONTH_NAMES);
+    this.daysOfWeek = new Set([...parseCronField(fields[4], 0, 7, DAY_NAMES)].map((day) => day % 7));
+    this.eitherDay = !fields[2].startsWith('*') && !fields[4].startsWith('*');
+
+    try {
+      this.formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short',
+      });
+    } catch {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+
+    this.description = `cron ${fields.join(' ')} ${timezone}`;
+  }
+
+  next(after: Date): Date {
+    let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+    const limit = time + 5 * 366 * DAY;
+
+    // Jump a day or an hour at a time where possible; a DST shift only
+    // means the next iteration lands on a slightly different wall time.
+    while (time <= limit) {
+      const wall = this.wallClock(new Date(time));
+      if (!this.matchesDay(wall)) {
+        time += (24 * 60 - wall.hour * 60 - wall.minute) * MINUTE;
+      } else if (!this.hours.has(wall.hour)) {
+        time += (60 - wall.minute) * MINUTE;
+      } else if (!this.minutes.has(wall.minute)) {
+        time += MINUTE;
+      } else {
+        return new Date(time);
+      }
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never fires`);
+  }
+
+  private matchesDay(wall: WallClock): boolean {
+    if (!this.months.has(wall.month)) return false;
+
+    const dayOfMonth = this.daysOfMonth.has(wall.day);
+    const dayOfWeek = this.daysOfWeek.has(wall.weekday);
+    return this.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+  }
+
+  private wallClock(date: Date): WallClock {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+
+    return {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+    };
+  }
+}
+
+interface WallClock {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] = []): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (text: string): number => {
+    const named = names.indexOf(text.toLowerCase());
+    if (named !== -1) return named + (min === 1 ? 1 : 0);
+    if (!/^\d+$/.test(text)) {
+      throw new Error(`Invalid cron value "${text}" in "${field}"`);
+    }
+    return Number(text);
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in "${field}"`);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = min;
+      high = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = parseValue(from);
+      high = parseValue(to);
+    } else {
+      low = parseValue(range);
+      high = stepText === undefined ? low : max;
+    }
+
+    if (low < min || high > max || low > high) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = low; value <= high; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -5,6 +5,7 @@
  */
 
 import type { StoragePort } from '@ports/storage.js';
+import type { LLMPort } from '@ports/llm.js';
 import type {
   WorkflowPort,
   WorkflowDefinition,
@@ -12,20 +13,56 @@ import type {
   ComponentTemplate,
   WorkflowComponent,
   WorkflowConnection,
+  ReplayOptions,
+  WorkflowValidationResult,
+  DataType,
 } from '@ports/workflow.js';
-import { builtInComponentTemplates } from './workflow-templates.js';
+import { builtInComponentTemplates, deriveSubWorkflowPorts } from './workflow-templates.js';
+import {
+  WorkflowEngine,
+  ExecutionInterruptedError,
+  serializeExecutionContext,
+  deserializeExecutionContext,
+  getTemplateKey,
+  type ExecutionControl,
+  type ReplayPlan,
+  type ComponentRunContext,
+} from './workflow-engine.js';
+import { assertValidExpression } from './workflow-expressions.js';
+
+const MAX_SUBWORKFLOW_DEPTH = 8;
+
+// Config fields holding expressions, by template key
+export const EXPRESSION_FIELDS: Record<string, string> = {
+  'logic:If Condition': 'condition',
+  'logic:Transform': 'expression',
+};
+
+export interface WorkflowStorageOptions {
+  llm?: LLMPort; // Used by LLM components during execution
+  display?: (content: any, component: WorkflowComponent) => void; // Given to the engine for Display components
+}
 
 export class WorkflowStorageAdapter implements WorkflowPort {
   private storage: StoragePort<any>;
   private templates: Map<string, ComponentTemplate> = new Map();
+  private engine: WorkflowEngine;
+  private activeExecutions: Map<string, ExecutionControl> = new Map();
 
-  constructor(storage: StoragePort<any>) {
+  constructor(storage: StoragePort<any>, options: WorkflowStorageOptions = {}) {
     this.storage = storage;
+    this.engine = new WorkflowEngine({
+      storage,
+      llm: options.llm,
+      display: options.display,
+    });
 
     // Load built-in templates
     for (const template of builtInComponentTemplates) {
       this.templates.set(`${template.type}:${template.name}`, template);
     }
+
+    this.engine.registerExecutor('container:Sub-Workflow', (run) => this.runSubWorkflow(run));
   }
 
   async createWorkflow(
@@ -59,6 +96,8 @@ export class WorkflowStorageAdapter implements WorkflowPort {
       id: existing.id, // Preserve ID
       metadata: {
         ...existing.metadata,
+        ...updates.metadata,
+        created: existing.metadata.created,
         modified: new Date(),
       },
     };
@@ -83,21 +122,25 @@ export class WorkflowStorageAdapter implements WorkflowPort {
   }
 
   async listWorkflows(): Promise<WorkflowDefinition[]> {
-    const keys = await this.storage.list('workflows/*/definition');
+    const keys = await this.storage.list('workflows/*');
     const workflows: WorkflowDefinition[] = [];
 
-    for (const key of keys) {
+    for (const key of keys.filter((k) => k.startsWith('workflows/') && k.endsWith('/definition'))) {
       const workflow = await this.storage.read(key);
       if (workflow) {
         workflows.push(workflow);
       }
     }
 
-    return workflows.sort((a, b) => b.metadata.modified.getTime() - a.metadata.modified.getTime());
+    // Dates come back from storage as strings
+    return workflows.sort(
+      (a, b) => new Date(b.metadata.modified).getTime() - new Date(a.metadata.modified).getTime(),
+    );
   }
 
-  async validateWorkflow(definition: WorkflowDefinition): Promise<{ valid: boolean; errors: string[] }> {
+  async validateWorkflow(definition: WorkflowDefinition): Promise<WorkflowValidationResult> {
     const errors: string[] = [];
+    const warnings: string[] = [];
 
     // Check for components
     if (!definition.components || definition.components.length === 0) {
@@ -136,6 +179,55 @@ export class WorkflowStorageAdapter implements WorkflowPort {
           `Connection references non-existent target port: ${connection.targetPortId} on ${target.name}`,
         );
       }
+
+      // Check port types match (transforms may change the type, so only direct connections are checked)
+      const sourcePort = source?.outputs.find((p) => p.id === connection.sourcePortId);
+      const targetPort = target?.inputs.find((p) => p.id === connection.targetPortId);
+      const direct = !connection.transform || connection.transform.type === 'direct';
+      if (sourcePort && targetPort && direct && !isTypeCompatible(sourcePort.type, targetPort.type)) {
+        errors.push(
+          `Type mismatch: ${source!.name}.${sourcePort.name} (${sourcePort.type}) → ` +
+          `${target!.name}.${targetPort.name} (${targetPort.type})`,
+        );
+      }
+
+      if (connection.transform?.expression) {
+        try {
+          assertValidExpression(connection.transform.expression);
+        } catch (error) {
+          errors.push(`Invalid transform on connection ${connection.id}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // Check input ports are fed exactly once, or have a fallback value
+    for (const component of definition.components) {
+      for (const port of component.inputs) {
+        const feeding = definition.connections.filter(
+          (c) => c.targetComponentId === component.id && c.targetPortId === port.id,
+        );
+
+        if (feeding.length > 1) {
+          errors.push(`Input ${component.name}.${port.name} is fed by ${feeding.length} connections`);
+        }
+        if (
+          feeding.length === 0 &&
+          port.required &&
+          port.defaultValue === undefined &&
+          component.config[port.name] === undefined
+        ) {
+          errors.push(`Required input ${component.name}.${port.name} is not connected and has no default value`);
+        }
+      }
+
+      const field = EXPRESSION_FIELDS[getTemplateKey(component)];
+      if (field && typeof component.config[field] === 'string') {
+        try {
+          assertValidExpression(component.config[field]);
+        } catch (error) {
+          errors.push(`Invalid ${field} on ${component.name}: ${(error as Error).message}`);
+        }
+      }
     }
 
     // Check for cycles (simple DFS)
@@ -143,6 +235,32 @@ export class WorkflowStorageAdapter implements WorkflowPort {
       errors.push('Workflow contains cycles');
     }
 
+    // Check Sub-Workflow references
+    for (const component of definition.components) {
+      if (getTemplateKey(component) !== 'container:Sub-Workflow') continue;
+
+      const childId = component.config.workflowId;
+      const child = childId ? await this.getWorkflow(childId) : null;
+      if (!child) {
+        errors.push(`Sub-workflow ${component.name} references missing workflow: ${childId || '(none)'}`);
+        continue;
+      }
+
+      const derived = deriveSubWorkflowPorts(child);
+      const portIds = (ports: { id: string }[]) => ports.map((p) => p.id).sort().join(',');
+      if (
+        portIds(derived.inputs) !== portIds(component.inputs) ||
+        portIds(derived.outputs) !== portIds(component.outputs)
+      ) {
+        warnings.push(`Sub-workflow ${component.name} ports are out of date with workflow ${child.name}`);
+      }
+    }
+
+    const cycle = await this.findSubWorkflowCycle(definition);
+    if (cycle) {
+      errors.push(`Sub-workflows call each other in a cycle: ${cycle.join(' → ')}`);
+    }
+
     // Check for disconnected components (warning, not error)
     const connectedComponents = new Set<string>();
     for (const conn of definition.connections) {
@@ -152,13 +270,14 @@ export class WorkflowStorageAdapter implements WorkflowPort {
 
     for (const component of definition.components) {
       if (!connectedComponents.has(component.id) && component.type !== 'trigger') {
-        errors.push(`Component ${component.name} is not connected to any other components`);
+        warnings.push(`Component ${component.name} is not connected to any other components`);
       }
     }
 
     return {
       valid: errors.length === 0,
       errors,
+      warnings,
     };
   }
 
@@ -168,12 +287,133 @@ export class WorkflowStorageAdapter implements WorkflowPort {
       throw new Error(`Workflow not found: ${id}`);
     }
 
-    const executionId = this.generateId('execution');
-    const context: WorkflowExecutionContext = {
-      workflowId: id,
-      executionId,
+    return await this.runExecution(workflow, this.createExecutionContext(id, inputs || {}));
+  }
+
+  async pauseExecution(executionId: string): Promise<void> {
+    const control = this.activeExecutions.get(executionId);
+    if (control) {
+      control.requested = 'pause';
+    } else {
+      // Not running in this process (e.g. interrupted by a restart)
+      const context = await this.loadExecution(executionId);
+      if (context.state !== 'running') {
+        throw new Error(`Cannot pause execution in state "${context.state}": ${executionId}`);
+      }
+      context.state = 'paused';
+      await this.saveExecution(context);
+    }
+
+    await this.forEachChild(executionId, ['running'], (childId) => this.pauseExecution(childId));
+  }
+
+  async resumeExecution(executionId: string): Promise<WorkflowExecutionContext> {
+    if (this.activeExecutions.has(executionId)) {
+      throw new Error(`Execution is already running: ${executionId}`);
+    }
+
+    const context = await this.loadExecution(executionId);
+    if (context.state === 'completed' || context.state === 'cancelled') {
+      throw new Error(`Cannot resume execution in state "${context.state}": ${executionId}`);
+    }
+
+    const workflow = await this.getWorkflow(context.workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${context.workflowId}`);
+    }
+
+    context.state = 'running';
+    context.error = undefined;
+
+    return await this.runExecution(workflow, context);
+  }
+
+  async cancelExecution(executionId: string): Promise<void> {
+    const control = this.activeExecutions.get(executionId);
+    if (control) {
+      control.requested = 'cancel';
+    } else {
+      const context = await this.loadExecution(executionId);
+      if (context.state === 'completed' || context.state === 'cancelled') {
+        throw new Error(`Cannot cancel execution in state "${context.state}": ${executionId}`);
+      }
+      context.state = 'cancelled';
+      await this.saveExecution(context);
+    }
+
+    await this.forEachChild(executionId, ['running', 'paused'], (childId) => this.cancelExecution(childId));
+  }
+
+  async listExecutions(workflowId: string): Promise<WorkflowExecutionContext[]> {
+    const prefix = `workflows/${workflowId}/executions/`;
+    const keys = await this.storage.list(`${prefix}*`);
+    const executions: WorkflowExecutionContext[] = [];
+
+    for (const key of keys.filter((k) => k.startsWith(prefix))) {
+      const stored = await this.storage.read(key);
+      if (stored) {
+        executions.push(deserializeExecutionContext(stored));
+      }
+    }
+
+    return executions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  }
+
+  async getExecution(executionId: string): Promise<WorkflowExecutionContext | null> {
+    const keys = await this.storage.list(`executions/${executionId}`);
+    const key = keys.find((k) => k.endsWith(`/executions/${executionId}`));
+    const stored = key ? await this.storage.read(key) : null;
+    return stored ? deserializeExecutionContext(stored) : null;
+  }
+
+  async replayExecution(executionId: string, options: ReplayOptions = {}): Promise<WorkflowExecutionContext> {
+    const source = await this.loadExecution(executionId);
+    const workflow = await this.getWorkflow(source.workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${source.workflowId}`);
+    }
+
+    const rerun = new Set(options.rerun || []);
+    const stubbed = new Set(
+      workflow.components
+        .filter((c) => !rerun.has(c.id) && this.isDeterministic(c))
+        .map((c) => c.id),
+    );
+
+    const context = this.createExecutionContext(source.workflowId, source.inputs || {});
+    context.replayOf = source.executionId;
+
+    return await this.runExecution(workflow, context, { source, stubbed });
+  }
+
+  /**
+   * Access the execution engine (e.g. to register executors for custom templates)
+   */
+  getEngine(): WorkflowEngine {
+    return this.engine;
+  }
+
+  async getComponentTemplates(): Promise<ComponentTemplate[]> {
+    return Array.from(this.templates.values());
+  }
+
+  async registerComponentTemplate(template: ComponentTemplate): Promise<void> {
+    const key = `${template.type}:${template.name}`;
+    this.templates.set(key, template);
+
+    // Persist to storage
+    await this.storage.write(`component-templates/${key}`, template);
+  }
+
+  // Helper methods
+
+  private createExecutionContext(workflowId: string, inputs: Record<string, any>): WorkflowExecutionContext {
+    return {
+      workflowId,
+      executionId: this.generateId('execution'),
       startTime: new Date(),
       state: 'running',
+      inputs,
       componentStates: new Map(),
       dataFlow: new Map(),
       metrics: {
@@ -182,34 +422,178 @@ export class WorkflowStorageAdapter implements WorkflowPort {
         errors: 0,
       },
     };
+  }
+
+  /**
+   * Executor for Sub-Workflow components: runs the child workflow as its own
+   * execution, feeding User Input triggers and collecting Return results.
+   */
+  private async runSubWorkflow({ component, inputs, execution }: ComponentRunContext): Promise<Record<string, any>> {
+    const childId = component.config.workflowId;
+    const child = childId ? await this.getWorkflow(childId) : null;
+    if (!child) {
+      throw new Error(`Sub-workflow not found: ${childId || '(no workflowId configured)'}`);
+    }
 
-    // Save execution context
-    await this.storage.write(`workflows/${id}/executions/${executionId}`, context);
+    const depth = (execution.depth ?? 0) + 1;
+    const maxDepth = component.config.maxDepth ?? MAX_SUBWORKFLOW_DEPTH;
+    if (depth > maxDepth) {
+      throw new Error(`Sub-workflow depth limit of ${maxDepth} exceeded`);
+    }
 
-    // TODO: Implement actual execution engine
-    // This would involve:
-    // 1. Topological sort of components
-    // 2. Execute each component in order
-    // 3. Pass data between components via connections
-    // 4. Handle errors and retries
-    // 5. Update execution context
+    // Component input ports are named after the child's User Input triggers and keyed by their IDs
+    const childInputs: Record<string, any> = {};
+    for (const port of component.inputs) {
+      if (port.name in inputs) {
+        childInputs[port.id] = inputs[port.name];
+      }
+    }
 
-    return context;
+    // A child paused along with this execution carries on where it stopped
+    let context = await this.findPausedChild(execution, child.id, childInputs);
+    if (context) {
+      context.state = 'running';
+    } else {
+      context = this.createExecutionContext(child.id, childInputs);
+      context.parentExecutionId = execution.executionId;
+      context.depth = depth;
+
+      // Checkpointed before the child starts, so pausing or cancelling this
+      // execution reaches it
+      execution.childExecutionIds = [...(execution.childExecutionIds ?? []), context.executionId];
+      await this.saveExecution(execution);
+    }
+
+    await this.runExecution(child, context);
+
+    const requested = this.activeExecutions.get(execution.executionId)?.requested;
+    if (requested && (context.state === 'paused' || context.state === 'cancelled')) {
+      throw new ExecutionInterruptedError(requested === 'pause' ? 'paused' : 'cancelled');
+    }
+    if (context.state !== 'completed') {
+      throw new Error(`Sub-workflow ${child.name} ${context.state}${context.error ? `: ${context.error}` : ''}`);
+    }
+
+    // Only the Return component that actually ran emits its output
+    const outputs: Record<string, any> = {};
+    for (const port of component.outputs) {
+      if (context.componentStates.get(port.id)?.status === 'completed') {
+        outputs[port.name] = context.result;
+      }
+    }
+    return outputs;
   }
 
-  async getComponentTemplates(): Promise<ComponentTemplate[]> {
-    return Array.from(this.templates.values());
+  /**
+   * Run `fn` for each sub-workflow execution recorded in the execution's
+   * checkpoint whose state is one of `states`
+   */
+  private async forEachChild(
+    executionId: string,
+    states: WorkflowExecutionContext['state'][],
+    fn: (childId: string) => Promise<void>,
+  ): Promise<void> {
+    const context = await this.getExecution(executionId);
+    for (const childId of context?.childExecutionIds ?? []) {
+      const child = await this.getExecution(childId);
+      if (child && states.includes(child.state)) {
+        await fn(childId);
+      }
+    }
   }
 
-  async registerComponentTemplate(template: ComponentTemplate): Promise<void> {
-    const key = `${template.type}:${template.name}`;
-    this.templates.set(key, template);
+  private async findPausedChild(
+    execution: WorkflowExecutionContext,
+    workflowId: string,
+    inputs: Record<string, any>,
+  ): Promise<WorkflowExecutionContext | null> {
+    for (const childId of execution.childExecutionIds ?? []) {
+      const child = await this.getExecution(childId);
+      if (
+        child?.state === 'paused' &&
+        child.workflowId === workflowId &&
+        JSON.stringify(child.inputs) === JSON.stringify(inputs)
+      ) {
+        return child;
+      }
+    }
+    return null;
+  }
 
-    // Persist to storage
-    await this.storage.write(`component-templates/${key}`, template);
+  /**
+   * Follow Sub-Workflow references depth-first, returning the first cycle found
+   */
+  private async findSubWorkflowCycle(
+    workflow: WorkflowDefinition,
+    path: string[] = [],
+  ): Promise<string[] | null> {
+    if (path.includes(workflow.id)) {
+      return [...path, workflow.id];
+    }
+
+    for (const component of workflow.components) {
+      if (getTemplateKey(component) !== 'container:Sub-Workflow') continue;
+
+      const child = await this.getWorkflow(component.config.workflowId);
+      if (child) {
+        const cycle = await this.findSubWorkflowCycle(child, [...path, workflow.id]);
+        if (cycle) return cycle;
+      }
+    }
+
+    return null;
   }
 
-  // Helper methods
+  /**
+   * Run (or continue) an execution, checkpointing after every component
+   */
+  private async runExecution(
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext,
+    replay?: ReplayPlan,
+  ): Promise<WorkflowExecutionContext> {
+    const control: ExecutionControl = {
+      checkpoint: (current) => this.saveExecution(current),
+      replay,
+    };
+    this.activeExecutions.set(context.executionId, control);
+
+    try {
+      await this.saveExecution(context);
+      await this.engine.execute(workflow, context, context.inputs, control);
+    } catch (error) {
+      context.state = 'failed';
+      context.error = (error as Error).message;
+      context.metrics.errors++;
+    } finally {
+      this.activeExecutions.delete(context.executionId);
+    }
+
+    await this.saveExecution(context);
+    return context;
+  }
+
+  private async saveExecution(context: WorkflowExecutionContext): Promise<void> {
+    await this.storage.write(
+      `workflows/${context.workflowId}/executions/${context.executionId}`,
+      serializeExecutionContext(context),
+    );
+  }
+
+  private async loadExecution(executionId: string): Promise<WorkflowExecutionContext> {
+    const context = await this.getExecution(executionId);
+    if (!context) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+    return context;
+  }
+
+  private isDeterministic(component: WorkflowComponent): boolean {
+    if (component.deterministic !== undefined) {
+      return component.deterministic;
+    }
+    return this.templates.get(getTemplateKey(component))?.deterministic ?? false;
+  }
 
   private generateId(prefix: string): string {
     return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -263,3 +647,10 @@ export class WorkflowStorageAdapter implements WorkflowPort {
     return false;
   }
 }
+
+/**
+ * Whether data of the source type can flow into a port of the target type
+ */
+function isTypeCompatible(source: DataType, target: DataType): boolean {
+  return source === target || source === 'any' || target === 'any';
+}
@@ -4,7 +4,7 @@
  * Reusable component definitions for building agent workflows.
  */
 
-import type { ComponentTemplate } from '@ports/workflow.js';
+import type { ComponentTemplate, ComponentPort, WorkflowDefinition } from '@ports/workflow.js';
 
 /**
  * Trigger Components
@@ -14,6 +14,7 @@ export const triggerTemplates: ComponentTemplate[] = [
     type: 'trigger',
     name: 'User Input',
     description: 'Trigger workflow from user input (chat or command)',
+    deterministic: true,
     defaultConfig: {
       inputType: 'text',
       prompt: 'Enter your request:',
@@ -31,7 +32,7 @@ export const triggerTemplates: ComponentTemplate[] = [
       imports: [],
       implementation: `
 // User input trigger
-const userInput = await context.input.waitForInput("{{prompt}}");
+const userInput = await context.prompt("{{prompt}}");
 `,
     },
     uiMetadata: {
@@ -43,10 +44,13 @@ const userInput = await context.input.waitForInput("{{prompt}}");
   {
     type: 'trigger',
     name: 'Schedule',
-    description: 'Trigger workflow on a schedule (cron)',
+    description: 'Trigger workflow on a schedule (cron or interval)',
+    deterministic: true,
     defaultConfig: {
       schedule: '0 9 * * *', // Daily at 9 AM
       timezone: 'UTC',
+      interval: '', // e.g. '15m'; overrides schedule when set
+      catchUp: 'latest', // Runs missed while the daemon was down: latest | all | none
     },
     inputs: [],
     outputs: [
@@ -110,20 +114,20 @@ export const llmTemplates: ComponentTemplate[] = [
       },
     ],
     codeTemplate: {
-      imports: ['LLMPort', 'CompletionRequest'],
+      imports: [],
       implementation: `
 // LLM Completion
-const response = await llmPort.complete({
+const completion = await context.llm.complete({
   messages: [
     { role: 'system', content: '{{systemPrompt}}' },
-    { role: 'user', content: input }
-  ],
+    { role: 'user', content: String(input) }
+  ].filter((message) => message.content),
   model: '{{model}}',
-  temperature: {{temperature}},
-  maxTokens: {{maxTokens}}
+  temperature: {{{temperature}}},
+  maxTokens: {{{maxTokens}}}
 });
-const output = response.content;
-const tokens = response.usage.totalTokens;
+const response = completion.content;
+const tokens = completion.usage.totalTokens;
 `,
     },
     uiMetadata: {
@@ -392,6 +396,7 @@ export const logicTemplates: ComponentTemplate[] = [
     type: 'logic',
     name: 'If Condition',
     description: 'Branch based on a condition',
+    deterministic: true,
     defaultConfig: {
       condition: 'value > 0',
     },
@@ -421,10 +426,10 @@ export const logicTemplates: ComponentTemplate[] = [
       imports: [],
       implementation: `
 // If Condition
-if ({{condition}}) {
-  // True branch
+if (evaluateExpression('{{condition}}', { value })) {
+  outputs.true = value;
 } else {
-  // False branch
+  outputs.false = value;
 }
 `,
     },
@@ -438,6 +443,7 @@ if ({{condition}}) {
     type: 'logic',
     name: 'Loop',
     description: 'Repeat actions for each item',
+    deterministic: true,
     defaultConfig: {
       maxIterations: 100,
     },
@@ -472,7 +478,8 @@ if ({{condition}}) {
   {
     type: 'logic',
     name: 'Transform',
-    description: 'Transform data using JavaScript',
+    description: 'Transform data with a sandboxed expression',
+    deterministic: true,
     defaultConfig: {
       expression: 'data.toUpperCase()',
     },
@@ -496,7 +503,7 @@ if ({{condition}}) {
       imports: [],
       implementation: `
 // Transform
-const result = {{expression}};
+const result = evaluateExpression('{{expression}}', { data });
 `,
     },
     uiMetadata: {
@@ -531,7 +538,7 @@ export const outputTemplates: ComponentTemplate[] = [
       imports: [],
       implementation: `
 // Display
-console.log(content);
+context.display(content);
 `,
     },
     uiMetadata: {
@@ -558,7 +565,7 @@ console.log(content);
       imports: [],
       implementation: `
 // Return
-return result;
+context.result = result;
 `,
     },
     uiMetadata: {
@@ -569,6 +576,62 @@ return result;
   },
 ];
 
+/**
+ * Container Components
+ */
+export const containerTemplates: ComponentTemplate[] = [
+  {
+    type: 'container',
+    name: 'Sub-Workflow',
+    description: 'Run another stored workflow as a single step',
+    defaultConfig: {
+      workflowId: '',
+      maxDepth: 8, // Maximum nesting of sub-workflows
+    },
+    // Ports come from the child workflow (see deriveSubWorkflowPorts)
+    inputs: [],
+    outputs: [],
+    uiMetadata: {
+      icon: '📦',
+      color: 'magenta',
+      category: 'Containers',
+    },
+  },
+];
+
+/**
+ * Derive Sub-Workflow ports from a child workflow: one input per User Input
+ * trigger and one output per Return component, using the component IDs as port IDs.
+ */
+export function deriveSubWorkflowPorts(child: WorkflowDefinition): {
+  inputs: ComponentPort[];
+  outputs: ComponentPort[];
+} {
+  const templateName = (c: WorkflowDefinition['components'][number]) => c.template ?? c.name;
+
+  const inputs = child.components
+    .filter((c) => c.type === 'trigger' && templateName(c) === 'User Input')
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      type: c.outputs[0]?.type ?? 'any',
+      required: true,
+      description: c.description,
+    }));
+
+  const outputs = child.components
+    .filter((c) => c.type === 'output' && templateName(c) === 'Return')
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      type: c.inputs[0]?.type ?? 'any',
+      required: false,
+      description: c.description,
+    }));
+
+  return { inputs, outputs };
+}
+
 /**
  * All built-in component templates
  */
@@ -578,6 +641,7 @@ export const builtInComponentTemplates: ComponentTemplate[] = [
   ...toolTemplates,
   ...logicTemplates,
   ...outputTemplates,
+  ...containerTemplates,
 ];
 
 /**
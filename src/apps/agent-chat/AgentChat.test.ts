@@ -0,0 +1,351 @@
+/**
+ * Tests for the Agent Chat app
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Socket } from 'net';
+import { render, type Instance } from 'ink';
+import { JsonStorage } from '../../adapters/json-storage.js';
+import { HashingEmbedder } from '../../adapters/agent-memory.js';
+import { AgentChatApp } from './AgentChat.js';
+import type { InputPort, InputEvent } from '../../ports/input.js';
+import type { AgentMemoryConfig } from '../../ports/memory.js';
+import type {
+  LLMPort,
+  CompletionRequest,
+  CompletionResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProviderConfig,
+  ModelInfo,
+  StreamChunk,
+} from '../../ports/llm.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+function aborted(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal?.aborted) reject(signal.reason);
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * Streams its reply word by word; `replies` are used in turn, then 'OK'.
+ * With `stall` set, the stream hangs after the first word until the request
+ * is aborted.
+ */
+class FakeLLM implements LLMPort {
+  requests: CompletionRequest[] = [];
+  replies: string[] = [];
+  embedDelay = 0;
+  stall = false;
+  config: LLMProviderConfig = { provider: 'ollama', defaultModel: 'fake' };
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse> {
+    this.requests.push(request);
+    const content = this.replies.shift() ?? 'OK';
+    for (const [i, word] of content.split(/(?= )/).entries()) {
+      if (i > 0 && this.stall) await aborted(request.signal);
+      yield { delta: word };
+    }
+    return this.response(content);
+  }
+
+  async complete(): Promise<CompletionResponse> {
+    return this.response('Summary');
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    await new Promise((resolve) => setTimeout(resolve, this.embedDelay));
+    return { embeddings: await new HashingEmbedder().embed(request.input), model: 'hashing' };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [];
+  }
+
+  async getModelInfo(): Promise<ModelInfo | null> {
+    return null;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider() {
+    return this.config.provider;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return this.config;
+  }
+
+  private response(content: string): CompletionResponse {
+    return {
+      content,
+      role: 'assistant',
+      finishReason: 'stop',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: 'fake',
+    };
+  }
+}
+
+/**
+ * Input that never sends events
+ */
+class SilentInput implements InputPort {
+  private handlers = new Set<(event: InputEvent) => void>();
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  on(handler: (event: InputEvent) => void): void {
+    this.handlers.add(handler);
+  }
+
+  off(handler: (event: InputEvent) => void): void {
+    this.handlers.delete(handler);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Terminal input that ink reads keys from
+ */
+class FakeStdin extends Socket {
+  isTTY = true;
+  isRaw = false;
+  private data: string | null = null;
+
+  press(data: string): void {
+    this.data = data;
+    this.emit('readable');
+    this.emit('data', data);
+  }
+
+  read(): string | null {
+    const { data } = this;
+    this.data = null;
+    return data;
+  }
+
+  setRawMode(mode: boolean): this {
+    this.isRaw = mode;
+    return this;
+  }
+
+  setEncoding(): this {
+    return this;
+  }
+
+  resume(): this {
+    return this;
+  }
+
+  pause(): this {
+    return this;
+  }
+
+  ref(): this {
+    return this;
+  }
+
+  unref(): this {
+    return this;
+  }
+}
+
+/**
+ * Terminal output keeping the last frame ink rendered
+ */
+class FakeStdout extends Socket {
+  isTTY = false;
+  columns = 120;
+  rows = 40;
+  lastFrame = '';
+
+  write(frame: string | Uint8Array): boolean {
+    this.lastFrame = frame.toString();
+    return true;
+  }
+
+  getWindowSize(): [number, number] {
+    return [this.columns, this.rows];
+  }
+
+  getColorDepth(): number {
+    return 1;
+  }
+
+  hasColors(): boolean {
+    return false;
+  }
+
+  clearLine(): boolean {
+    return true;
+  }
+
+  clearScreenDown(): boolean {
+    return true;
+  }
+
+  cursorTo(): boolean {
+    return true;
+  }
+
+  moveCursor(): boolean {
+    return true;
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('AgentChatApp', () => {
+  let storage: JsonStorage;
+  let llm: FakeLLM;
+  let testDir: string;
+  let instance: Instance | undefined;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-chat-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    llm = new FakeLLM();
+  });
+
+  afterEach(async () => {
+    instance?.unmount();
+    instance = undefined;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function start(memory: Partial<AgentMemoryConfig>): Promise<AgentChatApp> {
+    const app = new AgentChatApp();
+    await app.initialize({ storage, input: new SilentInput(), config: { llm, memory } });
+    return app;
+  }
+
+  const lastPrompt = () => llm.requests[llm.requests.length - 1].messages.slice(1).map((m) => m.content);
+  const savedHistory = (app: AgentChatApp) => storage.read(`agent-chat/threads/${app.getCurrentThread()!.id}/history`);
+
+  it('should seed thread memory from a thread kept before thread memory', async () => {
+    const thread = { id: 'thread-1', name: 'Old', createdAt: new Date(), lastMessageAt: new Date(), messageCount: 4 };
+    const history = ['Alpha', 'Beta', 'Gamma', 'Delta'].map((content, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content,
+      timestamp: new Date(),
+    }));
+    await storage.write('agent-chat/threads', [thread]);
+    await storage.write('agent-chat/threads/thread-1/history', history);
+    await storage.write('agent-chat/threads/thread-1/summary', {
+      summary: 'Alpha and Beta were discussed',
+      lastUpdated: new Date(),
+      messageCount: 2,
+      threadId: 'thread-1',
+    });
+
+    const app = await start({ type: 'summary', maxMessages: 10 });
+
+    expect(app.getConversationSummary()).toMatchObject({ summary: 'Alpha and Beta were discussed', messageCount: 2 });
+    expect(await storage.exists('agent-chat/threads/thread-1/summary')).toBe(false);
+
+    await app.sendMessage('Epsilon');
+    expect(lastPrompt()).toEqual([
+      'Summary of the conversation so far:\nAlpha and Beta were discussed',
+      'Gamma',
+      'Delta',
+      'Epsilon',
+    ]);
+
+    // Deleting the thread deletes what it left behind
+    await storage.write('agent-chat/threads/thread-1/summary', { summary: 'Stale' });
+    await app.deleteThread('thread-1');
+    expect(await storage.list('agent-chat/threads/thread-1/')).toEqual([]);
+  });
+
+  it('should remember a reply before the next message reads memory', async () => {
+    const app = await start({ type: 'vector', maxMessages: 10 });
+    llm.embedDelay = 20;
+    llm.replies = ['Miso is a lovely name'];
+
+    await app.sendMessage('My cat is called Miso');
+    await app.sendMessage('What is my cat called?');
+
+    expect(lastPrompt()).toEqual(['My cat is called Miso', 'Miso is a lovely name', 'What is my cat called?']);
+  });
+
+  it('should save a reply once it has streamed in full', async () => {
+    const app = await start({ type: 'buffer', maxMessages: 10 });
+    llm.replies = ['Hello there friend'];
+
+    const received: string[] = [];
+    expect(await app.sendMessage('Hi', (content) => received.push(content))).toBe('Hello there friend');
+    expect(received).toEqual(['Hello', 'Hello there', 'Hello there friend']);
+
+    const reply = app.getMessages()[1];
+    expect(reply).toMatchObject({ role: 'assistant', content: 'Hello there friend' });
+    expect(reply.cancelled).toBeUndefined();
+    expect(await savedHistory(app)).toMatchObject([{ content: 'Hi' }, { content: 'Hello there friend' }]);
+  });
+
+  it('should run agents with the chat provider and model', async () => {
+    llm.config = { provider: 'openai', defaultModel: 'gpt-test' };
+    const app = await start({ type: 'buffer', maxMessages: 10 });
+
+    const request = await app.createAgentRequest('Plan a trip');
+    const agent = await app.getAgents().getAgent(request.agentId);
+    expect(agent?.llm).toEqual({ provider: 'openai', model: 'gpt-test' });
+
+    // The same agent follows the chat to another model
+    llm.config = { provider: 'openai', defaultModel: 'gpt-other' };
+    expect((await app.createAgentRequest('Plan a trip')).agentId).toBe(request.agentId);
+    expect((await app.getAgents().getAgent(request.agentId))?.llm.model).toBe('gpt-other');
+  });
+
+  it('should keep what arrived of a reply cancelled while streaming', async () => {
+    const app = await start({ type: 'buffer', maxMessages: 10 });
+    llm.replies = ['Hello there friend'];
+    llm.stall = true;
+
+    expect(await app.sendMessage('Hi', () => app.cancelStreaming())).toBe('Hello');
+    expect(app.cancelStreaming()).toBe(false);
+    expect(llm.requests[0].signal?.aborted).toBe(true);
+    expect(app.getMessages()[1]).toMatchObject({ role: 'assistant', content: 'Hello', cancelled: true });
+    expect(await savedHistory(app)).toMatchObject([{ content: 'Hi' }, { content: 'Hello', cancelled: true }]);
+  });
+
+  it('should cancel the streaming reply on Esc', async () => {
+    const app = await start({ type: 'buffer', maxMessages: 10 });
+    llm.replies = ['Hello there friend'];
+    llm.stall = true;
+
+    const stdin = new FakeStdin();
+    const stdout = new FakeStdout();
+    instance = render(app.render(), {
+      stdin,
+      stdout,
+      debug: true,
+      exitOnCtrlC: false,
+      patchConsole: false,
+    });
+
+    await tick();
+    stdin.press('Hi');
+    await tick();
+    stdin.press('\r');
+    await tick();
+    expect(stdout.lastFrame).toContain('Hello▌');
+
+    stdin.press('\u001B');
+    await tick();
+    expect(stdout.lastFrame).toContain('(cancelled)');
+    expect(app.getMessages()[1]).toMatchObject({ content: 'Hello', cancelled: true });
+  });
+});
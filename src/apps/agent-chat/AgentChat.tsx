@@ -3,14 +3,21 @@
  *
  * Multi-thread conversational agent with memory management.
  * Supports multiple conversation threads with thread-specific conversation memory
- * and shared entity memory across all threads.
+ * and shared entity memory across all threads. Thread memory uses the buffer,
+ * summary or vector strategy set by the app config's `memory`.
  */
 
 import React, { useState, useEffect, useRef, useMemo, memo } from 'react';
 import { Box, Text, useInput } from 'ink';
 import type { App, AppContext, AppCommand } from '@ports/app.js';
-import type { LLMPort, Message, ToolDefinition, ToolCall } from '@ports/llm.js';
+import type { LLMPort, Message, ToolDefinition, ToolCall, CompletionRequest, CompletionResponse } from '@ports/llm.js';
+import type { AgentMemory, AgentMemoryConfig } from '@ports/memory.js';
+import { AGENT_TEMPLATES, type AgentPort, type AgentExecutionRequest } from '@ports/agent.js';
 import { OllamaAdapter } from '@adapters/llm/ollama.js';
+import { DefaultLLMRouter } from '@adapters/llm/router.js';
+import { DefaultAgentRuntime } from '@adapters/agent-runtime.js';
+import { createAgentMemory } from '@adapters/agent-memory.js';
+import { AgentRunView } from '@ui/components/AgentRunView.js';
 import TextInput from 'ink-text-input';
 import { SplitMemoryPanes } from './SplitMemoryPanes.js';
 
@@ -22,6 +29,7 @@ interface ChatMessage {
     name: string;
     result?: string;
   }>;
+  cancelled?: boolean; // Reply was cut short with Esc
 }
 
 /**
@@ -33,10 +41,11 @@ interface Thread {
   createdAt: Date;
   lastMessageAt: Date;
   messageCount: number;
+  entityMessageCount?: number; // Messages already read for entity memory
 }
 
 /**
- * Conversation summary generated every M messages (thread-specific)
+ * Summary of the messages thread memory no longer keeps word for word
  */
 interface ConversationSummary {
   summary: string;
@@ -73,8 +82,8 @@ interface EntityMemory {
  * Memory configuration
  */
 interface MemoryConfig {
-  recentMessagesCount: number; // N - how many recent messages for LLM context
-  summaryUpdateFrequency: number; // M - update summary every M message pairs
+  thread: AgentMemoryConfig; // How each thread is remembered in the LLM context
+  entityUpdateFrequency: number; // M - update entity memory every M messages
 }
 
 export class AgentChatApp implements App {
@@ -87,13 +96,16 @@ export class AgentChatApp implements App {
   private llm!: LLMPort;
   private currentThreadId: string | null = null;
   private messages: ChatMessage[] = [];
-  private conversationSummary: ConversationSummary | null = null;
+  private memory: AgentMemory | null = null;
   private entityMemory: EntityMemory = { nodes: [], lastUpdated: new Date() };
   private threads: Thread[] = [];
   private isUpdatingMemory: boolean = false;
+  private replyController: AbortController | null = null; // Aborts the reply being streamed
+  private memoryWrites: Promise<void> = Promise.resolve(); // Messages still being added to thread memory
+  private agents: AgentPort | null = null;
   private memoryConfig: MemoryConfig = {
-    recentMessagesCount: 10,
-    summaryUpdateFrequency: 5,
+    thread: { type: 'summary', maxMessages: 10, summarizeEvery: 5 },
+    entityUpdateFrequency: 5,
   };
 
   readonly commands: AppCommand[] = [
@@ -102,6 +114,7 @@ export class AgentChatApp implements App {
       description: 'Start a chat session with the agent',
       execute: async (_args, context) => {
         this.context = context;
+        this.configureMemory(context.config.memory);
         this.llm = new OllamaAdapter({
           baseUrl: 'http://localhost:11434',
           defaultModel: 'llama3.2',
@@ -142,7 +155,9 @@ export class AgentChatApp implements App {
 
   async initialize(context: AppContext): Promise<void> {
     this.context = context;
-    this.llm = new OllamaAdapter({
+    this.configureMemory(context.config.memory);
+    // The app config's `llm`, as for generated apps, else the local Ollama
+    this.llm = context.config.llm ?? new OllamaAdapter({
       baseUrl: 'http://localhost:11434',
       defaultModel: 'llama3.2',
       },
@@ -169,6 +184,24 @@ export class AgentChatApp implements App {
     await this.saveThreads();
   }
 
+  /**
+   * Use the thread memory strategy from the app config, e.g.
+   * `{ type: 'vector', embeddingModel: 'nomic-embed-text' }`
+   */
+  private configureMemory(config?: Partial<AgentMemoryConfig>): void {
+    if (config) {
+      this.memoryConfig.thread = { ...this.memoryConfig.thread, ...config };
+    }
+  }
+
+  private memoryFor(threadId: string): AgentMemory {
+    return createAgentMemory(this.memoryConfig.thread, {
+      storage: this.context.storage,
+      key: `agent-chat/threads/${threadId}/memory`,
+      llm: this.llm,
+    });
+  }
+
   // Thread Management
 
   private async loadThreads(): Promise<void> {
@@ -213,8 +246,10 @@ export class AgentChatApp implements App {
 
   async deleteThread(threadId: string): Promise<void> {
     // Delete thread data
+    await this.memoryWrites;
     await this.context.storage.delete(`agent-chat/threads/${threadId}/history`);
     await this.context.storage.delete(`agent-chat/threads/${threadId}/summary`);
+    await this.memoryFor(threadId).clear();
 
     // Remove from threads list
     this.threads = this.threads.filter(t => t.id !== threadId);
@@ -222,6 +257,8 @@ export class AgentChatApp implements App {
 
     // If deleted thread was current, switch to first available or create new
     if (this.currentThreadId === threadId) {
+      // Switching would save the deleted thread's messages again
+      this.currentThreadId = null;
       if (this.threads.length > 0) {
         await this.switchThread(this.threads[0].id);
       } else {
@@ -255,14 +292,32 @@ export class AgentChatApp implements App {
       this.messages = [];
     }
 
-    const summary = await this.context.storage.read(`agent-chat/threads/${threadId}/summary`) as ConversationSummary | null;
-    if (summary) {
-      this.conversationSummary = {
-        ...summary,
-        lastUpdated: new Date(summary.lastUpdated),
-      };
-    } else {
-      this.conversationSummary = null;
+    // A memory loaded while messages are still being added would miss them
+    await this.memoryWrites;
+    this.memory = this.memoryFor(threadId);
+    await this.memory.load();
+    await this.migrateMemory(threadId, this.memory);
+  }
+
+  /**
+   * Seed the memory of a thread from before thread memory was kept, from
+   * its history and the summary stored next to it
+   */
+  private async migrateMemory(threadId: string, memory: AgentMemory): Promise<void> {
+    if (this.messages.length === 0 || memory.getSummary() || (await memory.getContext()).length > 0) {
+      return;
+    }
+
+    const legacyKey = `agent-chat/threads/${threadId}/summary`;
+    const legacy = await this.context.storage.read(legacyKey) as ConversationSummary | null;
+    const summary = legacy
+      ? { content: legacy.summary, messageCount: legacy.messageCount, updatedAt: new Date(legacy.lastUpdated) }
+      : undefined;
+    try {
+      await memory.seed(this.messages.map((m) => ({ role: m.role, content: m.content })), summary);
+      await this.context.storage.delete(legacyKey);
+    } catch {
+      // Summarizing or embedding the history failed; it is tried again next time
     }
   }
 
@@ -271,10 +326,6 @@ export class AgentChatApp implements App {
       await this.context.storage.write(`agent-chat/threads/${threadId}/history`, this.messages);
     }
 
-    if (this.conversationSummary) {
-      await this.context.storage.write(`agent-chat/threads/${threadId}/summary`, this.conversationSummary);
-    }
-
     // Update thread metadata
     const thread = this.threads.find(t => t.id === threadId);
     if (thread) {
@@ -515,10 +566,11 @@ export class AgentChatApp implements App {
   }
 
   /**
-   * Generate conversation summary (thread-specific) and update entity memory (shared)
+   * Update entity memory (shared) from the thread's messages not read for it yet
    */
   private async updateMemory(): Promise<void> {
-    if (!this.currentThreadId || this.messages.length < 2) return;
+    const thread = this.getCurrentThread();
+    if (!thread || this.messages.length < 2) return;
     
     // Prevent concurrent memory updates
     if (this.isUpdatingMemory) {
@@ -528,37 +580,26 @@ export class AgentChatApp implements App {
     this.isUpdatingMemory = true;
 
     try {
-      const summaryStartIndex = this.conversationSummary?.messageCount || 0;
-      const messagesSinceSummary = this.messages.slice(summaryStartIndex);
+      const messageCount = this.messages.length;
+      const messagesSinceUpdate = this.messages.slice(thread.entityMessageCount || 0);
       
-      if (messagesSinceSummary.length === 0) return;
+      if (messagesSinceUpdate.length === 0) return;
 
-      const previousSummary = this.conversationSummary?.summary || 'No previous conversation.';
-      const recentMessages = messagesSinceSummary.map(m => 
+      const recentMessages = messagesSinceUpdate.map(m => 
         `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
       ).join('\n');
 
       const currentEntityMemory = JSON.stringify(this.entityMemory.nodes, null, 2);
 
-      const summarizationPrompt = `You are a memory management system for an AI assistant. Your task is to:
-
-1. Create/Update CONVERSATION MEMORY: Summarize THIS THREAD's conversation flow, key topics discussed, and important context. This is thread-specific memory.
-2. Create/Update ENTITY MEMORY: Extract and structure knowledge about entities (people, places, concepts, events, tasks) mentioned in the conversation. Entity memory is SHARED across all threads.
-
-Previous conversation summary (this thread):
-${previousSummary}
+      const extractionPrompt = `You are a memory management system for an AI assistant. Your task is to create/update ENTITY MEMORY: extract and structure knowledge about entities (people, places, concepts, events, tasks) mentioned in the conversation. Entity memory is SHARED across all threads.
 
 Current entity memory (shared across all threads):
 ${currentEntityMemory}
 
-Recent messages since last summary (this thread):
+Recent messages since last update (this thread):
 ${recentMessages}
 
-Please provide TWO distinct outputs:
-
-=== CONVERSATION MEMORY ===
-[Provide a concise summary of THIS THREAD's conversation flow, topics discussed, and context. This is thread-specific memory.]
-
+Output format:
 === ENTITY MEMORY ===
 [Provide a JSON array of entity nodes. Each node should have:
 - id: unique identifier
@@ -569,24 +610,17 @@ Please provide TWO distinct outputs:
 - relationships: array of {targetId, relationship, strength} to other entities
 
 Update existing entities, add new ones, and strengthen/weaken relationships based on new information.
-Only return the JSON array, no markdown formatting.]
-
-Output format:
-=== CONVERSATION MEMORY ===
-[your summary here]
-
-=== ENTITY MEMORY ===
-[your JSON array here]`;
+Only return the JSON array, no markdown formatting.]`;
 
       const response = await this.llm.complete({
         messages: [
           {
             role: 'system',
-            content: 'You are an expert at extracting structured knowledge from conversations and creating summaries.',
+            content: 'You are an expert at extracting structured knowledge from conversations.',
           },
           {
             role: 'user',
-            content: summarizationPrompt,
+            content: extractionPrompt,
           },
         ],
         temperature: 0.3,
@@ -595,19 +629,10 @@ Output format:
   );
 
       const responseText = response.content;
-      const conversationMatch = responseText.match(/=== CONVERSATION MEMORY ===\s*([\s\S]*?)\s*=== ENTITY MEMORY ===/);
       const entityMatch = responseText.match(/=== ENTITY MEMORY ===\s*([\s\S]*)/);
 
-      if (conversationMatch && this.currentThreadId) {
-        this.conversationSummary = {
-          summary: conversationMatch[1].trim(),
-          lastUpdated: new Date(),
-          messageCount: this.messages.length,
-          threadId: this.currentThreadId,
-        };
-      }
-
       if (entityMatch) {
+        thread.entityMessageCount = messageCount;
         try {
           const entityJson = entityMatch[1].trim().replace(/```json\s*/g, '').replace(/```\s*/g, '');
           const parsedNodes = JSON.parse(entityJson);
@@ -632,7 +657,7 @@ Output format:
         }
       }
 
-      await this.saveThread(this.currentThreadId!);
+      await this.saveThreads();
       await this.saveEntityMemory();
     } catch {
       // Failed to update memory, but don't break chat
@@ -643,8 +668,14 @@ Output format:
 
   // Public methods for UI
 
-  async sendMessage(userMessage: string): Promise<string> {
-    if (!this.currentThreadId) {
+  /**
+   * Send a message and stream the reply. `onDelta` receives the reply text so
+   * far as it arrives; a reply cut short by `cancelStreaming` is saved as far as
+   * it got.
+   */
+  async sendMessage(userMessage: string, onDelta?: (content: string) => void): Promise<string> {
+    const memory = this.memory;
+    if (!this.currentThreadId || !memory) {
       throw new Error('No thread selected');
     }
 
@@ -678,36 +709,31 @@ Always use the available tools to maintain accurate entity memory throughout the
       },
     ];
 
-    if (this.conversationSummary) {
-      llmMessages.push({
-        role: 'system',
-        content: `Previous conversation summary (this thread):\n${this.conversationSummary.summary}`,
-        },
-  );
-    }
-
-    const recentMessages = this.messages.slice(-this.memoryConfig.recentMessagesCount);
-    llmMessages.push(...recentMessages.map((m) => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content,
-    })));
+    // Text received so far across the first reply and the follow-up
+    let content = '';
+    const executedTools: Array<{ name: string; result: string }> = [];
 
     try {
+      // What the thread's memory recalls comes before the new message
+      await this.memoryWrites;
+      llmMessages.push(...await memory.getContext(userMessage), { role: 'user', content: userMessage });
+
       // Include entity tools in every request
       const tools = this.getEntityTools();
-      
-      let response = await this.llm.complete({
+
+      let response = await this.streamReply({
         messages: llmMessages,
         temperature: 0.7,
         maxTokens: 500,
         tools,
-        },
+        }, (delta) => {
+        content += delta;
+        onDelta?.(content);
+      },
   );
 
       // Process tool calls if any
-      const executedTools: Array<{ name: string; result: string }> = [];
-      
-      if (response.toolCalls && response.toolCalls.length > 0) {
+      if (response && response.toolCalls && response.toolCalls.length > 0) {
         const toolResults: Message[] = [];
         
         for (const toolCall of response.toolCalls) {
@@ -741,49 +767,116 @@ Always use the available tools to maintain accurate entity memory throughout the
           toolCalls: response.toolCalls,
         }, ...toolResults];
 
-        response = await this.llm.complete({
+        // Separate the follow-up from any text that came with the tool calls
+        let separator = content ? '\n\n' : '';
+        response = await this.streamReply({
           messages: followUpMessages,
           temperature: 0.7,
           maxTokens: 500,
           tools,
-          },
+          }, (delta) => {
+          content += separator + delta;
+          separator = '';
+          onDelta?.(content);
+        },
     );
       }
 
+      const cancelled = response === null;
+      if (cancelled && !content && executedTools.length === 0) {
+        await this.saveThread(this.currentThreadId);
+        return '';
+      }
+
       this.messages.push({
         role: 'assistant',
-        content: response.content,
+        content,
         timestamp: new Date(),
         toolCalls: executedTools.length > 0 ? executedTools : undefined,
+        cancelled: cancelled || undefined,
         },
   );
 
       await this.saveThread(this.currentThreadId);
 
-      const messageCountSinceLastUpdate = this.messages.length - (this.conversationSummary?.messageCount || 0);
-      if (messageCountSinceLastUpdate >= this.memoryConfig.summaryUpdateFrequency) {
+      // Summarizing or embedding may take a while; the reply doesn't wait
+      // for it, but the next message does
+      this.memoryWrites = this.memoryWrites
+        .then(() => memory.add([{ role: 'user', content: userMessage }, { role: 'assistant', content }]))
+        .catch(() => {
+          // Memory update failed, but don't break chat
+        });
+
+      const messageCountSinceLastUpdate = this.messages.length - (this.getCurrentThread()?.entityMessageCount || 0);
+      if (messageCountSinceLastUpdate >= this.memoryConfig.entityUpdateFrequency) {
         this.updateMemory().catch(() => {
           // Memory update failed, but don't break chat
           },
   );
       }
 
-      return response.content;
+      return content;
     } catch (error) {
       return `Error: ${(error as Error).message}`;
     }
   }
 
+  /**
+   * Stream a completion, passing each piece of text to `onDelta`. Resolves
+   * to null when cancelled, which aborts the request.
+   */
+  private async streamReply(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+  ): Promise<CompletionResponse | null> {
+    const controller = new AbortController();
+    this.replyController = controller;
+
+    try {
+      const stream = this.llm.stream({ ...request, signal: controller.signal });
+      for (;;) {
+        const result = await stream.next();
+        if (result.done) {
+          return result.value;
+        }
+        if (result.value.delta) {
+          onDelta(result.value.delta);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+      throw error;
+    } finally {
+      this.replyController = null;
+    }
+  }
+
+  /**
+   * Stop the reply being streamed, if any
+   */
+  cancelStreaming(): boolean {
+    if (!this.replyController) return false;
+    this.replyController.abort();
+    return true;
+  }
+
   getMessages(): ChatMessage[] {
     return [...this.messages];
   }
 
-  getRecentMessages(count: number = this.memoryConfig.recentMessagesCount): ChatMessage[] {
+  getRecentMessages(count: number = this.memoryConfig.thread.maxMessages ?? 10): ChatMessage[] {
     return this.messages.slice(-count);
   }
 
   getConversationSummary(): ConversationSummary | null {
-    return this.conversationSummary;
+    const summary = this.memory?.getSummary();
+    if (!summary || !this.currentThreadId) return null;
+    return {
+      summary: summary.content,
+      lastUpdated: summary.updatedAt,
+      messageCount: summary.messageCount,
+      threadId: this.currentThreadId,
+    };
   }
 
   getEntityMemory(): EntityMemory {
@@ -791,14 +884,63 @@ Always use the available tools to maintain accurate entity memory throughout the
   }
 
   getMemoryConfig(): MemoryConfig {
-    return { ...this.memoryConfig };
+    return { ...this.memoryConfig, thread: { ...this.memoryConfig.thread } };
+  }
+
+  // Agent Runs
+
+  getAgents(): AgentPort {
+    if (!this.agents) {
+      const router = new DefaultLLMRouter();
+      router.addProvider(this.llm.getProvider(), this.llm);
+      this.agents = new DefaultAgentRuntime(this.context.storage, { llm: router });
+    }
+    return this.agents;
+  }
+
+  /**
+   * Request to run a task with the chat's assistant agent, which is created
+   * on first use. The agent uses the chat's provider and model; an empty
+   * model leaves the choice to the provider.
+   */
+  async createAgentRequest(task: string): Promise<AgentExecutionRequest> {
+    const agents = this.getAgents();
+    const stored = await this.context.storage.read('agent-chat/agent') as { agentId: string } | null;
+    let agent = stored ? await agents.getAgent(stored.agentId) : null;
+    const config = this.llm.getConfig();
+    const llm = { provider: config.provider, model: config.defaultModel ?? '' };
+
+    if (!agent) {
+      const template = AGENT_TEMPLATES.assistant;
+      agent = await agents.createAgent({
+        name: template.name,
+        description: template.description,
+        type: template.type,
+        llm,
+        systemPrompt: template.systemPromptTemplate,
+        tools: [],
+      });
+      await this.context.storage.write('agent-chat/agent', { agentId: agent.id });
+    } else if (agent.llm.provider !== llm.provider || agent.llm.model !== llm.model) {
+      // The chat has been configured with another provider since
+      agent = await agents.updateAgent(agent.id, { llm: { ...agent.llm, ...llm } });
+    }
+
+    return { agentId: agent.id, input: task };
   }
 
   async clearCurrentThread(): Promise<void> {
     if (!this.currentThreadId) return;
     
     this.messages = [];
-    this.conversationSummary = null;
+    await this.memoryWrites;
+    await this.memory?.clear();
+    await this.context.storage.delete(`agent-chat/threads/${this.currentThreadId}/history`);
+    await this.context.storage.delete(`agent-chat/threads/${this.currentThreadId}/summary`);
+    const thread = this.getCurrentThread();
+    if (thread) {
+      thread.entityMessageCount = 0;
+    }
     await this.saveThread(this.currentThreadId);
   }
 
@@ -820,9 +962,17 @@ interface ChatUIProps {
 interface ScrollableChatViewProps {
   isFocused: boolean;
   messages: ChatMessage[];
+  streamingContent?: string | null; // Reply received so far, while streaming
 }
 
-const ScrollableChatView = memo(function ScrollableChatView({ messages, isFocused }: ScrollableChatViewProps) {
+const ScrollableChatView = memo(function ScrollableChatView({ messages: history, isFocused, streamingContent }: ScrollableChatViewProps) {
+  // The reply being streamed scrolls like any other message
+  const messages = useMemo<ChatMessage[]>(() => {
+    if (streamingContent == null) return history;
+    return [...history, { role: 'assistant', content: streamingContent, timestamp: new Date() }];
+  }, [history, streamingContent]);
+  const isStreaming = streamingContent != null;
+
   const [scrollOffset, setScrollOffset] = useState(0);
   const autoScrollRef = useRef(true);
   const prevMessageCountRef = useRef(messages.length);
@@ -900,7 +1050,11 @@ const ScrollableChatView = memo(function ScrollableChatView({ messages, isFocuse
             <Text bold color={msg.role === 'user' ? 'green' : 'blue'}>
               {msg.role === 'user' ? 'You' : 'Agent'}:
             </Text>
-            <Text>{msg.content}</Text>
+            <Text>
+              {msg.content}
+              {isStreaming && visibleStart + i === messages.length - 1 && <Text color="gray">▌</Text>}
+              {msg.cancelled && <Text dimColor italic> (cancelled)</Text>}
+            </Text>
             {msg.toolCalls && msg.toolCalls.length > 0 && (
               <Box marginTop={1} flexDirection="column">
                 <Text dimColor italic>
@@ -938,6 +1092,7 @@ const AVAILABLE_COMMANDS: CommandDefinition[] = [
   { key: 'clear', label: '/clear', description: 'Clear current thread messages', command: 'clear' },
   { key: 'new', label: '/new', description: 'Create a new thread', command: 'new' },
   { key: 'thread', label: '/thread', description: 'Show thread list or switch thread', command: 'thread' },
+  { key: 'agent', label: '/agent', description: 'Run a task with the assistant agent', command: 'agent' },
   { key: 'chat', label: '/chat', description: 'Return to chat', command: 'chat' },
 ];
 
@@ -980,8 +1135,16 @@ function ChatUI({ app }: ChatUIProps) {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>(app.getMessages());
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const [isUpdatingMemory, setIsUpdatingMemory] = useState(false);
-  const [view, setView] = useState<'chat' | 'help' | 'threads'>('chat');
+  const [view, setView] = useState<'chat' | 'help' | 'threads' | 'agent'>('chat');
+  // No request means it could not be made; `error` says why
+  const [agentRun, setAgentRun] = useState<{
+    task: string;
+    request?: AgentExecutionRequest;
+    error?: string;
+    finished: boolean;
+  } | null>(null);
   const [summary, setSummary] = useState(app.getConversationSummary());
   const [entityMemory, setEntityMemory] = useState(app.getEntityMemory());
   const [threads, setThreads] = useState(app.getThreads());
@@ -1089,6 +1252,20 @@ function ChatUI({ app }: ChatUIProps) {
       return;
     }
 
+    if (cmd === 'agent') {
+      const task = args.join(' ').trim();
+      setInput('');
+      if (!task) return;
+
+      try {
+        setAgentRun({ task, request: await app.createAgentRequest(task), finished: false });
+      } catch (error) {
+        setAgentRun({ task, error: (error as Error).message, finished: true });
+      }
+      setView('agent');
+      return;
+    }
+
     if (cmd === 'chat') {
       setView('chat');
       setInput('');
@@ -1119,6 +1296,22 @@ function ChatUI({ app }: ChatUIProps) {
     }
   }, { isActive: showCommandSelector });
 
+  // Esc cancels the reply being streamed; what arrived so far is kept
+  useInput((_inputStr, key) => {
+    if (key.escape) {
+      app.cancelStreaming();
+    }
+  }, { isActive: isLoading });
+
+  // Esc stops a running agent in AgentRunView, and goes back to chat once it
+  // finished or failed
+  useInput((_inputStr, key) => {
+    if (key.escape) {
+      setAgentRun(null);
+      setView('chat');
+    }
+  }, { isActive: view === 'agent' && Boolean(agentRun?.finished) });
+
   // Handle Tab navigation between panes
   useInput((_inputStr, key) => {
     if (showCommandSelector) return; // Don't interfere with command selector
@@ -1153,14 +1346,18 @@ function ChatUI({ app }: ChatUIProps) {
     setInput('');
 
     try {
-      await app.sendMessage(value);
+      // The user's message is added before the reply starts
+      const reply = app.sendMessage(value, setStreamingReply);
+      setMessages(app.getMessages());
+      setStreamingReply('');
+      await reply;
       setMessages(app.getMessages());
       
       const messageCount = app.getMessages().length;
       const config = app.getMemoryConfig();
-      const messageCountSinceLastUpdate = messageCount - (app.getConversationSummary()?.messageCount || 0);
+      const messageCountSinceLastUpdate = messageCount - (app.getCurrentThread()?.entityMessageCount || 0);
       
-      if (messageCountSinceLastUpdate >= config.summaryUpdateFrequency) {
+      if (messageCountSinceLastUpdate >= config.entityUpdateFrequency) {
         setIsUpdatingMemory(true);
         globalThis.setTimeout(() => {
           setIsUpdatingMemory(false);
@@ -1169,6 +1366,7 @@ function ChatUI({ app }: ChatUIProps) {
     } catch {
       // Error handled by app
     } finally {
+      setStreamingReply(null);
       setIsLoading(false);
     }
   };
@@ -1187,6 +1385,7 @@ function ChatUI({ app }: ChatUIProps) {
         <Text>  /new name - Create a new thread with a name</Text>
         <Text>  /thread   - Show thread list</Text>
         <Text>  /thread &lt;id&gt; - Switch to thread by ID or name</Text>
+        <Text>  /agent task - Run a task with the assistant agent (Esc stops it)</Text>
         <Text>  /chat     - Return to chat</Text>
         <Text> </Text>
         <Text dimColor>Type /chat to return...</Text>
@@ -1198,6 +1397,30 @@ function ChatUI({ app }: ChatUIProps) {
     );
   }
 
+  if (view === 'agent' && agentRun) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text bold color="cyan">
+          Agent Chat - Agent
+        </Text>
+        <Text dimColor>Task: {agentRun.task}</Text>
+        <Box marginTop={1}>
+          {agentRun.request ? (
+            <AgentRunView
+              agents={app.getAgents()}
+              request={agentRun.request}
+              onComplete={() => setAgentRun((run) => run && { ...run, finished: true })}
+              onError={() => setAgentRun((run) => run && { ...run, finished: true })}
+            />
+          ) : (
+            <Text color="red">Error: {agentRun.error}</Text>
+          )}
+        </Box>
+        {agentRun.finished && <Text dimColor>Esc to return to chat</Text>}
+      </Box>
+    );
+  }
+
   if (view === 'threads') {
   return (
     <Box flexDirection="column" padding={1}>
@@ -1227,8 +1450,8 @@ function ChatUI({ app }: ChatUIProps) {
   const config = app.getMemoryConfig();
   // Memoize recentMessages so SplitMemoryPanes doesn't re-render on every keystroke
   const recentMessages = useMemo(() => {
-    return app.getRecentMessages(config.recentMessagesCount);
-  }, [messages.length, config.recentMessagesCount]);
+    return app.getRecentMessages(config.thread.maxMessages);
+  }, [messages.length, config.thread.maxMessages]);
 
   return (
     <Box flexDirection="row" width="100%" height="100%" flexGrow={1}>
@@ -1256,13 +1479,15 @@ function ChatUI({ app }: ChatUIProps) {
           flexGrow={1}
           minHeight={0}
         >
-          <ScrollableChatView messages={messages} isFocused={focusedPane === 'chat'} />
+          <ScrollableChatView messages={messages} streamingContent={streamingReply} isFocused={focusedPane === 'chat'} />
       </Box>
 
         {/* Status indicators - Fixed height */}
       {isLoading && (
           <Box marginTop={1} flexShrink={0}>
-          <Text color="yellow">Agent is thinking...</Text>
+          <Text color="yellow">
+            {streamingReply ? 'Agent is replying...' : 'Agent is thinking...'} <Text dimColor>(Esc to cancel)</Text>
+          </Text>
         </Box>
       )}
 
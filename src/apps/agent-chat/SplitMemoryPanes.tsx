@@ -105,7 +105,7 @@ export const SplitMemoryPanes = memo(function SplitMemoryPanes({
                 </Box>
                 <Box>
                   <Text dimColor>
-                    (Updated: {messages.length - summary.messageCount} messages ago)
+                    (Covers {summary.messageCount} of {messages.length} messages)
                   </Text>
                 </Box>
               </>
@@ -0,0 +1,142 @@
+/**
+ * Tests for the Workflow Editor app and canvas
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JsonStorage } from '../../adapters/json-storage.js';
+import { WorkflowEditorApp, parseConfigValue } from './WorkflowEditor.js';
+import { renderCanvas } from './canvas.js';
+import type { InputPort, InputEvent } from '../../ports/input.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Input that never sends events
+ */
+class SilentInput implements InputPort {
+  private handlers = new Set<(event: InputEvent) => void>();
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  on(handler: (event: InputEvent) => void): void {
+    this.handlers.add(handler);
+  }
+
+  off(handler: (event: InputEvent) => void): void {
+    this.handlers.delete(handler);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe('WorkflowEditorApp', () => {
+  let storage: JsonStorage;
+  let app: WorkflowEditorApp;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-editor-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: testDir });
+    await storage.initialize();
+    app = new WorkflowEditorApp();
+    await app.initialize({ storage, input: new SilentInput(), config: {} });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const template = (name: string) =>
+    app.getTemplateCategories().flatMap((c) => c.templates).find((t) => t.name === name)!;
+
+  it('should add components from template categories next to the selection', async () => {
+    await app.createWorkflow('Draft');
+    expect(app.getTemplateCategories().map((c) => c.name)).toContain('Triggers');
+
+    const input = await app.addComponent(template('User Input'));
+    const display = await app.addComponent(template('Display'), input.id);
+    const second = await app.addComponent(template('Display'), input.id);
+
+    expect(display.position.y).toBe(input.position.y);
+    expect(display.position.x).toBeGreaterThan(input.position.x);
+    expect(second.position.y).toBeGreaterThan(display.position.y);
+    expect(second.name).toBe('Display 2');
+    expect(app.getIcons()[input.id]).toBe(template('User Input').uiMetadata?.icon);
+  });
+
+  it('should wire ports, replacing an existing connection into the same input', async () => {
+    const workflow = await app.createWorkflow('Wired');
+    const first = await app.addComponent(template('User Input'));
+    const second = await app.addComponent(template('User Input'));
+    const display = await app.addComponent(template('Display'), first.id);
+
+    await app.connect(first.id, 'userInput', display.id, 'content');
+    expect((await app.validate()).errors).toEqual([]);
+
+    await app.connect(second.id, 'userInput', display.id, 'content');
+    const { connections } = await app.openWorkflow(workflow.id);
+    expect(connections).toHaveLength(1);
+    expect(connections[0].sourceComponentId).toBe(second.id);
+
+    await expect(app.connect(display.id, 'x', display.id, 'content')).rejects.toThrow('connected to itself');
+  });
+
+  it('should edit config keeping value types and refresh Sub-Workflow ports', async () => {
+    const child = await app.createWorkflow('Child');
+    await app.addComponent(template('User Input'));
+    await app.addComponent(template('Return'));
+
+    await app.createWorkflow('Parent');
+    const llm = await app.addComponent(template('LLM Completion'));
+    await app.updateConfig(llm.id, 'temperature', '0.2');
+    await expect(app.updateConfig(llm.id, 'temperature', 'warm')).rejects.toThrow('Expected a number');
+
+    const sub = await app.addComponent(template('Sub-Workflow'));
+    await app.updateConfig(sub.id, 'workflowId', child.id);
+
+    const updated = app.getWorkflow()!.components;
+    expect(updated.find((c) => c.id === llm.id)?.config.temperature).toBe(0.2);
+    expect(updated.find((c) => c.id === sub.id)?.inputs.map((p) => p.id)).toEqual(['user-input-1']);
+    expect(updated.find((c) => c.id === sub.id)?.outputs.map((p) => p.id)).toEqual(['return-1']);
+  });
+
+  it('should parse config values by the type of the current value', () => {
+    expect(parseConfigValue('{"a":1}', {})).toEqual({ a: 1 });
+    expect(parseConfigValue('true', false)).toBe(true);
+    expect(parseConfigValue('hello', 'x')).toBe('hello');
+    expect(() => parseConfigValue('yes', false)).toThrow('Expected true or false');
+  });
+});
+
+describe('renderCanvas', () => {
+  it('should draw boxes at their positions and connections between them', () => {
+    const box = (id: string, x: number, y: number) => ({
+      id,
+      type: 'action' as const,
+      name: id,
+      config: {},
+      inputs: [],
+      outputs: [],
+      position: { x, y },
+    });
+
+    const rows = renderCanvas(
+      [box('first', 0, 0), box('second', 24, 2)],
+      [{ id: 'c', sourceComponentId: 'first', sourcePortId: 'o', targetComponentId: 'second', targetPortId: 'i' }],
+      { width: 40, height: 5, selectedId: 'second' },
+    ).map((segments) => segments.map((s) => s.text).join(''));
+
+    expect(rows).toEqual([
+      '┌────────────┐                          ',
+      '│ first      │────┐                     ',
+      '└────────────┘    │     ╔════════════╗  ',
+      '                  └────►║ second     ║  ',
+      '                        ╚════════════╝  ',
+    ]);
+  });
+});
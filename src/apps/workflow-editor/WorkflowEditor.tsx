@@ -0,0 +1,943 @@
+/**
+ * Workflow Editor App
+ *
+ * Lays workflows out on a terminal canvas using each component's position.
+ * Components are added from the template palette, ports are wired with the
+ * keyboard, config is edited in place and validation problems are shown
+ * next to the canvas as you go. Workflows can be run from the editor with
+ * a live per-component status view.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import TextInput from 'ink-text-input';
+import type { App, AppContext, AppCommand } from '@ports/app.js';
+import type {
+  WorkflowDefinition,
+  WorkflowComponent,
+  WorkflowConnection,
+  ComponentTemplate,
+  WorkflowValidationResult,
+  WorkflowExecutionContext,
+} from '@ports/workflow.js';
+import { WorkflowStorageAdapter } from '@adapters/workflow-storage.js';
+import { deriveSubWorkflowPorts } from '@adapters/workflow-templates.js';
+import { getTemplateKey, topologicalSort, type WorkflowEngine } from '@adapters/workflow-engine.js';
+import { WorkflowExecutionView } from '@ui/components/WorkflowExecutionView.js';
+import { renderCanvas, boxWidth, boxesOverlap, BOX_HEIGHT } from './canvas.js';
+
+const CANVAS_HEIGHT = 18;
+const COLUMN_GAP = 8;
+
+export interface TemplateCategory {
+  name: string;
+  templates: ComponentTemplate[];
+}
+
+export class WorkflowEditorApp implements App {
+  readonly id = 'workflow-editor';
+  readonly name = 'Workflow Editor';
+  readonly description = 'Design workflows on a canvas: add components, wire ports and edit config';
+  readonly version = '0.1.0';
+
+  private workflows!: WorkflowStorageAdapter;
+  private templates: ComponentTemplate[] = [];
+  private workflow: WorkflowDefinition | null = null;
+
+  readonly commands: AppCommand[] = [
+    {
+      name: 'list',
+      description: 'List stored workflows',
+      aliases: ['ls'],
+      execute: async (_args, context) => {
+        await this.initialize(context);
+        for (const workflow of await this.workflows.listWorkflows()) {
+          console.log(`  • ${workflow.id}  ${workflow.name} (${workflow.components.length} components)`);
+        }
+      },
+    },
+    {
+      name: 'validate',
+      description: 'Validate a workflow: validate <workflowId>',
+      execute: async (args, context) => {
+        await this.initialize(context);
+        const workflow = await this.workflows.getWorkflow(args[0]);
+        if (!workflow) {
+          throw new Error(`Workflow not found: ${args[0]}`);
+        }
+
+        const result = await this.workflows.validateWorkflow(workflow);
+        console.log(result.valid ? `✔ ${workflow.name} is valid` : `✖ ${workflow.name} has errors`);
+        result.errors.forEach((error) => console.log(`  error: ${error}`));
+        result.warnings.forEach((warning) => console.log(`  warning: ${warning}`));
+      },
+    },
+  ];
+
+  async initialize(context: AppContext): Promise<void> {
+    this.workflows = new WorkflowStorageAdapter(context.storage, {
+      // Displayed content shows up as the Display component's inputData in the run view
+      display: () => undefined,
+    });
+    this.templates = await this.workflows.getComponentTemplates();
+  }
+
+  render(): React.ReactElement {
+    return <WorkflowEditorUI app={this} />;
+  }
+
+  async cleanup(): Promise<void> {
+    this.workflow = null;
+  }
+
+  // Templates
+
+  getTemplateCategories(): TemplateCategory[] {
+    const categories = new Map<string, ComponentTemplate[]>();
+    for (const template of this.templates) {
+      const category = template.uiMetadata?.category ?? 'Other';
+      categories.set(category, [...(categories.get(category) ?? []), template]);
+    }
+    return Array.from(categories, ([name, templates]) => ({ name, templates }));
+  }
+
+  getTemplate(component: WorkflowComponent): ComponentTemplate | undefined {
+    const key = getTemplateKey(component);
+    return this.templates.find((t) => `${t.type}:${t.name}` === key);
+  }
+
+  // Workflows
+
+  async listWorkflows(): Promise<WorkflowDefinition[]> {
+    return await this.workflows.listWorkflows();
+  }
+
+  async createWorkflow(name: string): Promise<WorkflowDefinition> {
+    const workflow = await this.workflows.createWorkflow({
+      name,
+      version: '1.0.0',
+      components: [],
+      connections: [],
+    });
+    this.workflow = workflow;
+    return workflow;
+  }
+
+  async openWorkflow(id: string): Promise<WorkflowDefinition> {
+    const workflow = await this.workflows.getWorkflow(id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${id}`);
+    }
+
+    this.workflow = { ...workflow, components: this.layoutIfOverlapping(workflow) };
+    return this.workflow;
+  }
+
+  getWorkflow(): WorkflowDefinition | null {
+    return this.workflow;
+  }
+
+  async validate(): Promise<WorkflowValidationResult> {
+    return await this.workflows.validateWorkflow(this.requireWorkflow());
+  }
+
+  async run(inputs: Record<string, any>): Promise<WorkflowExecutionContext> {
+    return await this.workflows.executeWorkflow(this.requireWorkflow().id, inputs);
+  }
+
+  getEngine(): WorkflowEngine {
+    return this.workflows.getEngine();
+  }
+
+  /**
+   * User Input triggers, which need a value before the workflow can run
+   */
+  getRunInputs(): WorkflowComponent[] {
+    return (this.workflow?.components ?? []).filter((c) => getTemplateKey(c) === 'trigger:User Input');
+  }
+
+  // Editing
+
+  async addComponent(template: ComponentTemplate, nearId?: string): Promise<WorkflowComponent> {
+    const workflow = this.requireWorkflow();
+    const near = workflow.components.find((c) => c.id === nearId);
+
+    const component: WorkflowComponent = {
+      id: this.uniqueId(template.name),
+      type: template.type,
+      name: this.uniqueName(template.name),
+      template: template.name,
+      config: structuredClone(template.defaultConfig),
+      inputs: template.inputs.map((port) => ({ ...port, id: port.name })),
+      outputs: template.outputs.map((port) => ({ ...port, id: port.name })),
+      position: near
+        ? { x: near.position.x + boxWidth(near, this.getTemplate(near)?.uiMetadata?.icon) + COLUMN_GAP, y: near.position.y }
+        : { x: 1, y: 0 },
+    };
+
+    // Move down until the new box has room
+    while (workflow.components.some((c) => boxesOverlap(c, component, this.getIcons()))) {
+      component.position = { ...component.position, y: component.position.y + BOX_HEIGHT + 1 };
+    }
+
+    await this.save({ components: [...workflow.components, component] });
+    return component;
+  }
+
+  async removeComponent(componentId: string): Promise<void> {
+    const workflow = this.requireWorkflow();
+    await this.save({
+      components: workflow.components.filter((c) => c.id !== componentId),
+      connections: workflow.connections.filter(
+        (c) => c.sourceComponentId !== componentId && c.targetComponentId !== componentId,
+      ),
+    });
+  }
+
+  async moveComponent(componentId: string, dx: number, dy: number): Promise<void> {
+    const workflow = this.requireWorkflow();
+    await this.save({
+      components: workflow.components.map((c) =>
+        c.id === componentId
+          ? { ...c, position: { x: Math.max(0, c.position.x + dx), y: Math.max(0, c.position.y + dy) } }
+          : c,
+      ),
+    });
+  }
+
+  /**
+   * Connect an output port to an input port. An input is fed by one
+   * connection, so any existing connection into it is replaced.
+   */
+  async connect(
+    sourceComponentId: string,
+    sourcePortId: string,
+    targetComponentId: string,
+    targetPortId: string,
+  ): Promise<WorkflowConnection> {
+    const workflow = this.requireWorkflow();
+    if (sourceComponentId === targetComponentId) {
+      throw new Error('A component cannot be connected to itself');
+    }
+
+    const connection: WorkflowConnection = {
+      id: `${sourceComponentId}.${sourcePortId}->${targetComponentId}.${targetPortId}`,
+      sourceComponentId,
+      sourcePortId,
+      targetComponentId,
+      targetPortId,
+    };
+
+    await this.save({
+      connections: [
+        ...workflow.connections.filter(
+          (c) => !(c.targetComponentId === targetComponentId && c.targetPortId === targetPortId),
+        ),
+        connection,
+      ],
+    });
+    return connection;
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    const workflow = this.requireWorkflow();
+    await this.save({ connections: workflow.connections.filter((c) => c.id !== connectionId) });
+  }
+
+  async renameComponent(componentId: string, name: string): Promise<void> {
+    const workflow = this.requireWorkflow();
+    if (!name.trim()) {
+      throw new Error('Name cannot be empty');
+    }
+    await this.save({
+      components: workflow.components.map((c) => (c.id === componentId ? { ...c, name: name.trim() } : c)),
+    });
+  }
+
+  /**
+   * Set a config value from text, keeping the type of the current value.
+   * Pointing a Sub-Workflow at a workflow also refreshes its ports.
+   */
+  async updateConfig(componentId: string, key: string, text: string): Promise<void> {
+    const workflow = this.requireWorkflow();
+    const component = workflow.components.find((c) => c.id === componentId);
+    if (!component) {
+      throw new Error(`Component not found: ${componentId}`);
+    }
+
+    let updated: WorkflowComponent = {
+      ...component,
+      config: { ...component.config, [key]: parseConfigValue(text, component.config[key]) },
+    };
+    let connections = workflow.connections;
+
+    if (getTemplateKey(component) === 'container:Sub-Workflow' && key === 'workflowId') {
+      const child = await this.workflows.getWorkflow(updated.config.workflowId);
+      if (!child) {
+        throw new Error(`Workflow not found: ${updated.config.workflowId}`);
+      }
+
+      updated = { ...updated, ...deriveSubWorkflowPorts(child) };
+      const inputIds = new Set(updated.inputs.map((p) => p.id));
+      const outputIds = new Set(updated.outputs.map((p) => p.id));
+      connections = connections.filter(
+        (c) =>
+          (c.targetComponentId !== componentId || inputIds.has(c.targetPortId)) &&
+          (c.sourceComponentId !== componentId || outputIds.has(c.sourcePortId)),
+      );
+    }
+
+    await this.save({
+      components: workflow.components.map((c) => (c.id === componentId ? updated : c)),
+      connections,
+    });
+  }
+
+  getIcons(): Record<string, string> {
+    return this.templateMetadata('icon');
+  }
+
+  getColors(): Record<string, string> {
+    return this.templateMetadata('color');
+  }
+
+  // Helper methods
+
+  private templateMetadata(field: 'icon' | 'color'): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const component of this.workflow?.components ?? []) {
+      const value = this.getTemplate(component)?.uiMetadata?.[field];
+      if (value) values[component.id] = value;
+    }
+    return values;
+  }
+
+  private async save(updates: Partial<WorkflowDefinition>): Promise<void> {
+    const workflow = this.requireWorkflow();
+    this.workflow = await this.workflows.updateWorkflow(workflow.id, {
+      components: updates.components ?? workflow.components,
+      connections: updates.connections ?? workflow.connections,
+    });
+  }
+
+  private requireWorkflow(): WorkflowDefinition {
+    if (!this.workflow) {
+      throw new Error('No workflow open');
+    }
+    return this.workflow;
+  }
+
+  private uniqueId(templateName: string): string {
+    const base = templateName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const ids = new Set(this.requireWorkflow().components.map((c) => c.id));
+    let n = 1;
+    while (ids.has(`${base}-${n}`)) n++;
+    return `${base}-${n}`;
+  }
+
+  private uniqueName(templateName: string): string {
+    const names = new Set(this.requireWorkflow().components.map((c) => c.name));
+    if (!names.has(templateName)) return templateName;
+    let n = 2;
+    while (names.has(`${templateName} ${n}`)) n++;
+    return `${templateName} ${n}`;
+  }
+
+  /**
+   * Workflows built in code often leave every component at (0, 0). Lay
+   * those out in columns by dependency depth so they can be edited.
+   */
+  private layoutIfOverlapping(workflow: WorkflowDefinition): WorkflowComponent[] {
+    const { components, connections } = workflow;
+    const icons: Record<string, string> = {};
+    for (const component of components) {
+      const icon = this.getTemplate(component)?.uiMetadata?.icon;
+      if (icon) icons[component.id] = icon;
+    }
+
+    const overlapping = components.some((a, i) => components.slice(i + 1).some((b) => boxesOverlap(a, b, icons)));
+    if (!overlapping) return components;
+
+    let ordered: WorkflowComponent[];
+    try {
+      ordered = topologicalSort(components, connections);
+    } catch {
+      ordered = components;
+    }
+
+    const depth = new Map<string, number>();
+    for (const component of ordered) {
+      const parents = connections
+        .filter((c) => c.targetComponentId === component.id)
+        .map((c) => depth.get(c.sourceComponentId) ?? 0);
+      depth.set(component.id, parents.length > 0 ? Math.max(...parents) + 1 : 0);
+    }
+
+    const columnWidth = Math.max(...components.map((c) => boxWidth(c, icons[c.id]))) + COLUMN_GAP;
+    const rows = new Map<number, number>();
+    return components.map((component) => {
+      const column = depth.get(component.id) ?? 0;
+      const row = rows.get(column) ?? 0;
+      rows.set(column, row + 1);
+      return { ...component, position: { x: 1 + column * columnWidth, y: row * (BOX_HEIGHT + 1) } };
+    });
+  }
+}
+
+/**
+ * Parse text typed into the config editor, keeping the type of the
+ * current value (numbers stay numbers, objects are edited as JSON).
+ */
+export function parseConfigValue(text: string, current: unknown): unknown {
+  if (typeof current === 'number') {
+    const value = Number(text);
+    if (text.trim() === '' || Number.isNaN(value)) {
+      throw new Error(`Expected a number, got "${text}"`);
+    }
+    return value;
+  }
+  if (typeof current === 'boolean') {
+    if (text !== 'true' && text !== 'false') {
+      throw new Error(`Expected true or false, got "${text}"`);
+    }
+    return text === 'true';
+  }
+  if (current !== null && typeof current === 'object') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error('Expected JSON');
+    }
+  }
+  return text;
+}
+
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// UI
+
+type Mode =
+  | { name: 'open' }
+  | { name: 'new' }
+  | { name: 'canvas' }
+  | { name: 'move' }
+  | { name: 'palette'; category?: string }
+  | { name: 'connect'; sourcePortId?: string; targetId?: string }
+  | { name: 'config'; editing?: string }
+  | { name: 'connections' }
+  | { name: 'run-inputs'; values: Record<string, string> }
+  | { name: 'run'; inputs: Record<string, string> };
+
+interface MenuItem {
+  key: string;
+  label: string;
+  color?: string;
+  hint?: string;
+}
+
+const Menu: React.FC<{ title: string; items: MenuItem[]; cursor: number }> = ({ title, items, cursor }) => (
+  <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+    <Text bold color="cyan">{title}</Text>
+    {items.length === 0 && <Text dimColor>(nothing here)</Text>}
+    {items.map((item, index) => (
+      <Text key={item.key} wrap="truncate-end">
+        <Text color={index === cursor ? 'green' : undefined}>{index === cursor ? '→ ' : '  '}</Text>
+        <Text color={item.color} bold={index === cursor}>{item.label}</Text>
+        {item.hint && <Text dimColor> {item.hint}</Text>}
+      </Text>
+    ))}
+  </Box>
+);
+
+const WorkflowEditorUI: React.FC<{ app: WorkflowEditorApp }> = ({ app }) => {
+  const { stdout } = useStdout();
+  const [mode, setMode] = useState<Mode>({ name: 'open' });
+  const [cursor, setCursor] = useState(0);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowDefinition | null>(app.getWorkflow());
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const [validation, setValidation] = useState<WorkflowValidationResult | null>(null);
+  const [viewport, setViewport] = useState({ x: 0, y: 0 });
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState('');
+
+  const canvasWidth = Math.max(40, (stdout?.columns ?? 100) - 4);
+  const selected = workflow?.components.find((c) => c.id === selectedId);
+  const categories = app.getTemplateCategories();
+
+  useEffect(() => {
+    app.listWorkflows().then(setWorkflows).catch((error) => setStatus(error.message));
+  }, [app]);
+
+  // Keep the selected component inside the visible part of the canvas
+  useEffect(() => {
+    if (!selected) return;
+    const { x, y } = selected.position;
+    const w = boxWidth(selected, app.getIcons()[selected.id]);
+    setViewport((view) => ({
+      x: x < view.x ? Math.max(0, x - 2) : x + w > view.x + canvasWidth ? x + w - canvasWidth + 2 : view.x,
+      y: y < view.y ? y : y + BOX_HEIGHT > view.y + CANVAS_HEIGHT ? y + BOX_HEIGHT - CANVAS_HEIGHT : view.y,
+    }));
+  }, [selected?.position.x, selected?.position.y, canvasWidth]);
+
+  // Started from an effect so the execution view below is already subscribed
+  useEffect(() => {
+    if (mode.name !== 'run') return;
+    app.run(mode.inputs).catch((error) => setStatus(`✖ ${error.message}`));
+  }, [mode]);
+
+  const changeMode = (next: Mode) => {
+    setMode(next);
+    setCursor(0);
+  };
+
+  // Run an edit, then refresh the canvas and validation results
+  const edit = async (action: () => Promise<unknown>, done?: string) => {
+    try {
+      await action();
+      setWorkflow(app.getWorkflow());
+      setValidation(await app.validate());
+      setStatus(done ?? '');
+    } catch (error) {
+      setStatus(`✖ ${(error as Error).message}`);
+    }
+  };
+
+  const open = async (id?: string, name?: string) => {
+    try {
+      const opened = id ? await app.openWorkflow(id) : await app.createWorkflow(name!);
+      setWorkflow(opened);
+      setSelectedId(opened.components[0]?.id);
+      setValidation(await app.validate());
+      setStatus('');
+      changeMode({ name: 'canvas' });
+    } catch (error) {
+      setStatus(`✖ ${(error as Error).message}`);
+    }
+  };
+
+  // Items of the menu shown in the current mode
+  const menuItems = (): MenuItem[] => {
+    switch (mode.name) {
+      case 'open':
+        return [
+          { key: 'new', label: '+ New workflow', color: 'green' },
+          ...workflows.map((w) => ({ key: w.id, label: w.name, hint: `${w.components.length} components` })),
+        ];
+      case 'palette':
+        if (!mode.category) {
+          return categories.map((c) => ({ key: c.name, label: c.name, hint: `${c.templates.length}` }));
+        }
+        return (categories.find((c) => c.name === mode.category)?.templates ?? []).map((t) => ({
+          key: `${t.type}:${t.name}`,
+          label: `${t.uiMetadata?.icon ?? '•'} ${t.name}`,
+          color: t.uiMetadata?.color,
+          hint: t.description,
+        }));
+      case 'connect': {
+        if (!selected) return [];
+        if (!mode.sourcePortId) {
+          return selected.outputs.map((p) => ({ key: p.id, label: p.name, hint: p.type }));
+        }
+        if (!mode.targetId) {
+          return (workflow?.components ?? [])
+            .filter((c) => c.id !== selected.id && c.inputs.length > 0)
+            .map((c) => ({ key: c.id, label: c.name, color: app.getColors()[c.id] }));
+        }
+        const sourceType = selected.outputs.find((p) => p.id === mode.sourcePortId)?.type;
+        const target = workflow?.components.find((c) => c.id === mode.targetId);
+        return (target?.inputs ?? []).map((p) => {
+          const compatible = p.type === sourceType || p.type === 'any' || sourceType === 'any';
+          return {
+            key: p.id,
+            label: p.name,
+            color: compatible ? undefined : 'red',
+            hint: `${p.type}${p.required ? ', required' : ''}${compatible ? '' : ' (type mismatch)'}`,
+          };
+        });
+      }
+      case 'config':
+        if (!selected) return [];
+        return [
+          { key: '\u0000name', label: 'name', hint: selected.name },
+          ...Object.entries(selected.config).map(([key, value]) => ({
+            key,
+            label: key,
+            hint: formatConfigValue(value),
+          })),
+        ];
+      case 'connections':
+        return (workflow?.connections ?? [])
+          .filter((c) => c.sourceComponentId === selectedId || c.targetComponentId === selectedId)
+          .map((c) => ({ key: c.id, label: describeConnection(c, workflow!) }));
+      default:
+        return [];
+    }
+  };
+
+  const items = menuItems();
+
+  const choose = async (item: MenuItem) => {
+    switch (mode.name) {
+      case 'open':
+        if (item.key === 'new') {
+          setText('');
+          changeMode({ name: 'new' });
+        } else {
+          await open(item.key);
+        }
+        return;
+      case 'palette': {
+        if (!mode.category) {
+          changeMode({ name: 'palette', category: item.key });
+          return;
+        }
+        const template = categories
+          .flatMap((c) => c.templates)
+          .find((t) => `${t.type}:${t.name}` === item.key)!;
+        let added: WorkflowComponent | undefined;
+        await edit(async () => {
+          added = await app.addComponent(template, selectedId);
+        }, `Added ${template.name}`);
+        if (added) setSelectedId(added.id);
+        changeMode({ name: 'canvas' });
+        return;
+      }
+      case 'connect':
+        if (!mode.sourcePortId) {
+          changeMode({ name: 'connect', sourcePortId: item.key });
+        } else if (!mode.targetId) {
+          changeMode({ ...mode, targetId: item.key });
+        } else {
+          await edit(
+            () => app.connect(selectedId!, mode.sourcePortId!, mode.targetId!, item.key),
+            'Connected',
+          );
+          changeMode({ name: 'canvas' });
+        }
+        return;
+      case 'config':
+        setText(item.key === '\u0000name' ? selected!.name : formatConfigValue(selected!.config[item.key]));
+        setMode({ name: 'config', editing: item.key });
+        return;
+      case 'connections':
+        await edit(() => app.removeConnection(item.key), 'Connection removed');
+        setCursor((c) => Math.max(0, Math.min(c, items.length - 2)));
+        return;
+      default:
+        return;
+    }
+  };
+
+  // Select the nearest component in an arrow direction
+  const selectToward = (dx: number, dy: number) => {
+    if (!workflow || !selected) {
+      setSelectedId(workflow?.components[0]?.id);
+      return;
+    }
+
+    let best: { id: string; distance: number } | undefined;
+    for (const component of workflow.components) {
+      const ox = component.position.x - selected.position.x;
+      const oy = (component.position.y - selected.position.y) * 3; // rows are taller than columns
+      const along = ox * dx + oy * dy;
+      if (component.id === selected.id || along <= 0) continue;
+
+      const distance = along + Math.abs(ox * dy) + Math.abs(oy * dx) * 2;
+      if (!best || distance < best.distance) {
+        best = { id: component.id, distance };
+      }
+    }
+    if (best) setSelectedId(best.id);
+  };
+
+  const typing =
+    mode.name === 'new' || mode.name === 'run-inputs' || (mode.name === 'config' && mode.editing !== undefined);
+
+  const startRun = (values: Record<string, string>) => {
+    const missing = app.getRunInputs().find((c) => values[c.id] === undefined);
+    if (missing) {
+      setText('');
+      setMode({ name: 'run-inputs', values });
+    } else {
+      setStatus('');
+      setMode({ name: 'run', inputs: values });
+    }
+  };
+
+  useInput(
+    (input, key) => {
+      if (key.escape) {
+        if (mode.name === 'canvas') {
+          app.listWorkflows().then(setWorkflows).catch(() => undefined);
+          changeMode({ name: 'open' });
+        } else if (mode.name === 'palette' && mode.category) {
+          changeMode({ name: 'palette' });
+        } else if (mode.name === 'new') {
+          changeMode({ name: 'open' });
+        } else if (mode.name !== 'open') {
+          changeMode({ name: 'canvas' });
+        }
+        return;
+      }
+
+      if (mode.name === 'canvas' || mode.name === 'move') {
+        const dx = key.leftArrow ? -1 : key.rightArrow ? 1 : 0;
+        const dy = key.upArrow ? -1 : key.downArrow ? 1 : 0;
+
+        if (dx !== 0 || dy !== 0) {
+          if (mode.name === 'move' && selectedId) {
+            void edit(() => app.moveComponent(selectedId, dx * 2, dy));
+          } else {
+            selectToward(dx, dy);
+          }
+          return;
+        }
+
+        if (key.tab && workflow && workflow.components.length > 0) {
+          const index = workflow.components.findIndex((c) => c.id === selectedId);
+          setSelectedId(workflow.components[(index + 1) % workflow.components.length].id);
+        } else if (input === 'm' && selectedId) {
+          changeMode({ name: mode.name === 'move' ? 'canvas' : 'move' });
+        } else if (input === 'a') {
+          changeMode({ name: 'palette' });
+        } else if (input === 'c' && selected) {
+          if (selected.outputs.length === 0) {
+            setStatus(`✖ ${selected.name} has no output ports`);
+          } else {
+            changeMode({ name: 'connect' });
+          }
+        } else if (input === 'e' && selected) {
+          changeMode({ name: 'config' });
+        } else if (input === 'x' && selected) {
+          changeMode({ name: 'connections' });
+        } else if (input === 'r' && workflow) {
+          if (validation && !validation.valid) {
+            setStatus('✖ Fix the validation errors before running');
+          } else {
+            startRun({});
+          }
+        } else if (input === 'd' && selected) {
+          const index = workflow!.components.indexOf(selected);
+          void edit(() => app.removeComponent(selected.id), `Removed ${selected.name}`);
+          setSelectedId(workflow!.components[index === 0 ? 1 : index - 1]?.id);
+        }
+        return;
+      }
+
+      if (mode.name === 'run') return; // The execution view handles its own keys
+
+      if (key.upArrow) {
+        setCursor((c) => (items.length === 0 ? 0 : (c - 1 + items.length) % items.length));
+      } else if (key.downArrow) {
+        setCursor((c) => (items.length === 0 ? 0 : (c + 1) % items.length));
+      } else if (key.return && items[cursor]) {
+        void choose(items[cursor]);
+      }
+    },
+    { isActive: !typing },
+  );
+
+  useInput(
+    (_input, key) => {
+      if (key.escape) {
+        setMode(mode.name === 'new' ? { name: 'open' } : mode.name === 'run-inputs' ? { name: 'canvas' } : { name: 'config' });
+      }
+    },
+    { isActive: typing },
+  );
+
+  const submitText = async (value: string) => {
+    if (mode.name === 'run-inputs') {
+      const next = app.getRunInputs().find((c) => mode.values[c.id] === undefined)!;
+      startRun({ ...mode.values, [next.id]: value });
+      return;
+    }
+    if (mode.name === 'new') {
+      if (value.trim()) await open(undefined, value.trim());
+      return;
+    }
+    if (mode.name === 'config' && mode.editing && selectedId) {
+      const field = mode.editing;
+      await edit(
+        () => (field === '\u0000name' ? app.renameComponent(selectedId, value) : app.updateConfig(selectedId, field, value)),
+        'Saved',
+      );
+      setMode({ name: 'config' });
+    }
+  };
+
+  if (mode.name === 'open' || mode.name === 'new') {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text bold color="cyan">🧩 Workflow Editor</Text>
+        <Text dimColor>↑↓ select • Enter open • Esc back</Text>
+        <Box marginTop={1}>
+          <Menu title="Workflows" items={items} cursor={cursor} />
+        </Box>
+        {mode.name === 'new' && (
+          <Box marginTop={1}>
+            <Text>Name: </Text>
+            <TextInput value={text} onChange={setText} onSubmit={submitText} />
+          </Box>
+        )}
+        {status && <Text color={status.startsWith('✖') ? 'red' : 'green'}>{status}</Text>}
+      </Box>
+    );
+  }
+
+  const rows = renderCanvas(workflow?.components ?? [], workflow?.connections ?? [], {
+    width: canvasWidth,
+    height: CANVAS_HEIGHT,
+    offsetX: viewport.x,
+    offsetY: viewport.y,
+    selectedId,
+    errorIds: componentsWithErrors(workflow, validation),
+    colors: app.getColors(),
+    icons: app.getIcons(),
+  });
+
+  const menuTitle: Record<string, string> = {
+    palette: mode.name === 'palette' && mode.category ? `Add ${mode.category} component` : 'Component categories',
+    connect:
+      mode.name === 'connect' && mode.sourcePortId
+        ? mode.targetId
+          ? `Connect ${mode.sourcePortId} → input of ${workflow?.components.find((c) => c.id === mode.targetId)?.name}`
+          : `Connect ${mode.sourcePortId} → which component?`
+        : `Connect from which output of ${selected?.name}?`,
+    config: `Config of ${selected?.name} (Enter to edit)`,
+    connections: `Connections of ${selected?.name} (Enter to remove)`,
+  };
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box flexDirection="column">
+        <Text bold color="cyan">🧩 {workflow?.name}</Text>
+        <Text dimColor>
+          {mode.name === 'move'
+            ? 'MOVE: arrows move the box • m done'
+            : mode.name === 'run'
+              ? 'RUN: Esc back to the canvas'
+              : 'arrows/Tab select • a add • c connect • e config • x connections • m move • d delete • r run • Esc close'}
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" borderStyle="single" borderColor={mode.name === 'move' ? 'yellow' : 'gray'}>
+        {rows.map((segments, row) => (
+          <Text key={row}>
+            {segments.map((segment, index) => (
+              <Text key={index} color={segment.color} bold={segment.bold} dimColor={segment.dimColor}>
+                {segment.text}
+              </Text>
+            ))}
+          </Text>
+        ))}
+      </Box>
+
+      {mode.name === 'run' && <WorkflowExecutionView engine={app.getEngine()} workflow={workflow!} />}
+
+      <Box flexDirection="row" display={mode.name === 'run' ? 'none' : 'flex'}>
+        <Box flexDirection="column" width="50%">
+          {selected ? <ComponentDetails component={selected} workflow={workflow!} /> : <Text dimColor>Press a to add a component</Text>}
+        </Box>
+        <Box flexDirection="column" width="50%">
+          {menuTitle[mode.name] && <Menu title={menuTitle[mode.name]} items={items} cursor={cursor} />}
+          {mode.name === 'run-inputs' && (
+            <Box>
+              <Text>{app.getRunInputs().find((c) => mode.values[c.id] === undefined)?.name}: </Text>
+              <TextInput value={text} onChange={setText} onSubmit={submitText} />
+            </Box>
+          )}
+          {mode.name === 'config' && mode.editing !== undefined && (
+            <Box>
+              <Text>{mode.editing === '\u0000name' ? 'name' : mode.editing}: </Text>
+              <TextInput value={text} onChange={setText} onSubmit={submitText} />
+            </Box>
+          )}
+        </Box>
+      </Box>
+
+      {validation && (
+        <Box flexDirection="column">
+          {validation.errors.map((error, index) => (
+            <Text key={`e${index}`} color="red">✖ {error}</Text>
+          ))}
+          {validation.warnings.map((warning, index) => (
+            <Text key={`w${index}`} color="yellow">⚠ {warning}</Text>
+          ))}
+          {validation.valid && validation.warnings.length === 0 && <Text color="green">✔ Valid</Text>}
+        </Box>
+      )}
+      {status && <Text color={status.startsWith('✖') ? 'red' : 'green'}>{status}</Text>}
+    </Box>
+  );
+};
+
+const ComponentDetails: React.FC<{ component: WorkflowComponent; workflow: WorkflowDefinition }> = ({
+  component,
+  workflow,
+}) => {
+  const nameOf = (id: string) => workflow.components.find((c) => c.id === id)?.name ?? id;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>{component.name} <Text dimColor>({component.template ?? component.name}, {component.type})</Text></Text>
+      {component.inputs.map((port) => {
+        const feed = workflow.connections.find((c) => c.targetComponentId === component.id && c.targetPortId === port.id);
+        return (
+          <Text key={`in-${port.id}`}>
+            {'  ▶ '}{port.name}<Text dimColor>: {port.type}</Text>
+            {feed ? <Text color="cyan"> ← {nameOf(feed.sourceComponentId)}</Text> : port.required ? <Text color="yellow"> (unconnected)</Text> : null}
+          </Text>
+        );
+      })}
+      {component.outputs.map((port) => {
+        const targets = workflow.connections
+          .filter((c) => c.sourceComponentId === component.id && c.sourcePortId === port.id)
+          .map((c) => nameOf(c.targetComponentId));
+        return (
+          <Text key={`out-${port.id}`}>
+            {'  ◀ '}{port.name}<Text dimColor>: {port.type}</Text>
+            {targets.length > 0 && <Text color="cyan"> → {targets.join(', ')}</Text>}
+          </Text>
+        );
+      })}
+    </Box>
+  );
+};
+
+function describeConnection(connection: WorkflowConnection, workflow: WorkflowDefinition): string {
+  const find = (id: string) => workflow.components.find((c) => c.id === id);
+  const source = find(connection.sourceComponentId);
+  const target = find(connection.targetComponentId);
+  const sourcePort = source?.outputs.find((p) => p.id === connection.sourcePortId)?.name ?? connection.sourcePortId;
+  const targetPort = target?.inputs.find((p) => p.id === connection.targetPortId)?.name ?? connection.targetPortId;
+  return `${source?.name ?? '?'}.${sourcePort} → ${target?.name ?? '?'}.${targetPort}`;
+}
+
+/**
+ * Validation messages refer to components by name; find the ones mentioned
+ */
+function componentsWithErrors(
+  workflow: WorkflowDefinition | null,
+  validation: WorkflowValidationResult | null,
+): Set<string> {
+  const ids = new Set<string>();
+  if (!workflow || !validation) return ids;
+
+  for (const component of workflow.components) {
+    const mention = new RegExp(`(^|[\\s:])${escapeRegExp(component.name)}([.\\s:]|$)`);
+    if (validation.errors.some((error) => mention.test(error))) {
+      ids.add(component.id);
+    }
+  }
+  return ids;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export default new WorkflowEditorApp();
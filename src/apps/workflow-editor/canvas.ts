@@ -0,0 +1,280 @@
+/**
+ * Workflow Canvas
+ *
+ * Draws workflow components as boxes and connections as box-drawing lines
+ * on a character grid, using each component's `position` as its top-left
+ * cell. The result is a list of styled segments per row, ready for <Text>.
+ */
+
+import type { WorkflowComponent, WorkflowConnection } from '../../ports/workflow.js';
+
+export const BOX_HEIGHT = 3;
+const MIN_BOX_WIDTH = 14;
+const MAX_BOX_WIDTH = 28;
+
+export interface CanvasSegment {
+  text: string;
+  color?: string;
+  bold?: boolean;
+  dimColor?: boolean;
+}
+
+export interface CanvasOptions {
+  width: number;
+  height: number;
+  offsetX?: number;
+  offsetY?: number;
+  selectedId?: string;
+  errorIds?: Set<string>; // Components named in validation errors
+  colors?: Record<string, string>; // Fallback color per component id (from its template)
+  icons?: Record<string, string>; // Fallback icon per component id
+}
+
+interface Cell {
+  char: string; // '' for the second column of a wide character
+  color?: string;
+  bold?: boolean;
+  dimColor?: boolean;
+}
+
+// Line directions out of a cell
+const UP = 1;
+const DOWN = 2;
+const LEFT = 4;
+const RIGHT = 8;
+
+const LINE_CHARS: Record<number, string> = {
+  [LEFT | RIGHT]: '─',
+  [LEFT]: '─',
+  [RIGHT]: '─',
+  [UP | DOWN]: '│',
+  [UP]: '│',
+  [DOWN]: '│',
+  [DOWN | RIGHT]: '┌',
+  [DOWN | LEFT]: '┐',
+  [UP | RIGHT]: '└',
+  [UP | LEFT]: '┘',
+  [LEFT | RIGHT | DOWN]: '┬',
+  [LEFT | RIGHT | UP]: '┴',
+  [UP | DOWN | RIGHT]: '├',
+  [UP | DOWN | LEFT]: '┤',
+  [UP | DOWN | LEFT | RIGHT]: '┼',
+};
+
+export function boxLabel(component: WorkflowComponent, icon?: string): string {
+  const shownIcon = component.metadata?.icon ?? icon;
+  return shownIcon ? `${shownIcon} ${component.name}` : component.name;
+}
+
+export function boxWidth(component: WorkflowComponent, icon?: string): number {
+  return Math.min(MAX_BOX_WIDTH, Math.max(MIN_BOX_WIDTH, displayWidth(boxLabel(component, icon)) + 4));
+}
+
+/**
+ * Number of terminal columns a string takes up, measured the way Ink lays
+ * out text: pictographs take two columns, variation selectors and joiners
+ * take none.
+ */
+export function displayWidth(text: string): number {
+  return Array.from(text).reduce((width, char) => width + charWidth(char), 0);
+}
+
+function charWidth(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code === 0xfe0f || code === 0x200d) return 0;
+  return /\p{Extended_Pictographic}/u.test(char) ? 2 : 1;
+}
+
+/**
+ * Does the box of `a` overlap the box of `b` (with a one-cell margin)?
+ */
+export function boxesOverlap(a: WorkflowComponent, b: WorkflowComponent, icons: Record<string, string> = {}): boolean {
+  const aRight = a.position.x + boxWidth(a, icons[a.id]) + 1;
+  const bRight = b.position.x + boxWidth(b, icons[b.id]) + 1;
+  return (
+    a.position.x < bRight &&
+    b.position.x < aRight &&
+    a.position.y < b.position.y + BOX_HEIGHT + 1 &&
+    b.position.y < a.position.y + BOX_HEIGHT + 1
+  );
+}
+
+export function renderCanvas(
+  components: WorkflowComponent[],
+  connections: WorkflowConnection[],
+  options: CanvasOptions,
+): CanvasSegment[][] {
+  const { width, height, offsetX = 0, offsetY = 0, selectedId, errorIds = new Set(), colors = {}, icons = {} } = options;
+  const grid: Cell[][] = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ char: ' ' })),
+  );
+  const lines = new Map<string, number>();
+  const lineColors = new Map<string, string>();
+
+  const put = (x: number, y: number, cell: Cell) => {
+    const col = x - offsetX;
+    const row = y - offsetY;
+    if (row >= 0 && row < height && col >= 0 && col < width) {
+      grid[row][col] = cell;
+    }
+  };
+
+  const mark = (x: number, y: number, directions: number, color: string) => {
+    const key = `${x},${y}`;
+    lines.set(key, (lines.get(key) ?? 0) | directions);
+    if (lineColors.get(key) !== 'cyan') lineColors.set(key, color);
+  };
+
+  const byId = new Map(components.map((c) => [c.id, c]));
+
+  // Connections first so boxes are drawn over any line that crosses them
+  const arrows: Array<{ x: number; y: number; color: string }> = [];
+  for (const connection of connections) {
+    const source = byId.get(connection.sourceComponentId);
+    const target = byId.get(connection.targetComponentId);
+    if (!source || !target) continue;
+
+    const color =
+      selectedId && (source.id === selectedId || target.id === selectedId) ? 'cyan' : 'gray';
+    const points = routeConnection(source, target, icons);
+
+    mark(points[0].x, points[0].y, LEFT, color);
+    for (let i = 1; i < points.length; i++) {
+      drawSegment(points[i - 1], points[i], (x, y, directions) => mark(x, y, directions, color));
+    }
+
+    const end = points[points.length - 1];
+    arrows.push({ x: end.x, y: end.y, color });
+  }
+
+  for (const [key, directions] of lines) {
+    const [x, y] = key.split(',').map(Number);
+    put(x, y, { char: LINE_CHARS[directions] ?? '┼', color: lineColors.get(key) });
+  }
+  for (const arrow of arrows) {
+    put(arrow.x, arrow.y, { char: '►', color: arrow.color });
+  }
+
+  for (const component of components) {
+    const icon = icons[component.id];
+    const boxColor = component.metadata?.color ?? colors[component.id] ?? 'white';
+    const selected = component.id === selectedId;
+    const borderColor = errorIds.has(component.id) ? 'red' : selected ? 'whiteBright' : boxColor;
+    const w = boxWidth(component, icon);
+    const { x, y } = component.position;
+    const border = { color: borderColor, bold: selected };
+    const topEdge = selected ? '═' : '─';
+
+    put(x, y, { char: selected ? '╔' : '┌', ...border });
+    put(x + w - 1, y, { char: selected ? '╗' : '┐', ...border });
+    put(x, y + 1, { char: selected ? '║' : '│', ...border });
+    put(x + w - 1, y + 1, { char: selected ? '║' : '│', ...border });
+    put(x, y + 2, { char: selected ? '╚' : '└', ...border });
+    put(x + w - 1, y + 2, { char: selected ? '╝' : '┘', ...border });
+    for (let col = 1; col < w - 1; col++) {
+      put(x + col, y, { char: topEdge, ...border });
+      put(x + col, y + 2, { char: topEdge, ...border });
+      put(x + col, y + 1, { char: ' ' });
+    }
+
+    // Label, truncated to fit inside the box
+    let col = x + 2;
+    const limit = x + w - 2;
+    let last: Cell | undefined;
+    for (const char of Array.from(truncate(boxLabel(component, icon), w - 4))) {
+      const charCols = charWidth(char);
+      if (charCols === 0) {
+        // Keep variation selectors with the character they modify
+        if (last) last.char += char;
+        continue;
+      }
+      if (col + charCols > limit) break;
+      last = { char, color: boxColor, bold: selected };
+      put(col, y + 1, last);
+      if (charCols === 2) put(col + 1, y + 1, { char: '' });
+      col += charCols;
+    }
+  }
+
+  return grid.map(toSegments);
+}
+
+/**
+ * Polyline from the right edge of `source` to the left edge of `target`.
+ * Connections that run backwards detour below both boxes.
+ */
+function routeConnection(
+  source: WorkflowComponent,
+  target: WorkflowComponent,
+  icons: Record<string, string>,
+): Array<{ x: number; y: number }> {
+  const startX = source.position.x + boxWidth(source, icons[source.id]);
+  const startY = source.position.y + 1;
+  const endX = target.position.x - 1;
+  const endY = target.position.y + 1;
+
+  if (endX - startX >= 2) {
+    const midX = startX + Math.floor((endX - startX) / 2);
+    return [
+      { x: startX, y: startY },
+      { x: midX, y: startY },
+      { x: midX, y: endY },
+      { x: endX, y: endY },
+    ];
+  }
+
+  const below = Math.max(source.position.y, target.position.y) + BOX_HEIGHT;
+  return [
+    { x: startX, y: startY },
+    { x: startX + 1, y: startY },
+    { x: startX + 1, y: below },
+    { x: endX - 1, y: below },
+    { x: endX - 1, y: endY },
+    { x: endX, y: endY },
+  ];
+}
+
+function drawSegment(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  mark: (x: number, y: number, directions: number) => void,
+): void {
+  const dx = Math.sign(to.x - from.x);
+  const dy = Math.sign(to.y - from.y);
+  if (dx === 0 && dy === 0) return;
+
+  const forward = dx > 0 ? RIGHT : dx < 0 ? LEFT : dy > 0 ? DOWN : UP;
+  const backward = dx > 0 ? LEFT : dx < 0 ? RIGHT : dy > 0 ? UP : DOWN;
+
+  let { x, y } = from;
+  while (x !== to.x || y !== to.y) {
+    mark(x, y, forward);
+    x += dx;
+    y += dy;
+    mark(x, y, backward);
+  }
+}
+
+function truncate(text: string, maxWidth: number): string {
+  if (displayWidth(text) <= maxWidth) return text;
+
+  let result = '';
+  for (const char of Array.from(text)) {
+    if (displayWidth(result + char) > maxWidth - 1) break;
+    result += char;
+  }
+  return `${result}…`;
+}
+
+function toSegments(row: Cell[]): CanvasSegment[] {
+  const segments: CanvasSegment[] = [];
+  for (const cell of row) {
+    const last = segments[segments.length - 1];
+    if (last && last.color === cell.color && last.bold === cell.bold && last.dimColor === cell.dimColor) {
+      last.text += cell.char;
+    } else {
+      segments.push({ text: cell.char, color: cell.color, bold: cell.bold, dimColor: cell.dimColor });
+    }
+  }
+  return segments;
+}
@@ -5,14 +5,28 @@
  */
 
 import React from 'react';
+import fs from 'fs/promises';
 import { render } from 'ink';
 import { Command } from 'commander';
 import { Framework } from './core/framework.js';
 import { JsonStorage } from './adapters/json-storage.js';
 import { KeyboardInput } from './adapters/keyboard-input.js';
+import { WorkflowStorageAdapter } from './adapters/workflow-storage.js';
+import { OllamaAdapter } from './adapters/llm/ollama.js';
+import { WorkflowScheduler, type ScheduleEvent } from './adapters/workflow-scheduler.js';
+import {
+  exportWorkflow,
+  importWorkflow,
+  formatFromPath,
+  type WorkflowFileFormat,
+} from './adapters/workflow-files.js';
+import { BuildEngine, DEFAULT_OUTPUT_DIR } from './adapters/build-engine.js';
+import { diffArtifacts, colorizeDiff } from './adapters/build-diff.js';
+import type { BuildConfig, CodeLanguage } from './ports/build.js';
 import { App } from './ui/App.js';
 import calendarApp from './apps/calendar/CalendarManager.js';
 import agentChatApp from './apps/agent-chat/AgentChat.js';
+import workflowEditorApp from './apps/workflow-editor/WorkflowEditor.js';
 
 const program = new Command();
 
@@ -24,7 +38,9 @@ program
 program
   .command('run', { isDefault: true })
   .description('Run the Inkhat TUI')
-  .action(async () => {
+  .option('--apps <dir>', 'Directory of generated and user apps', DEFAULT_OUTPUT_DIR)
+  .option('-w, --watch', 'Reload apps in the apps directory when their files change')
+  .action(async (options: { apps: string; watch?: boolean }) => {
     // Initialize adapters
     const storage = new JsonStorage();
     const keyboardInput = new KeyboardInput();
@@ -42,6 +58,14 @@ program
     // Register built-in apps
     framework.getRegistry().register(calendarApp);
     framework.getRegistry().register(agentChatApp);
+    framework.getRegistry().register(workflowEditorApp);
+
+    // Load apps from the apps directory, keeping them up to date in watch mode
+    if (options.watch) {
+      await framework.watchApps(options.apps);
+    } else {
+      await framework.getRegistry().loadFromDirectory(options.apps);
+    }
 
     // Render the UI
     const { unmount, waitUntilExit } = render(
@@ -58,9 +82,10 @@ program
   });
 
 program
-  .command('exec <app> <command>')
+  .command('exec <app> <command> [args...]')
   .description('Execute a command from an app')
-  .action(async (appId: string, commandName: string, ...args: string[]) => {
+  .option('--apps <dir>', 'Directory of generated and user apps', DEFAULT_OUTPUT_DIR)
+  .action(async (appId: string, commandName: string, args: string[], options: { apps: string }) => {
     const storage = new JsonStorage();
     const keyboardInput = new KeyboardInput();
 
@@ -73,6 +98,8 @@ program
     await framework.initialize();
     framework.getRegistry().register(calendarApp);
     framework.getRegistry().register(agentChatApp);
+    framework.getRegistry().register(workflowEditorApp);
+    await framework.getRegistry().loadFromDirectory(options.apps);
 
     try {
       await framework.executeCommand(appId, commandName, args);
@@ -84,4 +111,215 @@ program
     }
   });
 
+program
+  .command('daemon')
+  .description('Run workflows with Schedule triggers on time')
+  .option('--tick <seconds>', 'How often to check for due runs', '15')
+  .action(async (options: { tick: string }) => {
+    const tick = Number(options.tick);
+    if (!Number.isFinite(tick) || tick <= 0) {
+      console.error(`Error: --tick must be a positive number of seconds, got "${options.tick}"`);
+      process.exit(1);
+    }
+
+    const storage = new JsonStorage();
+    await storage.initialize();
+
+    // LLM components run against the same local Ollama model as Agent Chat
+    const llm = new OllamaAdapter({
+      baseUrl: 'http://localhost:11434',
+      defaultModel: 'llama3.2',
+    });
+
+    const scheduler = new WorkflowScheduler({
+      workflows: new WorkflowStorageAdapter(storage, { llm, display: (content) => console.log(content) }),
+      storage,
+      tickInterval: tick * 1000,
+      onEvent: (event) => console.log(formatScheduleEvent(event)),
+    });
+
+    await scheduler.start();
+    for (const schedule of await scheduler.listSchedules()) {
+      console.log(`${schedule.workflowId}/${schedule.componentId}: next run ${schedule.nextRun}`);
+    }
+
+    // Run until interrupted, then let in-progress runs finish
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+
+    console.log('Stopping daemon...');
+    await scheduler.stop();
+    await storage.close();
+  });
+
+const workflowCommand = program
+  .command('workflow')
+  .description('Share workflow definitions as YAML or JSON files');
+
+workflowCommand
+  .command('export <id>')
+  .description('Export a workflow definition')
+  .option('-f, --format <format>', 'yaml or json (default: from --output, else yaml)')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (id: string, options: { format?: string; output?: string }) => {
+    const storage = new JsonStorage();
+    const workflows = new WorkflowStorageAdapter(storage);
+
+    try {
+      const workflow = await workflows.getWorkflow(id);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${id}`);
+      }
+
+      const format = parseFileFormat(options.format) ?? (options.output ? formatFromPath(options.output) : 'yaml');
+      const text = exportWorkflow(workflow, format);
+
+      if (options.output) {
+        await fs.writeFile(options.output, text, 'utf-8');
+        console.log(`Exported "${workflow.name}" to ${options.output}`);
+      } else {
+        process.stdout.write(text);
+      }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+workflowCommand
+  .command('import <file>')
+  .description('Import a workflow definition as a new workflow')
+  .option('-f, --format <format>', 'yaml or json (default: from the file extension)')
+  .action(async (file: string, options: { format?: string }) => {
+    const storage = new JsonStorage();
+    await storage.initialize();
+    const workflows = new WorkflowStorageAdapter(storage);
+
+    try {
+      const format = parseFileFormat(options.format) ?? formatFromPath(file);
+      const text = await fs.readFile(file, 'utf-8');
+      const { workflow, validation } = await importWorkflow(workflows, text, format);
+
+      console.log(`Imported "${workflow.name}" as ${workflow.id}`);
+      for (const warning of validation.warnings) {
+        console.log(`  warning: ${warning}`);
+      }
+      for (const error of validation.errors) {
+        console.log(`  error: ${error}`);
+      }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('build <workflowId>')
+  .description('Generate an app from a workflow')
+  .option('-o, --output <dir>', `Apps directory (default: that of the last build, else ${DEFAULT_OUTPUT_DIR})`)
+  .option('-l, --language <language>', 'typescript or javascript (default: that of the last build, else typescript)')
+  .option('--tests', 'Also generate a vitest smoke-test suite for the app')
+  .option('--dry-run', 'Print the generated files instead of writing them')
+  .option('--diff', 'Show how the generated files differ from those on disk, without writing them')
+  .action(async (
+    workflowId: string,
+    options: { output?: string; language?: string; tests?: boolean; dryRun?: boolean; diff?: boolean },
+  ) => {
+    const storage = new JsonStorage();
+    await storage.initialize();
+    const workflows = new WorkflowStorageAdapter(storage);
+    const builder = new BuildEngine({ workflows, storage });
+
+    try {
+      const workflow = await workflows.getWorkflow(workflowId);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${workflowId}`);
+      }
+
+      // Default to the settings of the previous build so a diff compares like with like
+      const previous = workflow.appSettings ? await builder.getBuildRecord(workflow.appSettings.id) : null;
+      const config: BuildConfig = {
+        ...(previous?.config ?? { target: 'app', language: 'typescript', options: {} }),
+        outputDir: options.output ?? previous?.config.outputDir ?? DEFAULT_OUTPUT_DIR,
+        language: parseLanguage(options.language) ?? previous?.config.language ?? 'typescript',
+      };
+      if (options.tests) {
+        config.options = { ...config.options, includeTests: true };
+      }
+
+      if (options.dryRun || options.diff) {
+        const artifacts = await builder.previewBuild(workflowId, config);
+
+        if (options.dryRun) {
+          for (const artifact of artifacts) {
+            console.log(`=== ${artifact.filePath} (${artifact.language}) ===`);
+            process.stdout.write(artifact.content);
+            console.log();
+          }
+        }
+
+        if (options.diff) {
+          const diffs = await diffArtifacts(artifacts, config.outputDir);
+          const color = process.stdout.isTTY && !process.env.NO_COLOR;
+          for (const { filePath, status, diff } of diffs) {
+            if (status === 'unchanged') {
+              console.log(`${filePath}: unchanged`);
+            } else {
+              process.stdout.write(color ? colorizeDiff(diff) : diff);
+            }
+          }
+          const changed = diffs.filter((d) => d.status !== 'unchanged').length;
+          console.log(`${changed} of ${diffs.length} files would change in ${config.outputDir}`);
+        }
+        return;
+      }
+
+      const result = await builder.buildApp(workflowId, config);
+      for (const warning of result.warnings) {
+        console.log(`  warning: ${warning}`);
+      }
+      if (!result.success) {
+        for (const error of result.errors) {
+          console.log(`  error: ${error.message}`);
+        }
+        process.exit(1);
+      }
+
+      console.log(
+        `Built "${result.appInfo!.id}" (${result.metadata.artifactCount} files, ` +
+        `${result.metadata.linesOfCode} lines) in ${result.appInfo!.path}`,
+      );
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+function parseLanguage(language?: string): CodeLanguage | undefined {
+  if (language === undefined) return undefined;
+  if (language !== 'typescript' && language !== 'javascript') {
+    throw new Error(`Unknown language "${language}" (expected typescript or javascript)`);
+  }
+  return language;
+}
+
+function parseFileFormat(format?: string): WorkflowFileFormat | undefined {
+  if (format === undefined) return undefined;
+  if (format !== 'yaml' && format !== 'json') {
+    throw new Error(`Unknown format "${format}" (expected yaml or json)`);
+  }
+  return format;
+}
+
+function formatScheduleEvent(event: ScheduleEvent): string {
+  const parts = [new Date().toISOString(), event.type.padEnd(9)];
+  if (event.workflowName) parts.push(`"${event.workflowName}"`);
+  if (event.scheduledFor) parts.push(`for ${event.scheduledFor.toISOString()}`);
+  if (event.executionId) parts.push(`(${event.executionId})`);
+  if (event.reason) parts.push(`- ${event.reason}`);
+  return parts.join(' ');
+}
+
 program.parse();
@@ -0,0 +1,173 @@
+/**
+ * Tests for App Registry hot reload
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createElement, Fragment } from 'react';
+import { DefaultAppRegistry } from './app-registry.js';
+import { Framework } from './framework.js';
+import { JsonStorage } from '../adapters/json-storage.js';
+import type { App, AppChangeEvent } from '@ports/app.js';
+import type { InputPort, InputEvent } from '@ports/input.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+declare global {
+  // Lifecycle calls made by the test apps
+  var inkhatTestLifecycle: string[];
+}
+
+const lifecycle: string[] = [];
+globalThis.inkhatTestLifecycle = lifecycle;
+
+/**
+ * Input that never sends events
+ */
+class SilentInput implements InputPort {
+  private handlers = new Set<(event: InputEvent) => void>();
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  on(handler: (event: InputEvent) => void): void {
+    this.handlers.add(handler);
+  }
+
+  off(handler: (event: InputEvent) => void): void {
+    this.handlers.delete(handler);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+async function writeApp(appsDir: string, version: string, source?: string): Promise<void> {
+  const appDir = path.join(appsDir, 'hello');
+  await fs.mkdir(appDir, { recursive: true });
+  await fs.writeFile(path.join(appDir, 'package.json'), '{ "type": "module" }\n');
+  await fs.writeFile(
+    path.join(appDir, 'index.js'),
+    source ??
+      `export default {
+  id: 'hello',
+  name: 'Hello',
+  description: 'Test app',
+  version: '${version}',
+  commands: [],
+  initialize: async () => { globalThis.inkhatTestLifecycle.push('initialize ${version}'); },
+  render: () => null,
+  cleanup: async () => { globalThis.inkhatTestLifecycle.push('cleanup ${version}'); },
+};
+`,
+  );
+}
+
+describe('DefaultAppRegistry', () => {
+  let registry: DefaultAppRegistry;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-registry-test-${Date.now()}`);
+    registry = new DefaultAppRegistry();
+    lifecycle.length = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should swap in a reloaded app and keep it when the new code fails to load', async () => {
+    await writeApp(testDir, '1.0.0');
+    await registry.loadFromDirectory(testDir);
+    const first = registry.get('hello')!;
+    expect(first.version).toBe('1.0.0');
+
+    await writeApp(testDir, '1.1.0');
+    const reloaded = await registry.reloadApp(path.join(testDir, 'hello'));
+    expect(reloaded?.type).toBe('reloaded');
+    expect(reloaded?.previous).toBe(first);
+    expect(registry.get('hello')?.version).toBe('1.1.0');
+    expect(registry.list()).toHaveLength(1);
+
+    await writeApp(testDir, '1.2.0', 'export default {');
+    const failed = await registry.reloadApp(path.join(testDir, 'hello'));
+    expect(failed?.type).toBe('failed');
+    expect(registry.get('hello')?.version).toBe('1.1.0');
+
+    await fs.rm(path.join(testDir, 'hello'), { recursive: true });
+    const removed = await registry.reloadApp(path.join(testDir, 'hello'));
+    expect(removed?.type).toBe('removed');
+    expect(registry.get('hello')).toBeUndefined();
+    expect(await registry.reloadApp(path.join(testDir, 'hello'))).toBeNull();
+  });
+
+  it('should not replace an app registered from elsewhere', async () => {
+    await writeApp(testDir, '1.0.0');
+    const builtIn: App = {
+      id: 'hello',
+      name: 'Built-in',
+      description: 'Built-in app',
+      version: '1.0.0',
+      commands: [],
+      initialize: async () => {},
+      render: () => createElement(Fragment),
+      cleanup: async () => {},
+    };
+    registry.register(builtIn);
+
+    const event = await registry.reloadApp(path.join(testDir, 'hello'));
+    expect(event?.type).toBe('failed');
+    expect(event?.error).toBe('App with id "hello" is already registered');
+    expect(registry.get('hello')).toBe(builtIn);
+  });
+
+  it('should load apps added to a watched directory', async () => {
+    let added!: (event: AppChangeEvent) => void;
+    const changed = new Promise<AppChangeEvent>((resolve) => (added = resolve));
+    const watcher = await registry.watchDirectory(testDir, (event) => added(event));
+
+    await writeApp(testDir, '1.0.0');
+    const event = await changed;
+    watcher.close();
+
+    expect(event.type).toBe('added');
+    expect(registry.get('hello')?.version).toBe('1.0.0');
+  });
+});
+
+describe('Framework hot reload', () => {
+  let storage: JsonStorage;
+  let framework: Framework;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `inkhat-reload-test-${Date.now()}`);
+    storage = new JsonStorage({ basePath: path.join(testDir, 'data') });
+    framework = new Framework({ storage, input: new SilentInput() });
+    lifecycle.length = 0;
+  });
+
+  afterEach(async () => {
+    await framework.shutdown();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should relaunch the current app when its files change', async () => {
+    const appsDir = path.join(testDir, 'apps');
+    await writeApp(appsDir, '1.0.0');
+    await framework.watchApps(appsDir);
+    await framework.launchApp('hello');
+
+    const changed = new Promise<AppChangeEvent>((resolve) => framework.on(resolve));
+    await writeApp(appsDir, '2.0.0');
+    const event = await changed;
+
+    expect(event.type).toBe('reloaded');
+    expect(framework.getCurrentApp()).toBe(event.app);
+    expect(framework.getCurrentApp()?.version).toBe('2.0.0');
+    expect(lifecycle).toEqual(['initialize 1.0.0', 'cleanup 1.0.0', 'initialize 2.0.0']);
+  });
+});
@@ -3,13 +3,25 @@
  * Manages registration and lifecycle of productivity apps
  */
 
-import type { App, AppRegistry } from '../ports/app.js';
+import type { App, AppRegistry, AppChangeEvent, AppWatcher } from '../ports/app.js';
 import fs from 'fs/promises';
+import { watch, type FSWatcher } from 'fs';
 import path from 'path';
+import { pathToFileURL } from 'url';
+
+// Quiet period before a changed app is reloaded, so a build writing several
+// files reloads it once
+const RELOAD_DELAY = 100;
+
+// Number of fresh imports so far, which makes each import URL unique
+let imports = 0;
 
 export class DefaultAppRegistry implements AppRegistry {
   private apps: Map<string, App> = new Map();
 
+  // App directory -> id of the app loaded from it
+  private loaded: Map<string, string> = new Map();
+
   register(app: App): void {
     if (this.apps.has(app.id)) {
       throw new Error(`App with id "${app.id}" is already registered`);
@@ -33,9 +45,9 @@ export class DefaultAppRegistry implements AppRegistry {
         if (entry.isDirectory()) {
           const appPath = path.join(dirPath, entry.name, 'index.js');
           try {
-            const module = await import(appPath);
-            const app = module.default as App;
+            const app = await importApp(appPath);
             this.register(app);
+            this.loaded.set(path.join(dirPath, entry.name), app.id);
           } catch (error) {
             console.error(`Failed to load app from ${appPath}:`, error);
           }
@@ -46,11 +58,170 @@ export class DefaultAppRegistry implements AppRegistry {
     }
   }
 
+  async watchDirectory(
+    dirPath: string,
+    onChange: (event: AppChangeEvent) => void | Promise<void>,
+  ): Promise<AppWatcher> {
+    await fs.mkdir(dirPath, { recursive: true });
+
+    const timers = new Map<string, NodeJS.Timeout>();
+    let reloading = Promise.resolve();
+
+    const changed = (name: string) => {
+      const appDir = path.join(dirPath, name);
+      clearTimeout(timers.get(appDir));
+      timers.set(
+        appDir,
+        setTimeout(() => {
+          timers.delete(appDir);
+          // One reload at a time, each handled before the next starts
+          reloading = reloading
+            .then(async () => {
+              const event = await this.reloadApp(appDir);
+              if (event) await onChange(event);
+            })
+            .catch((error) => console.error(`Failed to reload app from ${appDir}:`, error));
+        }, RELOAD_DELAY),
+      );
+    };
+
+    const watchers = await watchApps(dirPath, changed);
+
+    return {
+      close: () => {
+        for (const watcher of watchers) {
+          watcher.close();
+        }
+        for (const timer of timers.values()) {
+          clearTimeout(timer);
+        }
+        timers.clear();
+      },
+    };
+  }
+
+  /**
+   * Import the app in `appDir` again and swap it for the instance loaded from
+   * there before. A module that fails to load leaves the previous instance
+   * registered. Returns null when there was and is no app in the directory.
+   */
+  async reloadApp(appDir: string): Promise<AppChangeEvent | null> {
+    const previousId = this.loaded.get(appDir);
+    const previous = previousId ? this.apps.get(previousId) : undefined;
+    const appPath = path.join(appDir, 'index.js');
+
+    if (!(await fileExists(appPath))) {
+      if (!previousId) return null;
+      this.unregister(previousId);
+      return { type: 'removed', path: appDir, previous };
+    }
+
+    let app: App;
+    try {
+      app = await importApp(appPath, true);
+      if (app.id !== previousId && this.apps.has(app.id)) {
+        throw new Error(`App with id "${app.id}" is already registered`);
+      }
+    } catch (error) {
+      return { type: 'failed', path: appDir, previous, error: (error as Error).message };
+    }
+
+    if (previousId) {
+      this.unregister(previousId);
+    }
+    this.register(app);
+    this.loaded.set(appDir, app.id);
+    return { type: previous ? 'reloaded' : 'added', path: appDir, app, previous };
+  }
+
   unregister(id: string): boolean {
+    for (const [appDir, appId] of this.loaded) {
+      if (appId === id) this.loaded.delete(appDir);
+    }
     return this.apps.delete(id);
   }
 
   clear(): void {
     this.apps.clear();
+    this.loaded.clear();
+  }
+}
+
+/**
+ * Import an app module's default export. With `fresh`, a query string skips
+ * the module cache; modules that index.js itself imports are not reloaded.
+ */
+async function importApp(appPath: string, fresh = false): Promise<App> {
+  const url = pathToFileURL(appPath).href;
+  const module = await import(fresh ? `${url}?reload=${++imports}` : url);
+  const app = module.default as App | undefined;
+  if (!app || typeof app.id !== 'string' || typeof app.render !== 'function') {
+    throw new Error(`${appPath} does not export an app as default`);
+  }
+  return app;
+}
+
+/**
+ * Call `onChange` with the name of the app directory whenever a file in it
+ * changes. Where recursive watching is unavailable (Linux before Node 20),
+ * the apps directory and each app directory are watched on their own.
+ */
+async function watchApps(dirPath: string, onChange: (name: string) => void): Promise<Array<{ close(): void }>> {
+  try {
+    return [
+      watch(dirPath, { recursive: true }, (_event, filename) => {
+        const name = filename?.toString().split(path.sep)[0];
+        if (name) onChange(name);
+      }),
+    ];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+  }
+
+  const appWatchers = new Map<string, FSWatcher>();
+  const watchApp = (name: string) => {
+    // A directory created again needs a new watcher
+    appWatchers.get(name)?.close();
+    appWatchers.delete(name);
+    try {
+      const watcher = watch(path.join(dirPath, name), () => onChange(name));
+      watcher.on('error', () => watcher.close());
+      appWatchers.set(name, watcher);
+    } catch {
+      // Not a directory, or already gone
+    }
+  };
+
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  for (const entry of entries.filter((e) => e.isDirectory())) {
+    watchApp(entry.name);
+  }
+
+  // Apps added or removed
+  const watcher = watch(dirPath, (_event, filename) => {
+    const name = filename?.toString();
+    if (!name) return;
+    watchApp(name);
+    onChange(name);
+  });
+
+  return [
+    watcher,
+    {
+      close: () => {
+        for (const appWatcher of appWatchers.values()) {
+          appWatcher.close();
+        }
+      },
+    },
+  ];
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
   }
 }
@@ -3,7 +3,7 @@
  * Main orchestrator for the productivity app framework
  */
 
-import type { App, AppContext, AppRegistry } from '../ports/app.js';
+import type { App, AppContext, AppRegistry, AppChangeEvent, AppWatcher } from '../ports/app.js';
 import type { StoragePort } from '../ports/storage.js';
 import type { InputPort } from '../ports/input.js';
 import { DefaultAppRegistry } from './app-registry.js';
@@ -22,6 +22,8 @@ export class Framework {
   private config: Record<string, any>;
   private currentApp: App | null = null;
   private context: AppContext;
+  private watcher: AppWatcher | null = null;
+  private handlers: Array<(event: AppChangeEvent) => void> = [];
 
   constructor(config: FrameworkConfig) {
     this.storage = config.storage;
@@ -65,6 +67,30 @@ export class Framework {
     return this.currentApp;
   }
 
+  /**
+   * Load the apps in a directory and reload them whenever their files change.
+   * When the current app is reloaded, the old instance is cleaned up and the
+   * new one launched in its place.
+   */
+  async watchApps(dirPath: string): Promise<void> {
+    await this.registry.loadFromDirectory(dirPath);
+
+    this.watcher?.close();
+    this.watcher = await this.registry.watchDirectory(dirPath, (event) => this.applyAppChange(event));
+  }
+
+  /**
+   * Subscribe to app changes in the watched directory (after the current app
+   * has been relaunched or closed)
+   */
+  on(handler: (event: AppChangeEvent) => void): void {
+    this.handlers.push(handler);
+  }
+
+  off(handler: (event: AppChangeEvent) => void): void {
+    this.handlers = this.handlers.filter((h) => h !== handler);
+  }
+
   async executeCommand(appId: string, commandName: string, args: string[]): Promise<void> {
     const app = this.registry.get(appId);
     if (!app) {
@@ -83,6 +109,9 @@ export class Framework {
   }
 
   async shutdown(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+
     if (this.currentApp) {
       await this.currentApp.cleanup();
       this.currentApp = null;
@@ -91,4 +120,22 @@ export class Framework {
     await this.input.stop();
     await this.storage.close();
   }
+
+  private async applyAppChange(event: AppChangeEvent): Promise<void> {
+    try {
+      if (event.type !== 'failed' && event.previous && event.previous === this.currentApp) {
+        await this.currentApp.cleanup();
+        this.currentApp = null;
+
+        if (event.app) {
+          await event.app.initialize(this.context);
+          this.currentApp = event.app;
+        }
+      }
+    } finally {
+      for (const handler of this.handlers) {
+        handler(event);
+      }
+    }
+  }
 }
@@ -7,6 +7,7 @@
 
 import type { Message, ToolDefinition, ToolCall, LLMProvider } from './llm.js';
 import type { WorkflowDefinition, WorkflowExecutionContext } from './workflow.js';
+import type { AgentMemoryConfig } from './memory.js';
 
 export type AgentType =
   | 'conversational' // Chat-based interaction
@@ -14,7 +15,7 @@ export type AgentType =
   | 'workflow'       // Multi-step workflow execution
   | 'reactive';      // Event-driven agent
 
-export type AgentState = 'idle' | 'thinking' | 'acting' | 'waiting' | 'completed' | 'failed';
+export type AgentState = 'idle' | 'thinking' | 'acting' | 'waiting' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Agent definition
@@ -42,12 +43,8 @@ export interface Agent {
   // Workflow (for workflow agents)
   workflowId?: string;
 
-  // Memory configuration
-  memory?: {
-    type: 'buffer' | 'summary' | 'vector';
-    maxMessages?: number;
-    summaryPrompt?: string;
-  };
+  // Memory configuration; without it, executions don't remember each other
+  memory?: AgentMemoryConfig;
 
   // Constraints
   constraints?: {
@@ -119,6 +116,9 @@ export interface AgentExecutionContext {
 
   // Callbacks
   callbacks?: AgentCallbacks;
+
+  // Aborted when the execution is stopped; long-running tools should follow it
+  signal?: AbortSignal;
 }
 
 /**
@@ -142,6 +142,7 @@ export interface AgentExecutionRequest {
   context?: Record<string, any>; // Initial context/memory
   stream?: boolean;
   callbacks?: AgentCallbacks;
+  signal?: AbortSignal; // Stops the execution when aborted
 }
 
 /**
@@ -287,6 +288,45 @@ export interface AgentOrchestration {
   }>;
 }
 
+/**
+ * Orchestration run request
+ */
+export interface OrchestrationRequest {
+  input: string;
+  context?: Record<string, any>; // Variables for every agent and expression
+  maxConcurrency?: number; // Agents or map items running at once
+  maxIterations?: number; // For loop patterns
+  signal?: AbortSignal; // Stops the agents running and those still to come
+}
+
+/**
+ * What one agent of an orchestration did
+ */
+export interface OrchestrationAgentResult {
+  agentId: string;
+  status: 'completed' | 'failed' | 'skipped' | 'cancelled';
+  output?: any; // Parsed output; one per item for map patterns
+  runs: AgentExecutionResult[]; // One per item or loop iteration
+  metrics: AgentExecutionContext['metrics']; // Summed over the runs
+  error?: string;
+}
+
+/**
+ * Orchestration run result
+ */
+export interface OrchestrationResult {
+  orchestrationId: string;
+  success: boolean;
+  output: string; // Output of the last agent that completed
+  agents: OrchestrationAgentResult[]; // In the order of AgentOrchestration.agents
+  metrics: AgentExecutionContext['metrics'] & { runs: number };
+  iterations?: number; // For loop patterns
+  error?: {
+    message: string;
+    agentId?: string;
+  };
+}
+
 /**
  * Agent template for common patterns
  */
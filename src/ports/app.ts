@@ -61,6 +61,24 @@ export interface App {
   cleanup(): Promise<void>;
 }
 
+/**
+ * Change to an app in a watched directory
+ */
+export interface AppChangeEvent {
+  type: 'added' | 'reloaded' | 'removed' | 'failed';
+  path: string; // The app's directory
+  app?: App; // Newly loaded instance (added, reloaded)
+  previous?: App; // Instance it replaced or that was removed (reloaded, removed)
+  error?: string; // Why loading failed; the previous instance stays registered
+}
+
+/**
+ * Handle for a directory being watched
+ */
+export interface AppWatcher {
+  close(): void;
+}
+
 export interface AppRegistry {
   /**
    * Register an app
@@ -77,8 +95,20 @@ export interface AppRegistry {
    */
   list(): App[];
 
+  /**
+   * Remove an app; returns whether it was registered
+   */
+  unregister(id: string): boolean;
+
   /**
    * Load apps from directory
    */
   loadFromDirectory(path: string): Promise<void>;
+
+  /**
+   * Reload apps in a directory (each in its own subdirectory) whenever their
+   * files change, registering new ones and unregistering deleted ones.
+   * Changes are reported one at a time; a returned promise is awaited.
+   */
+  watchDirectory(path: string, onChange: (event: AppChangeEvent) => void | Promise<void>): Promise<AppWatcher>;
 }
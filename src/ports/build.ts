@@ -6,6 +6,13 @@
 
 import type { WorkflowDefinition } from './workflow.js';
 import type { App } from './app.js';
+import {
+  renderTemplate,
+  validateTemplate,
+  extractVariables,
+  type TemplateOptions,
+  type TemplateValidation,
+} from './template.js';
 
 export type CodeLanguage = 'typescript' | 'javascript';
 export type BuildTarget = 'app' | 'component' | 'library';
@@ -187,6 +194,11 @@ export interface CodeGenerator {
    */
   generateTypes(workflow: WorkflowDefinition): string;
 
+  /**
+   * Generate test specs for the generated app
+   */
+  generateTests(workflow: WorkflowDefinition): string;
+
   /**
    * Format generated code
    */
@@ -194,50 +206,29 @@ export interface CodeGenerator {
 }
 
 /**
- * Template renderer utility
+ * Template renderer utility, backed by the shared template engine
+ * (see template.ts for the syntax)
  */
 export class TemplateRenderer {
   /**
    * Render template with data
    */
-  static render(template: string, data: Record<string, any>): string {
-    let result = template;
-
-    for (const [key, value] of Object.entries(data)) {
-      const placeholder = new RegExp(`{{${key}}}`, 'g');
-      result = result.replace(placeholder, String(value));
-    }
-
-    return result;
+  static render(template: string, data: Record<string, any>, options?: TemplateOptions): string {
+    return renderTemplate(template, data, options);
   }
 
   /**
-   * Extract placeholders from template
+   * Extract variable paths from template
    */
   static extractPlaceholders(template: string): string[] {
-    const regex = /{{(\w+)}}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = regex.exec(template)) !== null) {
-      if (!placeholders.includes(match[1])) {
-        placeholders.push(match[1]);
-      }
-    }
-
-    return placeholders;
+    return extractVariables(template);
   }
 
   /**
-   * Validate template has all required data
+   * Validate template has all required data, reporting where each missing
+   * variable is used
    */
-  static validate(template: string, data: Record<string, any>): { valid: boolean; missing: string[] } {
-    const placeholders = TemplateRenderer.extractPlaceholders(template);
-    const missing = placeholders.filter((p) => !(p in data));
-
-    return {
-      valid: missing.length === 0,
-      missing,
-    };
+  static validate(template: string, data: Record<string, any>, options?: TemplateOptions): TemplateValidation {
+    return validateTemplate(template, data, options);
   }
 }
@@ -5,6 +5,8 @@
  * Enables building provider-agnostic AI agents.
  */
 
+import { renderTemplate, type TemplateOptions } from './template.js';
+
 export type LLMProvider = 'ollama' | 'openai' | 'anthropic' | 'openrouter';
 
 export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
@@ -69,6 +71,8 @@ export interface CompletionRequest {
   topP?: number;
   topK?: number;
   stream?: boolean;
+  signal?: AbortSignal; // Aborts the request, including a stream being read
+  maxRetries?: number; // Retries the provider's own client may make (default: its configured maxRetries)
 }
 
 /**
@@ -87,12 +91,35 @@ export interface CompletionResponse {
   model: string;
 }
 
+/**
+ * Embedding request: one vector is returned per input text, in order
+ */
+export interface EmbeddingRequest {
+  input: string[];
+  model?: string; // Embedding model, not a chat model
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+}
+
+/**
+ * Part of a tool call in a stream. Chunks about the same call share its id;
+ * `argumentsDelta` is the next piece of its JSON arguments, and `arguments`
+ * is set once they are complete.
+ */
+export interface ToolCallDelta extends Partial<ToolCall> {
+  argumentsDelta?: string;
+}
+
 /**
  * Streaming chunk
  */
 export interface StreamChunk {
   delta: string;
-  toolCalls?: Partial<ToolCall>[];
+  toolCalls?: ToolCallDelta[];
   finishReason?: CompletionResponse['finishReason'];
 }
 
@@ -140,6 +167,11 @@ export interface LLMPort {
    */
   stream(request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse>;
 
+  /**
+   * Embed texts; only providers serving embedding models implement it
+   */
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+
   /**
    * List available models
    */
@@ -195,6 +227,11 @@ export interface LLMRouter {
    */
   route(providerName: string, request: CompletionRequest): Promise<CompletionResponse>;
 
+  /**
+   * Route a streaming request to a provider
+   */
+  routeStream(providerName: string, request: CompletionRequest): AsyncGenerator<StreamChunk, CompletionResponse>;
+
   /**
    * Fallback routing (try multiple providers)
    */
@@ -212,7 +249,8 @@ export interface PromptTemplate {
   description: string;
   template: string;
   variables: string[]; // Variable names in template
-  systemPrompt?: string;
+  systemPrompt?: string; // Rendered with the same variables
+  partials?: Record<string, string>; // Templates available as {{> name}}
   examples?: Array<{ user: string; assistant: string }>;
 }
 
@@ -259,11 +297,16 @@ export class PromptBuilder {
     };
   }
 
-  static fromTemplate(template: PromptTemplate, variables: Record<string, string>): PromptBuilder {
+  static fromTemplate(
+    template: PromptTemplate,
+    variables: Record<string, any>,
+    options: TemplateOptions = {},
+  ): PromptBuilder {
     const builder = new PromptBuilder();
+    const renderOptions = { ...options, partials: { ...template.partials, ...options.partials } };
 
     if (template.systemPrompt) {
-      builder.system(template.systemPrompt);
+      builder.system(renderTemplate(template.systemPrompt, variables, renderOptions));
     }
 
     // Add examples
@@ -275,11 +318,7 @@ export class PromptBuilder {
     }
 
     // Render template with variables
-    let rendered = template.template;
-    for (const [key, value] of Object.entries(variables)) {
-      rendered = rendered.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    }
-
+    const rendered = renderTemplate(template.template, variables, renderOptions);
     builder.user(rendered);
 
     return builder;
@@ -0,0 +1,87 @@
+/**
+ * Agent Memory Port
+ *
+ * Decides which parts of a conversation go back into an agent's prompt:
+ * - buffer: the last messages
+ * - summary: a running summary of older messages, plus the last messages
+ * - vector: the earlier messages most similar to the new one, plus the last
+ *   messages
+ */
+
+import type { Message } from './llm.js';
+
+export type MemoryType = 'buffer' | 'summary' | 'vector';
+
+/**
+ * Memory configuration, as in Agent.memory
+ */
+export interface AgentMemoryConfig {
+  type: MemoryType;
+  maxMessages?: number; // Messages kept word for word (default 10)
+
+  // summary
+  summaryPrompt?: string; // Instructions for writing the summary
+  summarizeEvery?: number; // Messages past maxMessages before they are summarized (default maxMessages / 2)
+
+  // vector
+  topK?: number; // Earlier messages recalled (default 4)
+  minScore?: number; // Cosine similarity an earlier message needs to be recalled (default 0.2)
+  embeddingModel?: string; // Model embedding messages, when embedded through LLMPort
+}
+
+/**
+ * Summary of the messages no longer kept word for word
+ */
+export interface MemorySummary {
+  content: string;
+  messageCount: number; // Messages summarized so far
+  updatedAt: Date;
+}
+
+/**
+ * Memory of one conversation, kept through StoragePort
+ */
+export interface AgentMemory {
+  readonly type: MemoryType;
+
+  /**
+   * Load what was remembered before
+   */
+  load(): Promise<void>;
+
+  /**
+   * Remember messages of the conversation, oldest first
+   */
+  add(messages: Message[]): Promise<void>;
+
+  /**
+   * Start over from a conversation kept elsewhere, oldest message first.
+   * `summary` covers its first `summary.messageCount` messages; memory
+   * without a summary remembers all of them instead.
+   */
+  seed(messages: Message[], summary?: MemorySummary): Promise<void>;
+
+  /**
+   * Messages to put before the next message in the prompt. `query` is the
+   * next message, which vector memory recalls similar messages for.
+   */
+  getContext(query?: string): Promise<Message[]>;
+
+  /**
+   * The running summary, for summary memory
+   */
+  getSummary(): MemorySummary | null;
+
+  /**
+   * Forget everything, including what was stored
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Turns texts into vectors whose cosine similarity reflects how related the
+ * texts are
+ */
+export interface Embedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for the Template Engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, validateTemplate, extractVariables, TemplateError } from './template.js';
+import { TemplateRenderer } from './build.js';
+import { PromptBuilder } from './llm.js';
+
+describe('Template Engine', () => {
+  it('should render dotted paths, conditionals and loops', () => {
+    const template = [
+      'Hi {{user.name}}!',
+      '{{#if user.admin}}',
+      'You are an admin.',
+      '{{else}}',
+      'You are a guest.',
+      '{{/if}}',
+      '{{#each tasks}}',
+      '{{@index}}. {{title}}{{#if done}} (done){{/if}} for {{user.name}}',
+      '{{else}}',
+      'Nothing to do.',
+      '{{/each}}',
+      '',
+    ].join('\n');
+
+    const data = { user: { name: 'Sam', admin: false }, tasks: [{ title: 'Plan', done: true }, { title: 'Ship' }] };
+    expect(renderTemplate(template, data)).toBe(
+      'Hi Sam!\nYou are a guest.\n0. Plan (done) for Sam\n1. Ship for Sam\n',
+    );
+    expect(renderTemplate(template, { user: { name: 'Ada', admin: true }, tasks: [] })).toBe(
+      'Hi Ada!\nYou are an admin.\nNothing to do.\n',
+    );
+  });
+
+  it('should iterate objects and expose loop variables', () => {
+    const template = '{{#each env}}{{@key}}={{this}}{{#unless @last}}, {{/unless}}{{/each}}';
+    expect(renderTemplate(template, { env: { A: 1, B: 'two' } })).toBe('A=1, B=two');
+  });
+
+  it('should escape {{value}} but not {{{value}}}, and allow literal braces', () => {
+    const escape = (value: string) => value.replace(/'/g, "\\'");
+    const data = { name: "it's", code: "a === 'b'" };
+
+    expect(renderTemplate("'{{name}}' {{{code}}} {{& code}}", data, { escape })).toBe("'it\\'s' a === 'b' a === 'b'");
+    expect(renderTemplate('\\{{name}} {{! ignored }}{{name}}', data)).toBe("{{name}} it's");
+  });
+
+  it('should render partials with the current scope and indentation', () => {
+    const partials = { item: '- {{title}}\n' };
+    const template = 'List:\n{{#each items}}\n  {{> item}}\n{{/each}}\n';
+
+    expect(renderTemplate(template, { items: [{ title: 'a' }, { title: 'b' }] }, { partials })).toBe(
+      'List:\n  - a\n  - b\n',
+    );
+    expect(() => renderTemplate('{{> missing}}', {})).toThrow('Unknown partial "missing" at line 1, column 1');
+    expect(() => renderTemplate('{{> self}}', {}, { partials: { self: '{{> self}}' } })).toThrow('nested too deeply');
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => renderTemplate('a\n  {{#if x}}b', {})).toThrow(new TemplateError('Unclosed {{#if}}', 2, 3));
+    expect(() => renderTemplate('{{#if x}}{{/each}}', {})).toThrow('Expected {{/if}} but found {{/each}}');
+    expect(() => renderTemplate('{{#with x}}{{/with}}', {})).toThrow('Unknown block "#with"');
+    expect(() => renderTemplate('{{name', {})).toThrow('Unclosed tag at line 1, column 1');
+  });
+
+  it('should validate missing nested variables with line and column', () => {
+    const template = 'Dear {{user.name}},\n{{#each orders}}\n  {{id}}: {{total.amount}}\n{{/each}}\n{{#if footer}}{{footer.text}}{{/if}}';
+    const result = validateTemplate(template, { user: {}, orders: [{ id: 1, total: {} }, { id: 2, total: {} }] });
+
+    expect(result.valid).toBe(false);
+    expect(result.missing).toEqual(['user.name', 'total.amount']);
+    expect(result.issues).toEqual([
+      { message: 'Missing variable "user.name"', line: 1, column: 6, path: 'user.name' },
+      { message: 'Missing variable "total.amount"', line: 3, column: 11, path: 'total.amount' },
+    ]);
+
+    expect(validateTemplate('{{#if a}}', {}).issues).toEqual([{ message: 'Unclosed {{#if}}', line: 1, column: 1 }]);
+  });
+
+  it('should list the variables a template uses', () => {
+    expect(extractVariables('{{a}} {{#each list}}{{this}}{{b.c}}{{@index}}{{/each}} {{{a}}}')).toEqual(['a', 'list', 'b.c']);
+  });
+});
+
+describe('Template users', () => {
+  it('should back TemplateRenderer', () => {
+    expect(TemplateRenderer.render('{{#if x}}{{x.y}}{{/if}}', { x: { y: 1 } })).toBe('1');
+    expect(TemplateRenderer.validate('{{x.y}}', { x: {} }).missing).toEqual(['x.y']);
+  });
+
+  it('should back PromptBuilder.fromTemplate', () => {
+    const { messages } = PromptBuilder.fromTemplate(
+      {
+        name: 'summary',
+        description: 'Summarize notes',
+        template: 'Summarize:\n{{#each notes}}\n{{> note}}\n{{/each}}',
+        variables: ['notes', 'tone'],
+        systemPrompt: 'Be {{tone}}.',
+        partials: { note: '* {{text}}\n' },
+      },
+      { tone: 'brief', notes: [{ text: 'one' }, { text: 'two' }] },
+    ).build();
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Summarize:\n* one\n* two\n' },
+    ]);
+  });
+});
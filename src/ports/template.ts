@@ -0,0 +1,464 @@
+/**
+ * Template Engine
+ *
+ * The template language shared by code templates (TemplateRenderer) and
+ * prompt templates (PromptBuilder):
+ *
+ *   {{user.name}}                 value at a dotted path, passed through `escape`
+ *   {{{code}}} or {{& code}}      value inserted as is
+ *   {{#if done}}..{{else}}..{{/if}}, {{#unless done}}..{{/unless}}
+ *   {{#each items}}{{this}} {{@index}}{{else}}none{{/each}}
+ *                                 also @key, @first and @last; objects iterate their keys
+ *   {{> partial}}                 another template from `partials`, rendered in place
+ *   {{! comment }}                dropped
+ *   \{{                           a literal {{
+ *
+ * Inside blocks, names are looked up in the current item first and then in
+ * the enclosing scopes. Block tags on a line of their own leave no blank
+ * line behind. Missing values render as empty strings; `validateTemplate`
+ * reports them with their line and column.
+ */
+
+const MAX_PARTIAL_DEPTH = 16;
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+    readonly column: number,
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface TemplateOptions {
+  partials?: Record<string, string>;
+  escape?: (value: string) => string; // Applied to {{value}} output, not to {{{value}}}
+}
+
+export interface TemplateIssue {
+  message: string;
+  line: number;
+  column: number;
+  path?: string; // Variable path, for missing variables
+}
+
+export interface TemplateValidation {
+  valid: boolean;
+  missing: string[]; // Paths of missing variables, in order of first use
+  issues: TemplateIssue[];
+}
+
+// Syntax tree
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean; position: Position }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; position: Position }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[]; position: Position }
+  | { type: 'partial'; name: string; indent: string; position: Position };
+
+// Tokenizer
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean; position: Position }
+  | { type: 'open'; name: string; path: string; position: Position }
+  | { type: 'close'; name: string; position: Position }
+  | { type: 'else'; position: Position }
+  | { type: 'comment'; position: Position }
+  | { type: 'partial'; name: string; indent: string; position: Position };
+
+const BLOCKS = ['if', 'unless', 'each'];
+const PATH = /^(?:this|@(?:index|key|first|last)|(?:this\.)?[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*)$/;
+
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  let i = 0;
+
+  const positionAt = (index: number): Position => {
+    const before = template.slice(0, index).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  };
+
+  while (i < template.length) {
+    if (template.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+    if (!template.startsWith('{{', i)) {
+      text += template[i++];
+      continue;
+    }
+
+    const position = positionAt(i);
+    const triple = template.startsWith('{{{', i);
+    const closer = triple ? '}}}' : '}}';
+    const end = template.indexOf(closer, i + closer.length);
+    if (end === -1) {
+      throw new TemplateError('Unclosed tag', position.line, position.column);
+    }
+
+    const content = template.slice(i + closer.length, end).trim();
+    i = end + closer.length;
+
+    if (text) {
+      tokens.push({ type: 'text', value: text });
+      text = '';
+    }
+    tokens.push(classify(content, triple, position));
+  }
+
+  if (text) {
+    tokens.push({ type: 'text', value: text });
+  }
+  return stripStandalone(tokens);
+}
+
+function classify(content: string, triple: boolean, position: Position): Token {
+  const fail = (message: string): never => {
+    throw new TemplateError(message, position.line, position.column);
+  };
+  const checkPath = (path: string): string => (PATH.test(path) ? path : fail(`Invalid variable "${path}"`));
+
+  if (triple) {
+    return { type: 'variable', path: checkPath(content), raw: true, position };
+  }
+
+  switch (content[0]) {
+    case '!':
+      return { type: 'comment', position };
+    case '&':
+      return { type: 'variable', path: checkPath(content.slice(1).trim()), raw: true, position };
+    case '>':
+      return { type: 'partial', name: content.slice(1).trim() || fail('Missing partial name'), indent: '', position };
+    case '#': {
+      const [name, path, ...rest] = content.slice(1).trim().split(/\s+/);
+      if (!BLOCKS.includes(name)) fail(`Unknown block "#${name}"`);
+      if (!path || rest.length > 0) fail(`{{#${name}}} takes one variable`);
+      return { type: 'open', name, path: checkPath(path), position };
+    }
+    case '/':
+      return { type: 'close', name: content.slice(1).trim(), position };
+  }
+
+  if (content === 'else') {
+    return { type: 'else', position };
+  }
+  return { type: 'variable', path: checkPath(content), raw: false, position };
+}
+
+/**
+ * Remove the line of a block tag, comment or partial that stands alone on it,
+ * so templates can lay out blocks on their own lines. Standalone partials
+ * are indented like their tag.
+ */
+function stripStandalone(tokens: Token[]): Token[] {
+  const textAt = (index: number): string | null => {
+    const token = tokens[index];
+    if (token === undefined) return '';
+    return token.type === 'text' ? token.value : null;
+  };
+
+  // Decide on the original text first; stripping one tag's line changes its neighbours
+  const standalone = tokens.map((token, i) => {
+    if (token.type === 'text' || token.type === 'variable') return false;
+    const before = textAt(i - 1);
+    const after = textAt(i + 1);
+    if (before === null || after === null) return false;
+
+    const startsLine = /\n[ \t]*$/.test(before) || (i <= 1 && /^[ \t]*$/.test(before));
+    const endsLine = /^[ \t]*\r?\n/.test(after) || (i >= tokens.length - 2 && /^[ \t]*$/.test(after));
+    return startsLine && endsLine;
+  });
+
+  tokens.forEach((token, i) => {
+    if (!standalone[i]) return;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (previous?.type === 'text') {
+      const indent = /[ \t]*$/.exec(previous.value)![0];
+      if (token.type === 'partial') token.indent = indent;
+      previous.value = previous.value.slice(0, previous.value.length - indent.length);
+    }
+    if (next?.type === 'text') {
+      next.value = next.value.replace(/^[ \t]*\r?\n?/, '');
+    }
+  });
+
+  return tokens.filter((t) => t.type !== 'comment' && (t.type !== 'text' || t.value !== ''));
+}
+
+// Parser
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ token: Extract<Token, { type: 'open' }>; node: TemplateNode; inElse: boolean }> = [];
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === 'if') return top.inElse ? top.node.otherwise : top.node.then;
+    if (top.node.type === 'each') return top.inElse ? top.node.otherwise : top.node.body;
+    return root;
+  };
+
+  for (const token of tokenize(template)) {
+    switch (token.type) {
+      case 'text':
+        target().push({ type: 'text', value: token.value });
+        break;
+      case 'variable':
+        target().push(token);
+        break;
+      case 'partial':
+        target().push({ type: 'partial', name: token.name, indent: token.indent, position: token.position });
+        break;
+      case 'open': {
+        const node: TemplateNode =
+          token.name === 'each'
+            ? { type: 'each', path: token.path, body: [], otherwise: [], position: token.position }
+            : { type: 'if', path: token.path, negate: token.name === 'unless', then: [], otherwise: [], position: token.position };
+        target().push(node);
+        stack.push({ token, node, inElse: false });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          throw new TemplateError('Unexpected {{else}}', token.position.line, token.position.column);
+        }
+        top.inElse = true;
+        break;
+      }
+      case 'close': {
+        const top = stack.pop();
+        if (!top) {
+          throw new TemplateError(`Unexpected {{/${token.name}}}`, token.position.line, token.position.column);
+        }
+        if (top.token.name !== token.name) {
+          throw new TemplateError(
+            `Expected {{/${top.token.name}}} but found {{/${token.name}}}`,
+            token.position.line,
+            token.position.column,
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    const { name, position } = unclosed.token;
+    throw new TemplateError(`Unclosed {{#${name}}}`, position.line, position.column);
+  }
+  return root;
+}
+
+// Rendering
+
+interface Scope {
+  data: any;
+  vars?: { index: number; key: string | number; first: boolean; last: boolean };
+}
+
+interface RenderState {
+  options: TemplateOptions;
+  issues?: TemplateIssue[]; // Collected instead of rendering output when validating
+  partialDepth: number;
+}
+
+export function renderTemplate(template: string, data: Record<string, any>, options: TemplateOptions = {}): string {
+  return renderNodes(parseTemplate(template), [{ data }], { options, partialDepth: 0 });
+}
+
+/**
+ * Check a template against data: syntax errors, missing variables and
+ * missing partials, each with where it occurs. Blocks are followed the way
+ * rendering would follow them, so variables in a branch that is not taken
+ * are not required.
+ */
+export function validateTemplate(
+  template: string,
+  data: Record<string, any>,
+  options: TemplateOptions = {},
+): TemplateValidation {
+  const issues: TemplateIssue[] = [];
+
+  try {
+    renderNodes(parseTemplate(template), [{ data }], { options, issues, partialDepth: 0 });
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    issues.push({ message: error.message.replace(/ at line \d+, column \d+$/, ''), line: error.line, column: error.column });
+  }
+
+  const seen = new Set<string>();
+  const unique = issues.filter((issue) => {
+    const key = `${issue.line}:${issue.column}:${issue.message}`;
+    return seen.has(key) ? false : (seen.add(key), true);
+  });
+  const missing = Array.from(new Set(unique.filter((i) => i.path).map((i) => i.path!)));
+
+  return { valid: unique.length === 0, missing, issues: unique };
+}
+
+/**
+ * Variable paths a template refers to, in order of first use
+ */
+export function extractVariables(template: string): string[] {
+  const paths: string[] = [];
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'variable' || node.type === 'if' || node.type === 'each') {
+        if (!node.path.startsWith('@') && node.path !== 'this' && !paths.includes(node.path)) {
+          paths.push(node.path);
+        }
+      }
+      if (node.type === 'if') {
+        visit(node.then);
+        visit(node.otherwise);
+      } else if (node.type === 'each') {
+        visit(node.body);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(template));
+  return paths;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], state: RenderState): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'variable': {
+        const { found, value } = lookup(node.path, scopes);
+        if (!found) {
+          state.issues?.push({ message: `Missing variable "${node.path}"`, ...node.position, path: node.path });
+          break;
+        }
+        const text = stringify(value);
+        output += node.raw || !state.options.escape ? text : state.options.escape(text);
+        break;
+      }
+
+      case 'if': {
+        const passed = isTruthy(lookup(node.path, scopes).value) !== node.negate;
+        output += renderNodes(passed ? node.then : node.otherwise, scopes, state);
+        break;
+      }
+
+      case 'each': {
+        const { value } = lookup(node.path, scopes);
+        const entries: Array<[string | number, any]> = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : value && typeof value === 'object'
+            ? Object.entries(value)
+            : [];
+
+        if (entries.length === 0) {
+          output += renderNodes(node.otherwise, scopes, state);
+          break;
+        }
+        entries.forEach(([key, item], index) => {
+          const vars = { index, key, first: index === 0, last: index === entries.length - 1 };
+          output += renderNodes(node.body, [...scopes, { data: item, vars }], state);
+        });
+        break;
+      }
+
+      case 'partial': {
+        const partial = state.options.partials?.[node.name];
+        if (partial === undefined) {
+          throw new TemplateError(`Unknown partial "${node.name}"`, node.position.line, node.position.column);
+        }
+        if (state.partialDepth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Partials nested too deeply at "${node.name}"`, node.position.line, node.position.column);
+        }
+
+        let nodes: TemplateNode[];
+        try {
+          nodes = parseTemplate(partial);
+        } catch (error) {
+          if (!(error instanceof TemplateError)) throw error;
+          throw new TemplateError(`In partial "${node.name}": ${error.message}`, node.position.line, node.position.column);
+        }
+
+        // Problems inside a partial are reported at the tag that includes it
+        const issues: TemplateIssue[] | undefined = state.issues ? [] : undefined;
+        const rendered = renderNodes(nodes, scopes, { ...state, issues, partialDepth: state.partialDepth + 1 });
+        for (const issue of issues ?? []) {
+          state.issues!.push({ ...issue, message: `${issue.message} in partial "${node.name}"`, ...node.position });
+        }
+        output += node.indent ? rendered.replace(/^(?=.)/gm, node.indent) : rendered;
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a path against the innermost scope that has its first segment
+ */
+function lookup(path: string, scopes: Scope[]): { found: boolean; value: any } {
+  const innermost = scopes[scopes.length - 1];
+
+  if (path.startsWith('@')) {
+    const vars = [...scopes].reverse().find((s) => s.vars)?.vars;
+    const value = vars?.[path.slice(1) as keyof typeof vars];
+    return { found: value !== undefined, value };
+  }
+  if (path === 'this') {
+    return { found: innermost.data !== undefined, value: innermost.data };
+  }
+  if (path.startsWith('this.')) {
+    return resolve(innermost.data, path.slice(5).split('.'));
+  }
+
+  const segments = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const data = scopes[i].data;
+    if (data !== null && typeof data === 'object' && segments[0] in data) {
+      return resolve(data, segments);
+    }
+  }
+  return { found: false, value: undefined };
+}
+
+function resolve(data: any, segments: string[]): { found: boolean; value: any } {
+  let value = data;
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object' || !(segment in value)) {
+      return { found: false, value: undefined };
+    }
+    value = value[segment];
+  }
+  return { found: value !== undefined, value };
+}
+
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -43,6 +43,13 @@ export interface WorkflowComponent {
   name: string;
   description?: string;
 
+  // Name of the ComponentTemplate this component was created from
+  // (falls back to `name` when omitted)
+  template?: string;
+
+  // Overrides the template's `deterministic` flag for replays
+  deterministic?: boolean;
+
   // Component-specific configuration
   config: Record<string, any>;
 
@@ -116,7 +123,20 @@ export interface WorkflowExecutionContext {
   workflowId: string;
   executionId: string;
   startTime: Date;
-  state: 'running' | 'paused' | 'completed' | 'failed';
+  state: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+  // Inputs the execution was started with (kept so it can be resumed)
+  inputs?: Record<string, any>;
+
+  // Execution this one replays, if it is a replay
+  replayOf?: string;
+
+  // Set when run as a Sub-Workflow component of another execution
+  parentExecutionId?: string;
+  depth?: number; // Sub-workflow nesting depth (0 or unset for top-level runs)
+
+  // Executions started by its Sub-Workflow components, recorded as they start
+  childExecutionIds?: string[];
 
   // Component execution states
   componentStates: Map<string, ComponentExecutionState>;
@@ -124,6 +144,12 @@ export interface WorkflowExecutionContext {
   // Data flow between components
   dataFlow: Map<string, any>; // componentId -> output data
 
+  // Value passed to a Return component, if one ran
+  result?: any;
+
+  // Error that stopped the execution, if any
+  error?: string;
+
   // Execution metrics
   metrics: {
     componentExecutions: number;
@@ -143,6 +169,23 @@ export interface ComponentExecutionState {
   outputData?: any;
 }
 
+/**
+ * Result of validating a workflow
+ */
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings do not make a workflow invalid)
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Options for replaying a past execution
+ */
+export interface ReplayOptions {
+  // Components to execute again even if they are deterministic
+  rerun?: string[];
+}
+
 /**
  * Component template for reusable building blocks
  */
@@ -158,12 +201,19 @@ export interface ComponentTemplate {
   inputs: Omit<ComponentPort, 'id'>[];
   outputs: Omit<ComponentPort, 'id'>[];
 
+  // Same inputs always give the same outputs, so replays can reuse recorded outputs
+  deterministic?: boolean;
+
   // Validation schema (optional)
   schema?: any; // Could use Zod schema
 
-  // Code generation template
+  // Code generation template. The implementation runs with each input port
+  // as a variable and `context` (storage, input, config, llm, prompt, display,
+  // result); variables named after output ports, or keys set on `outputs`,
+  // become the component's outputs. Placeholders are filled from config:
+  // {{key}} escaped for a string literal, {{{key}}} inserted as code.
   codeTemplate?: {
-    imports?: string[];
+    imports?: string[]; // Module specifiers, default-imported under their first path segment
     implementation: string; // Template string for code gen
   };
 
@@ -205,15 +255,49 @@ export interface WorkflowPort {
   listWorkflows(): Promise<WorkflowDefinition[]>;
 
   /**
-   * Validate workflow (check for cycles, disconnected components, etc.)
+   * Validate workflow (check for cycles, port types, disconnected components, etc.)
    */
-  validateWorkflow(definition: WorkflowDefinition): Promise<{ valid: boolean; errors: string[] }>;
+  validateWorkflow(definition: WorkflowDefinition): Promise<WorkflowValidationResult>;
 
   /**
    * Execute a workflow
    */
   executeWorkflow(id: string, inputs?: Record<string, any>): Promise<WorkflowExecutionContext>;
 
+  /**
+   * Pause a running execution after the component currently executing.
+   * Sub-workflow executions it started are paused too, and carry on when
+   * it resumes.
+   */
+  pauseExecution(executionId: string): Promise<void>;
+
+  /**
+   * Resume a paused (or interrupted) execution from its last completed component
+   */
+  resumeExecution(executionId: string): Promise<WorkflowExecutionContext>;
+
+  /**
+   * Cancel a running or paused execution, along with the sub-workflow
+   * executions it started
+   */
+  cancelExecution(executionId: string): Promise<void>;
+
+  /**
+   * List past executions of a workflow (newest first)
+   */
+  listExecutions(workflowId: string): Promise<WorkflowExecutionContext[]>;
+
+  /**
+   * Get an execution by ID
+   */
+  getExecution(executionId: string): Promise<WorkflowExecutionContext | null>;
+
+  /**
+   * Re-run a past execution, feeding each component its recorded inputData.
+   * Deterministic components are stubbed with their recorded outputs.
+   */
+  replayExecution(executionId: string, options?: ReplayOptions): Promise<WorkflowExecutionContext>;
+
   /**
    * Get component templates
    */
@@ -7,7 +7,7 @@ import { Box, Text } from 'ink';
 import { AppLauncher } from './components/AppLauncher.js';
 import { KeyboardHandler } from './components/KeyboardHandler.js';
 import type { Framework } from '../core/framework.js';
-import type { App as ProductivityApp } from '../ports/app.js';
+import type { App as ProductivityApp, AppChangeEvent } from '../ports/app.js';
 import type { KeyboardInput } from '../adapters/keyboard-input.js';
 
 interface InkhatAppProps {
@@ -18,10 +18,20 @@ interface InkhatAppProps {
 export const App: React.FC<InkhatAppProps> = ({ framework, keyboardInput }) => {
   const [currentApp, setCurrentApp] = useState<ProductivityApp | null>(null);
   const [availableApps, setAvailableApps] = useState<ProductivityApp[]>([]);
+  const [lastChange, setLastChange] = useState<AppChangeEvent | null>(null);
 
   useEffect(() => {
     const apps = framework.getRegistry().list();
     setAvailableApps(apps);
+
+    // Hot reload: the framework has already relaunched or closed the current app
+    const handleChange = (event: AppChangeEvent) => {
+      setAvailableApps(framework.getRegistry().list());
+      setCurrentApp(framework.getCurrentApp());
+      setLastChange(event);
+    };
+    framework.on(handleChange);
+    return () => framework.off(handleChange);
   }, [framework]);
 
   const handleAppSelect = async (app: ProductivityApp) => {
@@ -43,7 +53,21 @@ export const App: React.FC<InkhatAppProps> = ({ framework, keyboardInput }) => {
             <Text color="yellow">No apps available. Create an app in src/apps/</Text>
           </Box>
         )}
+        {lastChange && <AppChangeNotice event={lastChange} />}
       </Box>
     </KeyboardHandler>
   );
 };
+
+const AppChangeNotice: React.FC<{ event: AppChangeEvent }> = ({ event }) => {
+  const name = event.app?.name ?? event.previous?.name ?? event.path;
+
+  switch (event.type) {
+    case 'failed':
+      return <Text color="red">Reload of {name} failed: {event.error}</Text>;
+    case 'removed':
+      return <Text dimColor>Removed {name}</Text>;
+    default:
+      return <Text dimColor>{event.type === 'added' ? 'Added' : 'Reloaded'} {name}</Text>;
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * Tests for the Agent Run View
+ */
+
+import React from 'react';
+import { Socket } from 'net';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, type Instance } from 'ink';
+import { AgentRunView } from './AgentRunView.js';
+import type {
+  Agent,
+  AgentPort,
+  AgentTool,
+  AgentExecutionRequest,
+  AgentExecutionResult,
+  AgentExecutionContext,
+  AgentStreamEvent,
+} from '../../ports/agent.js';
+
+/**
+ * Terminal input that ink reads keys from
+ */
+class FakeStdin extends Socket {
+  isTTY = true;
+  isRaw = false;
+  private data: string | null = null;
+
+  press(data: string): void {
+    this.data = data;
+    this.emit('readable');
+    this.emit('data', data);
+  }
+
+  read(): string | null {
+    const { data } = this;
+    this.data = null;
+    return data;
+  }
+
+  setRawMode(mode: boolean): this {
+    this.isRaw = mode;
+    return this;
+  }
+
+  setEncoding(): this {
+    return this;
+  }
+
+  resume(): this {
+    return this;
+  }
+
+  pause(): this {
+    return this;
+  }
+
+  ref(): this {
+    return this;
+  }
+
+  unref(): this {
+    return this;
+  }
+}
+
+/**
+ * Terminal output keeping the last frame ink rendered
+ */
+class FakeStdout extends Socket {
+  isTTY = false;
+  columns = 100;
+  rows = 30;
+  lastFrame = '';
+
+  write(frame: string | Uint8Array): boolean {
+    this.lastFrame = frame.toString();
+    return true;
+  }
+
+  getWindowSize(): [number, number] {
+    return [this.columns, this.rows];
+  }
+
+  getColorDepth(): number {
+    return 1;
+  }
+
+  hasColors(): boolean {
+    return false;
+  }
+
+  clearLine(): boolean {
+    return true;
+  }
+
+  clearScreenDown(): boolean {
+    return true;
+  }
+
+  cursorTo(): boolean {
+    return true;
+  }
+
+  moveCursor(): boolean {
+    return true;
+  }
+}
+
+/**
+ * An agent that thinks until it is stopped; the agent 'missing' fails
+ * straight away
+ */
+class StoppableAgents implements AgentPort {
+  stopped: string[] = [];
+  private stop!: () => void;
+
+  async *executeStream(request: AgentExecutionRequest): AsyncGenerator<AgentStreamEvent, AgentExecutionResult> {
+    if (request.agentId === 'missing') {
+      throw new Error(`Agent not found: ${request.agentId}`);
+    }
+    const context = { executionId: 'run-1' } as AgentExecutionContext;
+    request.callbacks?.onStateChange?.('thinking', context);
+    yield { type: 'state', state: 'thinking' };
+
+    await new Promise<void>((resolve) => (this.stop = resolve));
+
+    const result: AgentExecutionResult = {
+      executionId: 'run-1',
+      success: false,
+      output: '',
+      finalState: 'cancelled',
+      steps: [],
+      metrics: { steps: 0, llmCalls: 1, toolCalls: 0, tokensUsed: 0, cost: 0, duration: 5, errors: 0 },
+      error: { message: 'Agent execution was stopped' },
+    };
+    yield { type: 'state', state: 'cancelled' };
+    yield { type: 'complete', result };
+    return result;
+  }
+
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionResult> {
+    const events = this.executeStream(request);
+    for (;;) {
+      const next = await events.next();
+      if (next.done) return next.value;
+    }
+  }
+
+  async stopExecution(executionId: string): Promise<void> {
+    this.stopped.push(executionId);
+    this.stop();
+  }
+
+  async getAgent(): Promise<Agent | null> {
+    return null;
+  }
+
+  async listAgents(): Promise<Agent[]> {
+    return [];
+  }
+
+  async getExecutionHistory(): Promise<AgentExecutionResult[]> {
+    return [];
+  }
+
+  async getTools(): Promise<AgentTool[]> {
+    return [];
+  }
+
+  async createAgent(): Promise<Agent> {
+    throw new Error('StoppableAgents cannot create agents');
+  }
+
+  async updateAgent(): Promise<Agent> {
+    throw new Error('StoppableAgents cannot update agents');
+  }
+
+  async deleteAgent(): Promise<void> {
+    throw new Error('StoppableAgents cannot delete agents');
+  }
+
+  async registerTool(): Promise<void> {
+    throw new Error('StoppableAgents cannot register tools');
+  }
+
+  async createAgentFromWorkflow(): Promise<Agent> {
+    throw new Error('StoppableAgents cannot create agents');
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('AgentRunView', () => {
+  let instance: Instance | undefined;
+
+  afterEach(() => {
+    instance?.unmount();
+    instance = undefined;
+  });
+
+  it('should stop the execution on Esc', async () => {
+    const stdin = new FakeStdin();
+    const stdout = new FakeStdout();
+    const agents = new StoppableAgents();
+    const completed: AgentExecutionResult[] = [];
+
+    instance = render(
+      <AgentRunView
+        agents={agents}
+        request={{ agentId: 'assistant', input: 'Plan my week' }}
+        onComplete={(result) => completed.push(result)}
+      />,
+      {
+        stdin,
+        stdout,
+        debug: true,
+        exitOnCtrlC: false,
+        patchConsole: false,
+      },
+    );
+
+    await tick();
+    expect(stdout.lastFrame).toContain('thinking');
+    expect(stdout.lastFrame).toContain('Esc stop');
+
+    stdin.press('\u001B');
+    await tick();
+
+    expect(agents.stopped).toEqual(['run-1']);
+    expect(completed[0].finalState).toBe('cancelled');
+    expect(stdout.lastFrame).toContain('Stopped after 0 steps');
+    expect(stdout.lastFrame).not.toContain('Esc stop');
+  });
+
+  it('should report an execution that fails without a result', async () => {
+    const stdout = new FakeStdout();
+    const agents = new StoppableAgents();
+    const errors: Error[] = [];
+
+    instance = render(
+      <AgentRunView
+        agents={agents}
+        request={{ agentId: 'missing', input: 'Plan my week' }}
+        onError={(error) => errors.push(error)}
+      />,
+      {
+        stdin: new FakeStdin(),
+        stdout,
+        debug: true,
+        exitOnCtrlC: false,
+        patchConsole: false,
+      },
+    );
+
+    await tick();
+    expect(errors.map((e) => e.message)).toEqual(['Agent not found: missing']);
+    expect(stdout.lastFrame).toContain('Error: Agent not found: missing');
+    expect(stdout.lastFrame).not.toContain('Esc stop');
+  });
+});
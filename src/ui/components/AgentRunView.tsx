@@ -0,0 +1,49 @@
+/**
+ * Agent Run View
+ * Runs an agent and shows its AgentTimeline; Esc stops the execution
+ */
+
+import React, { useMemo, useRef } from 'react';
+import type { AgentPort, AgentExecutionRequest, AgentExecutionResult } from '../../ports/agent.js';
+import { AgentTimeline } from './AgentTimeline.js';
+
+interface AgentRunViewProps {
+  agents: AgentPort;
+  request: AgentExecutionRequest; // Runs again when a different request is passed
+  onComplete?: (result: AgentExecutionResult) => void;
+  onError?: (error: Error) => void; // The execution failed without a result
+  isActive?: boolean;
+}
+
+export const AgentRunView: React.FC<AgentRunViewProps> = ({ agents, request, onComplete, onError, isActive = true }) => {
+  const executionId = useRef<string | null>(null);
+
+  const events = useMemo(() => {
+    executionId.current = null;
+    const callbacks = request.callbacks;
+
+    // The execution id is only known once the agent starts, from the
+    // context its callbacks receive
+    return agents.executeStream({
+      ...request,
+      callbacks: {
+        ...callbacks,
+        onStateChange: (state, context) => {
+          executionId.current = context.executionId;
+          callbacks?.onStateChange?.(state, context);
+        },
+      },
+    });
+  }, [agents, request]);
+
+  const stop = () => {
+    if (executionId.current) {
+      // It may have finished in the meantime
+      agents.stopExecution(executionId.current).catch(() => {});
+    }
+  };
+
+  return (
+    <AgentTimeline events={events} onComplete={onComplete} onError={onError} onStop={stop} isActive={isActive} />
+  );
+};
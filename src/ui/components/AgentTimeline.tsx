@@ -0,0 +1,223 @@
+/**
+ * Agent Timeline
+ * Live trace of an agent execution as a list of collapsible steps, fed by
+ * AgentPort.executeStream
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import type { ToolCall } from '../../ports/llm.js';
+import type { AgentState, AgentStep, AgentStreamEvent, AgentExecutionResult } from '../../ports/agent.js';
+
+interface AgentTimelineProps {
+  events: AsyncIterable<AgentStreamEvent>;
+  onComplete?: (result: AgentExecutionResult) => void;
+  onError?: (error: Error) => void; // The events ended with an error instead of a result
+  onStop?: () => void; // Called on Esc while the agent runs, e.g. to call AgentPort.stopExecution
+  isActive?: boolean;
+}
+
+/**
+ * What the agent is doing in the step not yet finished
+ */
+interface PendingStep {
+  thought?: string;
+  action?: ToolCall;
+  observation?: string;
+}
+
+const STATE_COLOR: Record<AgentState, string> = {
+  idle: 'gray',
+  thinking: 'yellow',
+  acting: 'cyan',
+  waiting: 'gray',
+  completed: 'green',
+  failed: 'red',
+  cancelled: 'yellow',
+};
+
+const PREVIEW_LENGTH = 48;
+
+export const AgentTimeline: React.FC<AgentTimelineProps> = ({ events, onComplete, onError, onStop, isActive = true }) => {
+  const [steps, setSteps] = useState<AgentStep[]>([]);
+  const [pending, setPending] = useState<PendingStep>({});
+  const [state, setState] = useState<AgentState>('idle');
+  const [result, setResult] = useState<AgentExecutionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    let unmounted = false;
+
+    const consume = async () => {
+      try {
+        for await (const event of events) {
+          if (unmounted) return;
+          switch (event.type) {
+            case 'state':
+              setState(event.state);
+              break;
+            case 'thought':
+              setPending((p) => ({ ...p, thought: event.content }));
+              break;
+            case 'action':
+              setPending((p) => ({ ...p, action: event.action, observation: undefined }));
+              break;
+            case 'observation':
+              setPending((p) => ({ ...p, observation: event.content }));
+              break;
+            case 'step':
+              setSteps((s) => [...s, event.step]);
+              setPending({});
+              break;
+            case 'error':
+              setError(event.error.message);
+              break;
+            case 'complete':
+              setResult(event.result);
+              onComplete?.(event.result);
+              break;
+          }
+        }
+      } catch (e) {
+        if (unmounted) return;
+        setError((e as Error).message);
+        onError?.(e as Error);
+      }
+    };
+
+    consume();
+    return () => {
+      unmounted = true;
+    };
+  }, [events]);
+
+  const running = !result && !error;
+
+  useInput(
+    (input, key) => {
+      if (key.escape && running) {
+        onStop?.();
+      } else if (key.upArrow) {
+        setCursor((c) => Math.max(0, c - 1));
+      } else if (key.downArrow) {
+        setCursor((c) => Math.min(steps.length - 1, c + 1));
+      } else if (key.return || input === ' ') {
+        setExpanded((e) => {
+          const next = new Set(e);
+          if (!next.delete(cursor)) next.add(cursor);
+          return next;
+        });
+      } else if (input === 'e') {
+        // Expand all, or collapse all when everything is expanded
+        setExpanded((e) => (e.size === steps.length ? new Set() : new Set(steps.map((_, i) => i))));
+      }
+    },
+    { isActive },
+  );
+
+  const hasPending = running && (pending.thought || pending.action);
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text bold>Agent </Text>
+        {running && (state === 'thinking' || state === 'acting') && (
+          <Text color={STATE_COLOR[state]}><Spinner type="dots" /> </Text>
+        )}
+        <Text color={STATE_COLOR[state]}>{state}</Text>
+        {result && (
+          <Text dimColor>
+            {'  '}{result.metrics.steps} steps • {result.metrics.llmCalls} LLM calls • {result.metrics.tokensUsed} tokens
+            {result.metrics.cost > 0 ? ` • $${result.metrics.cost.toFixed(4)}` : ''} • {result.metrics.duration}ms
+          </Text>
+        )}
+      </Box>
+
+      {steps.map((step, index) => {
+        const isSelected = index === cursor;
+        const isExpanded = expanded.has(index);
+        const failed = step.observation?.startsWith('Error:');
+
+        return (
+          <Box key={step.stepNumber} flexDirection="column">
+            <Box>
+              <Text color={isSelected ? 'cyan' : undefined}>{isSelected ? '→ ' : '  '}</Text>
+              <Text dimColor>{isExpanded ? '▾ ' : '▸ '}</Text>
+              <Box width={4}>
+                <Text color={failed ? 'red' : 'green'}>{step.stepNumber}</Text>
+              </Box>
+              <Box width={28}>
+                <Text bold={isSelected} wrap="truncate">
+                  {step.action ? `${step.action.tool}(${preview(step.action.arguments, 20)})` : 'answer'}
+                </Text>
+              </Box>
+              <Box width={8}>
+                <Text dimColor>{step.duration}ms</Text>
+              </Box>
+              <Text dimColor wrap="truncate">{preview(step.observation ?? step.thought ?? '')}</Text>
+            </Box>
+
+            {isExpanded && (
+              <Box flexDirection="column" marginLeft={4} marginBottom={1}>
+                {step.thought && <Detail label="Thought" text={step.thought} />}
+                {step.action && <Detail label="Action" text={`${step.action.tool} ${format(step.action.arguments)}`} />}
+                {step.observation !== undefined && (
+                  <Detail label="Observation" text={step.observation} color={failed ? 'red' : undefined} />
+                )}
+              </Box>
+            )}
+          </Box>
+        );
+      })}
+
+      {hasPending && (
+        <Box flexDirection="column" marginLeft={4}>
+          {pending.thought && <Detail label="Thought" text={pending.thought} />}
+          {pending.action && <Detail label="Action" text={`${pending.action.name} ${format(pending.action.arguments)}`} />}
+          {pending.observation !== undefined && <Detail label="Observation" text={pending.observation} />}
+        </Box>
+      )}
+
+      {error && <Text color="red">Error: {error}</Text>}
+      {result?.finalState === 'cancelled' && <Text color="yellow">Stopped after {result.steps.length} steps</Text>}
+      {result?.success && (
+        <Box marginTop={1} flexDirection="column">
+          <Text bold color="green">Answer</Text>
+          <Text>{result.output}</Text>
+        </Box>
+      )}
+
+      {(steps.length > 0 || (running && onStop)) && (
+        <Text dimColor>
+          {steps.length > 0 ? '↑↓ select • Enter expand/collapse • e expand all' : ''}
+          {running && onStop ? `${steps.length > 0 ? ' • ' : ''}Esc stop` : ''}
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+const Detail: React.FC<{ label: string; text: string; color?: string }> = ({ label, text, color }) => (
+  <Box>
+    <Box width={13} flexShrink={0}>
+      <Text bold dimColor>{label}</Text>
+    </Box>
+    <Text color={color}>{text}</Text>
+  </Box>
+);
+
+function preview(data: unknown, length = PREVIEW_LENGTH): string {
+  const text = (typeof data === 'string' ? data : format(data)).replace(/\s+/g, ' ');
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function format(data: unknown): string {
+  try {
+    return JSON.stringify(data) ?? String(data);
+  } catch {
+    return String(data);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Workflow Execution View
+ * Live per-component status of a running workflow, fed by engine events
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import type { WorkflowDefinition, ComponentExecutionState } from '../../ports/workflow.js';
+import type { WorkflowEngine, WorkflowExecutionEvent } from '../../adapters/workflow-engine.js';
+import { topologicalSort } from '../../adapters/workflow-engine.js';
+
+interface WorkflowExecutionViewProps {
+  engine: WorkflowEngine;
+  workflow: WorkflowDefinition;
+  isActive?: boolean;
+}
+
+const STATUS_STYLE: Record<ComponentExecutionState['status'], { icon: string; color: string }> = {
+  pending: { icon: '·', color: 'gray' },
+  running: { icon: '', color: 'yellow' },
+  completed: { icon: '✔', color: 'green' },
+  failed: { icon: '✖', color: 'red' },
+  skipped: { icon: '↷', color: 'gray' },
+};
+
+const PREVIEW_LENGTH = 32;
+
+export const WorkflowExecutionView: React.FC<WorkflowExecutionViewProps> = ({
+  engine,
+  workflow,
+  isActive = true,
+}) => {
+  const [states, setStates] = useState<Map<string, ComponentExecutionState>>(new Map());
+  const [execution, setExecution] = useState<{ id?: string; state?: string; error?: string }>({});
+  const [cursor, setCursor] = useState(0);
+  const [expanded, setExpanded] = useState(false);
+
+  let order = workflow.components;
+  try {
+    order = topologicalSort(workflow.components, workflow.connections);
+  } catch {
+    // Cyclic workflows never start; keep declaration order
+  }
+
+  useEffect(() => {
+    let current: string | undefined;
+
+    const handler = (event: WorkflowExecutionEvent) => {
+      // Only top-level runs of this workflow; sub-workflows have their own executions
+      if (event.workflowId !== workflow.id || event.parentExecutionId) return;
+
+      if (event.type === 'execution') {
+        if (event.executionId !== current) {
+          current = event.executionId;
+          setStates(new Map());
+        }
+        setExecution({ id: event.executionId, state: event.state, error: event.error });
+      } else if (event.executionId === current) {
+        setStates((previous) => new Map(previous).set(event.state.componentId, event.state));
+      }
+    };
+
+    engine.on(handler);
+    return () => engine.off(handler);
+  }, [engine, workflow.id]);
+
+  useInput(
+    (_input, key) => {
+      if (key.upArrow) {
+        setCursor((c) => Math.max(0, c - 1));
+      } else if (key.downArrow) {
+        setCursor((c) => Math.min(order.length - 1, c + 1));
+      } else if (key.return) {
+        setExpanded((e) => !e);
+      }
+    },
+    { isActive },
+  );
+
+  const selected = order[cursor];
+  const selectedState = selected ? states.get(selected.id) : undefined;
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text bold>Run {execution.id ?? '(waiting)'} </Text>
+        {execution.state && (
+          <Text color={execution.state === 'completed' ? 'green' : execution.state === 'failed' ? 'red' : 'yellow'}>
+            {execution.state}
+          </Text>
+        )}
+        {execution.error && <Text color="red"> - {execution.error}</Text>}
+      </Box>
+
+      {order.map((component, index) => {
+        const state = states.get(component.id);
+        const status = state?.status ?? 'pending';
+        const style = STATUS_STYLE[status];
+        const isSelected = index === cursor;
+
+        return (
+          <Box key={component.id}>
+            <Text color={isSelected ? 'cyan' : undefined}>{isSelected ? '→ ' : '  '}</Text>
+            <Box width={2}>
+              {status === 'running' ? (
+                <Text color={style.color}><Spinner type="dots" /></Text>
+              ) : (
+                <Text color={style.color}>{style.icon}</Text>
+              )}
+            </Box>
+            <Box width={24}>
+              <Text bold={isSelected} wrap="truncate">{component.name}</Text>
+            </Box>
+            <Box width={8}>
+              <Text dimColor>{state?.duration !== undefined ? `${state.duration}ms` : ''}</Text>
+            </Box>
+            {state?.error ? (
+              <Text color="red" wrap="truncate">{state.error}</Text>
+            ) : (
+              <Text dimColor wrap="truncate">
+                {state?.inputData !== undefined ? `in ${preview(state.inputData)}` : ''}
+                {state?.outputData !== undefined ? `  out ${preview(state.outputData)}` : ''}
+              </Text>
+            )}
+          </Box>
+        );
+      })}
+
+      {expanded && selected && (
+        <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor="cyan" paddingX={1}>
+          <Text bold color="cyan">{selected.name}</Text>
+          {selectedState?.error && <Text color="red">Error: {selectedState.error}</Text>}
+          <Text bold>inputData</Text>
+          <Text>{formatData(selectedState?.inputData)}</Text>
+          <Text bold>outputData</Text>
+          <Text>{formatData(selectedState?.outputData)}</Text>
+        </Box>
+      )}
+
+      <Text dimColor>↑↓ select • Enter {expanded ? 'hide' : 'show'} full input/output</Text>
+    </Box>
+  );
+};
+
+function preview(data: unknown): string {
+  const text = formatData(data, 0).replace(/\s+/g, ' ');
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+function formatData(data: unknown, indent = 2): string {
+  if (data === undefined) return '(none)';
+  try {
+    return JSON.stringify(data, null, indent) ?? String(data);
+  } catch {
+    return String(data);
+  }
+}